@@ -1,12 +1,109 @@
-import React, { useState, useEffect, useMemo } from 'react';
-import { MapContainer, TileLayer, Marker, Popup, useMap } from 'react-leaflet';
+import React, { useState, useEffect, useMemo, useRef, useCallback } from 'react';
+import { MapContainer, TileLayer, Marker, Popup, Circle, useMap, useMapEvents } from 'react-leaflet';
 import L from 'leaflet';
-import { Search, MapPin, Plus, Navigation, Loader2, UtensilsCrossed, Coffee, Beer } from 'lucide-react';
-import { Place, CheckIn, SavedPlace, Coordinates } from './types';
+import { Search, MapPin, Plus, Navigation, Loader2, UtensilsCrossed, Coffee, Beer, AlertTriangle, X, BookmarkX, Tags, BarChart3, CalendarDays, ImagePlus, ListChecks, CloudOff, Cloud, Footprints, RefreshCw } from 'lucide-react';
+import { Place, CheckIn, SavedPlace, Coordinates, PlaceList, SharedList } from './types';
 import { CheckInModal } from './components/CheckInModal';
 import { Timeline } from './components/Timeline';
-import { searchPlacesWithGemini } from './services/geminiService';
+import { DataTransferMenu } from './components/DataTransferMenu';
+import { ConfirmDialog, ConfirmAction } from './components/ConfirmDialog';
+import { UndoToast } from './components/UndoToast';
+import { SavedPlacesLayer } from './components/SavedPlacesLayer';
+import { SavedPlacesToolbar } from './components/SavedPlacesToolbar';
+import { PlaceTagsEditor } from './components/PlaceTagsEditor';
+import { TagManager } from './components/TagManager';
+import { StatsDashboard } from './components/StatsDashboard';
+import { DiaryView } from './components/DiaryView';
+import { QuickCheckInModal } from './components/QuickCheckInModal';
+import { LikedDishes } from './components/LikedDishes';
+import { PlaceSummaryCard } from './components/PlaceSummaryCard';
+import { AskMapBox } from './components/AskMapBox';
+import { PlaceListsManager } from './components/PlaceListsManager';
+import { PlaceListPicker } from './components/PlaceListPicker';
+import { SharedListLayer } from './components/SharedListLayer';
+import { OfflinePanel } from './components/OfflinePanel';
+import { SyncPanel, formatSyncTime } from './components/SyncPanel';
+import { SearchBox } from './components/SearchBox';
+import { LanguageSwitcher } from './components/LanguageSwitcher';
+import { useI18n } from './components/I18nProvider';
+import { categoryText } from './services/i18n';
+import { FoodCrawlPanel } from './components/FoodCrawlPanel';
+import { FoodCrawlLayer } from './components/FoodCrawlLayer';
+import { LocationControls } from './components/LocationControls';
+import { NearbyPlacePrompt } from './components/NearbyPlacePrompt';
+import { collectTags, renameTag, removeTag } from './services/tags';
+import { applySavedPlaceFilters, loadFilters, saveFilters, SavedPlaceFilters } from './services/savedPlaceFilters';
+import { distanceInMeters, formatDistance, isWithinBounds } from './services/geo';
+import { latestCheckIn, averageRating } from './services/placeMetrics';
+import { runDiaryQuery, describeDiaryQuery, DiaryQuery } from './services/diaryQuery';
+import { buildTasteProfile, describeTasteProfile, rankSearchResults } from './services/tasteProfile';
+import { createPlaceList, togglePlaceInList, removeListFromPlaces, listsOfPlace, isShownOnMap } from './services/placeLists';
+import { parseShareHash, ListShareError } from './services/listSharing';
+import {
+  QueuedRequest,
+  loadRequestQueue,
+  saveRequestQueue,
+  queuePhotoAnalysis,
+  queueSearch,
+  isPending,
+  isOfflineError,
+  runQueuedRequest,
+  applyPhotoDescription,
+} from './services/requestQueue';
+import { TileBounds, TILE_URL_TEMPLATE } from './services/offlineTiles';
+import { planFoodCrawl, RoutePlan, MAX_ROUTE_STOPS } from './services/routePlanner';
+import { createOsrmRouter } from './services/osrmRouter';
+import { geolocationSourceFromUrl, GeoPosition, GeolocationErrorKind } from './services/geolocation';
+import {
+  SyncSettings,
+  SyncStatus,
+  SyncState,
+  SyncError,
+  loadSyncSettings,
+  saveSyncSettings,
+  loadSyncState,
+  saveSyncState,
+  resetSyncProgress,
+  createRestSyncTransport,
+  trackLocalChanges,
+  applyRemoteRecords,
+  collectPendingRecords,
+  syncOnce,
+  SYNC_INTERVAL_MS,
+  SYNC_DEBOUNCE_MS,
+} from './services/syncService';
+import { findNearbyPlace, loadProximitySettings, saveProximitySettings, ProximitySettings } from './services/proximity';
+import { createGeminiSearchProvider, GEMINI_SEARCH_PROVIDER_ID } from './services/aiService';
+import { searchWithProviders, classifySearchError } from './services/placeSearch';
+import { createNominatimSearchProvider } from './services/nominatimSearchProvider';
+import { createSavedPlacesSearchProvider } from './services/savedPlacesSearchProvider';
+import { createCachedSearchProvider } from './services/searchCache';
+import {
+  SearchHistoryEntry,
+  loadSearchHistory,
+  saveSearchHistory,
+  recordSearch,
+  togglePinnedSearch,
+  removeSearch,
+  clearSearchHistory,
+} from './services/searchHistory';
 import { StarRating } from './components/StarRating';
+import { CUISINE_CATEGORIES, CuisineCategory } from './constants';
+import {
+  loadSavedPlaces,
+  persistChanges,
+  migrateFromLocalStorage,
+  loadPlaceLists,
+  savePlaceList,
+  deletePlaceList,
+  loadSharedLists,
+  saveSharedList,
+  deleteSharedList,
+  getStorageEstimate,
+  formatBytes,
+  StorageError,
+  StorageEstimate,
+} from './services/storageService';
 
 // --- Leaflet Icon Fix ---
 // Fix for missing Leaflet default markers in React environments
@@ -17,132 +114,579 @@ L.Icon.Default.mergeOptions({
   shadowUrl: 'https://unpkg.com/leaflet@1.9.4/dist/images/marker-shadow.png',
 });
 
-// Custom red icon for selected place
-const redIcon = new L.Icon({
-  iconUrl: 'https://raw.githubusercontent.com/pointhi/leaflet-color-markers/master/img/marker-icon-2x-red.png',
-  shadowUrl: 'https://cdnjs.cloudflare.com/ajax/libs/leaflet/0.7.7/images/marker-shadow.png',
-  iconSize: [25, 41],
-  iconAnchor: [12, 41],
-  popupAnchor: [1, -34],
-  shadowSize: [41, 41]
-});
-
-// Helper component to update map view when center changes
-function MapUpdater({ center }: { center: Coordinates }) {
+// Flies the map to `center` each time `nonce` changes, and only then, so panning away
+// (or closing a place) leaves the map where the user put it
+function MapUpdater({ center, nonce }: { center: Coordinates; nonce: number }) {
   const map = useMap();
   useEffect(() => {
     map.flyTo([center.latitude, center.longitude], 15, { duration: 1.5 });
-  }, [center, map]);
+  }, [nonce, map]);
+  return null;
+}
+
+// Tells when the user drags the map, e.g. to stop following their position
+function DragListener({ onDragStart }: { onDragStart: () => void }) {
+  useMapEvents({ dragstart: onDragStart });
+  return null;
+}
+
+interface MapView {
+  center: Coordinates;
+  bounds: TileBounds;
+  zoom: number;
+}
+
+// Reports what the map shows, e.g. so that area can be downloaded for offline use or searched
+function MapViewTracker({ onChange }: { onChange: (view: MapView) => void }) {
+  const map = useMap();
+  useEffect(() => {
+    const report = () => {
+      const bounds = map.getBounds();
+      const center = map.getCenter();
+      onChange({
+        center: { latitude: center.lat, longitude: center.lng },
+        bounds: { north: bounds.getNorth(), south: bounds.getSouth(), east: bounds.getEast(), west: bounds.getWest() },
+        zoom: Math.round(map.getZoom()),
+      });
+    };
+    report();
+    map.on('moveend', report);
+    return () => { map.off('moveend', report); };
+  }, [map, onChange]);
+  return null;
+}
+
+// Zooms out to show all the given points, once per `fitKey`
+function BoundsFitter({ points, fitKey }: { points: Coordinates[]; fitKey: number }) {
+  const map = useMap();
+  useEffect(() => {
+    if (points.length === 0) return;
+    const bounds = L.latLngBounds(points.map(p => [p.latitude, p.longitude] as [number, number]));
+    map.flyToBounds(bounds, { padding: [48, 48], maxZoom: 16, duration: 1.2 });
+  }, [fitKey, map]);
   return null;
 }
 
-const CUISINE_CATEGORIES = [
-  { name: '台式', label: '台式料理', icon: '🍚' },
-  { name: '日式', label: '日式料理', icon: '🍣' },
-  { name: '韓式', label: '韓式料理', icon: '🥘' },
-  { name: '火鍋', label: '火鍋', icon: '🍲' },
-  { name: '義式', label: '義式料理', icon: '🍝' },
-  { name: '美式', label: '美式餐廳', icon: '🍔' },
-  { name: '早午餐', label: '早午餐', icon: '🍳' },
-  { name: '咖啡廳', label: '咖啡廳', icon: '☕' },
-  { name: '甜點', label: '甜點', icon: '🍰' },
-  { name: '酒吧', label: '酒吧', icon: '🍺' },
-];
+// Browser geolocation, or a simulated position with ?simulate-location=lat,lng
+const geolocationSource = geolocationSourceFromUrl(window.location.search);
+
+// Food crawl routing; without an endpoint routes fall back to straight lines
+const crawlRouter = process.env.OSRM_URL ? createOsrmRouter({ baseUrl: process.env.OSRM_URL }) : null;
 
 const App: React.FC = () => {
+  const { t, locale } = useI18n();
+
   // --- State ---
   // Default to Taipei
   const [currentLocation, setCurrentLocation] = useState<Coordinates>({ latitude: 25.0330, longitude: 121.5654 }); 
+  // The last real fix; null while we only have the default
+  const [position, setPosition] = useState<GeoPosition | null>(null);
+  const [locationError, setLocationError] = useState<GeolocationErrorKind | null>(null);
+  const [isLocating, setIsLocating] = useState(false);
+  const [isWatchingLocation, setIsWatchingLocation] = useState(false);
+  // While following, each new fix recenters the map; dragging the map stops it
+  const [isFollowing, setIsFollowing] = useState(false);
+  // Where the map last flew: the user's position, a selected place
+  const [mapFocus, setMapFocus] = useState<{ location: Coordinates; nonce: number }>({ location: { latitude: 25.0330, longitude: 121.5654 }, nonce: 0 });
+  const [proximitySettings, setProximitySettings] = useState<ProximitySettings>(loadProximitySettings);
+  const [dismissedNearbyIds, setDismissedNearbyIds] = useState<Set<string>>(() => new Set());
   const [searchQuery, setSearchQuery] = useState('');
   const [searchResults, setSearchResults] = useState<Place[]>([]);
+  // What the current results were searched for, and around where
+  const [lastSearch, setLastSearch] = useState<{ query: string; category?: string; location: Coordinates } | null>(null);
   const [isSearching, setIsSearching] = useState(false);
-  const [savedPlaces, setSavedPlaces] = useState<SavedPlace[]>(() => {
-    const saved = localStorage.getItem('my_gourmet_map_places');
-    return saved ? JSON.parse(saved) : [];
-  });
+  const [searchMessage, setSearchMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const [isRecommendMode, setIsRecommendMode] = useState(true);
+  const [searchHistory, setSearchHistory] = useState<SearchHistoryEntry[]>(loadSearchHistory);
+  // The search in flight, aborted when a newer one replaces it
+  const searchAbortRef = useRef<AbortController | null>(null);
+  const [savedPlaces, setSavedPlaces] = useState<SavedPlace[]>([]);
+  const [placeLists, setPlaceLists] = useState<PlaceList[]>([]);
+  const [sharedLists, setSharedLists] = useState<SharedList[]>([]);
+  const [isStorageReady, setIsStorageReady] = useState(false);
+  const [storageError, setStorageError] = useState<string | null>(null);
+  const [storageEstimate, setStorageEstimate] = useState<StorageEstimate | null>(null);
+  // Last snapshot written to IndexedDB, used to persist only what changed
+  const persistedPlacesRef = useRef<SavedPlace[]>([]);
   
   const [selectedPlace, setSelectedPlace] = useState<SavedPlace | Place | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingCheckIn, setEditingCheckIn] = useState<CheckIn | null>(null);
+  const [checkInDraft, setCheckInDraft] = useState<Pick<CheckIn, 'photos' | 'timestamp'> | null>(null);
+  const [isQuickCheckInOpen, setIsQuickCheckInOpen] = useState(false);
+  const [confirmRequest, setConfirmRequest] = useState<{ title: string; message: string; actions: ConfirmAction[] } | null>(null);
+  const [undoAction, setUndoAction] = useState<{ id: string; message: string; undo: () => void } | null>(null);
   const [viewState, setViewState] = useState<'map' | 'list'>('map'); // Mobile toggle
+  const [savedFilters, setSavedFilters] = useState<SavedPlaceFilters>(loadFilters);
+  const [isTagManagerOpen, setIsTagManagerOpen] = useState(false);
+  const [isStatsOpen, setIsStatsOpen] = useState(false);
+  const [isDiaryOpen, setIsDiaryOpen] = useState(false);
+  const [isListsOpen, setIsListsOpen] = useState(false);
+  const [isOfflinePanelOpen, setIsOfflinePanelOpen] = useState(false);
+  const [isSyncOpen, setIsSyncOpen] = useState(false);
+  const [syncSettings, setSyncSettings] = useState<SyncSettings>(loadSyncSettings);
+  // Cursor, known versions and tombstones; read and written mid-sync, so kept in a ref
+  const syncStateRef = useRef<SyncState>(loadSyncState());
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>(() => ({ phase: 'idle', lastSyncedAt: syncStateRef.current.lastSyncedAt }));
+  const syncSettingsRef = useRef(syncSettings);
+  syncSettingsRef.current = syncSettings;
+  const isSyncingRef = useRef(false);
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  // AI requests that failed offline, retried when the connection is back
+  const [requestQueue, setRequestQueue] = useState<QueuedRequest[]>(loadRequestQueue);
+  const [isProcessingQueue, setIsProcessingQueue] = useState(false);
+  const [mapView, setMapView] = useState<MapView | null>(null);
+  // Latest values for the queue runner, which outlives a single render
+  const savedPlacesRef = useRef(savedPlaces);
+  savedPlacesRef.current = savedPlaces;
+  const requestQueueRef = useRef(requestQueue);
+  requestQueueRef.current = requestQueue;
+  const isProcessingQueueRef = useRef(false);
+  // Latest "ask my map" question; its matches are recomputed as places change
+  const [diaryQuestion, setDiaryQuestion] = useState<{ question: string; query: DiaryQuery; fitKey: number } | null>(null);
+  // Food crawl: picked stops, and the route through them once planned
+  const [crawlStops, setCrawlStops] = useState<Place[]>([]);
+  const [crawlRoute, setCrawlRoute] = useState<{ plan: RoutePlan; fallbackReason?: string; fitKey: number } | null>(null);
+  const [isPlanningRoute, setIsPlanningRoute] = useState(false);
+  const [replanKey, setReplanKey] = useState(0);
 
   // --- Effects ---
+  const refreshStorageEstimate = () => {
+    getStorageEstimate().then(setStorageEstimate).catch(() => setStorageEstimate(null));
+  };
+
+  const updateSyncState = (update: (state: SyncState) => SyncState) => {
+    syncStateRef.current = update(syncStateRef.current);
+    saveSyncState(syncStateRef.current);
+  };
+
+  // One sync round with the configured server; overlapping calls are dropped
+  const runSync = async () => {
+    const { serverUrl, token } = syncSettingsRef.current;
+    if (!serverUrl || isSyncingRef.current || !navigator.onLine) return;
+    isSyncingRef.current = true;
+    setSyncStatus(status => ({ ...status, phase: 'syncing' }));
+    try {
+      await syncOnce(createRestSyncTransport({ baseUrl: serverUrl, token }), {
+        getState: () => syncStateRef.current,
+        updateState: updateSyncState,
+        getPlaces: () => savedPlacesRef.current,
+        applyRecords: (records, tombstones) => {
+          // The ref is updated right away so the push that follows sees the merged places
+          savedPlacesRef.current = applyRemoteRecords(savedPlacesRef.current, records, tombstones);
+          setSavedPlaces(prev => applyRemoteRecords(prev, records, tombstones));
+        },
+      });
+      setSyncStatus({ phase: 'idle', lastSyncedAt: syncStateRef.current.lastSyncedAt });
+    } catch (error) {
+      console.error("Sync failed", error);
+      setSyncStatus(status => ({ ...status, phase: 'error', error: error instanceof SyncError ? error.message : t.app.syncError }));
+    } finally {
+      isSyncingRef.current = false;
+    }
+  };
+
+  const handleSaveSyncSettings = (settings: SyncSettings) => {
+    if (settings.serverUrl !== syncSettings.serverUrl) {
+      updateSyncState(resetSyncProgress);
+      setSyncStatus({ phase: 'idle', lastSyncedAt: null });
+    }
+    setSyncSettings(settings);
+  };
+
+  const reportStorageError = (error: unknown) => {
+    console.error("Storage error", error);
+    setStorageError(error instanceof StorageError ? error.message : t.app.storageUnavailable);
+  };
+
+  useEffect(() => {
+    // Load saved places from IndexedDB, migrating old localStorage data first
+    let cancelled = false;
+    (async () => {
+      try {
+        await migrateFromLocalStorage();
+        const [places, lists, shared] = await Promise.all([loadSavedPlaces(), loadPlaceLists(), loadSharedLists()]);
+        if (cancelled) return;
+        persistedPlacesRef.current = places;
+        setSavedPlaces(places);
+        setPlaceLists(lists);
+        setSharedLists(shared);
+      } catch (error) {
+        if (!cancelled) reportStorageError(error);
+      } finally {
+        if (!cancelled) {
+          setIsStorageReady(true);
+          refreshStorageEstimate();
+        }
+      }
+    })();
+    return () => { cancelled = true; };
+  }, []);
+
+  useEffect(() => {
+    // Persist whatever changed since the last successful write
+    if (!isStorageReady) return;
+    const previous = persistedPlacesRef.current;
+    if (previous === savedPlaces) return;
+
+    // Stamp local edits and note deletions for sync; stamped places come back through here
+    const tracked = trackLocalChanges(previous, savedPlaces, syncStateRef.current.tombstones);
+    if (tracked.tombstones !== syncStateRef.current.tombstones) {
+      updateSyncState(state => ({ ...state, tombstones: tracked.tombstones }));
+    }
+    if (tracked.places !== savedPlaces) {
+      setSavedPlaces(current => current === savedPlaces ? tracked.places : current);
+      return;
+    }
+    persistedPlacesRef.current = savedPlaces;
+
+    persistChanges(previous, savedPlaces)
+      .then(() => {
+        setStorageError(null);
+        refreshStorageEstimate();
+      })
+      .catch((error) => {
+        // Keep the old snapshot so the failed changes are retried on the next write
+        if (persistedPlacesRef.current === savedPlaces) persistedPlacesRef.current = previous;
+        reportStorageError(error);
+      });
+  }, [savedPlaces, isStorageReady]);
+
+  useEffect(() => {
+    saveFilters(savedFilters);
+  }, [savedFilters]);
+
+  useEffect(() => {
+    saveSyncSettings(syncSettings);
+  }, [syncSettings]);
+
+  useEffect(() => {
+    saveSearchHistory(searchHistory);
+  }, [searchHistory]);
+
+  useEffect(() => {
+    // Sync once the places are loaded, then periodically and whenever we're back online
+    if (!isStorageReady || !syncSettings.serverUrl) return;
+    runSync();
+    const timer = setInterval(runSync, SYNC_INTERVAL_MS);
+    window.addEventListener('online', runSync);
+    return () => {
+      clearInterval(timer);
+      window.removeEventListener('online', runSync);
+    };
+  }, [isStorageReady, syncSettings]);
+
+  useEffect(() => {
+    // Push local edits once they settle
+    if (!isStorageReady || !syncSettings.serverUrl) return;
+    const timer = setTimeout(runSync, SYNC_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [savedPlaces]);
+
+  useEffect(() => {
+    saveRequestQueue(requestQueue);
+  }, [requestQueue]);
+
+  useEffect(() => {
+    // Re-plan the crawl from where we are whenever its stops change
+    if (crawlStops.length === 0) {
+      setCrawlRoute(null);
+      setIsPlanningRoute(false);
+      return;
+    }
+    const controller = new AbortController();
+    setIsPlanningRoute(true);
+    planFoodCrawl(currentLocation, crawlStops, crawlRouter, controller.signal)
+      .then(({ plan, fallbackReason }) => {
+        setCrawlRoute(current => ({ plan, fallbackReason, fitKey: (current?.fitKey ?? 0) + 1 }));
+      })
+      .catch(() => { /* Superseded by a newer plan */ })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsPlanningRoute(false);
+      });
+    return () => controller.abort();
+  }, [crawlStops, replanKey]);
+
+  useEffect(() => {
+    const goOnline = () => setIsOnline(true);
+    const goOffline = () => setIsOnline(false);
+    window.addEventListener('online', goOnline);
+    window.addEventListener('offline', goOffline);
+    return () => {
+      window.removeEventListener('online', goOnline);
+      window.removeEventListener('offline', goOffline);
+    };
+  }, []);
+
+  useEffect(() => {
+    // Retry queued requests once the places they refer to are loaded, and whenever we're back online
+    if (!isStorageReady) return;
+    processRequestQueue();
+    window.addEventListener('online', processRequestQueue);
+    return () => window.removeEventListener('online', processRequestQueue);
+  }, [isStorageReady]);
+
+  useEffect(() => {
+    // Opened through someone's share link: offer to add the list as an overlay
+    if (!isStorageReady) return;
+    const offerSharedList = () => {
+      let shared: SharedList | null = null;
+      try {
+        shared = parseShareHash(location.hash);
+        if (!shared) return;
+      } catch (error) {
+        console.error("Error reading shared list", error);
+        alert(error instanceof ListShareError ? error.message : t.app.sharedListUnreadable);
+      }
+      // Reloading shouldn't ask again
+      history.replaceState(null, '', location.pathname + location.search);
+      if (!shared) return;
+      setConfirmRequest({
+        title: t.app.importSharedTitle,
+        message: t.app.importSharedMessage(`${shared.icon} ${shared.name}`, shared.places.length),
+        actions: [{
+          label: t.app.importSharedAction,
+          variant: 'primary',
+          onClick: () => {
+            handleImportSharedList(shared);
+            setConfirmRequest(null);
+          },
+        }],
+      });
+    };
+    offerSharedList();
+    window.addEventListener('hashchange', offerSharedList);
+    return () => window.removeEventListener('hashchange', offerSharedList);
+  }, [isStorageReady]);
+
   useEffect(() => {
-    // Save to local storage whenever savedPlaces changes
-    localStorage.setItem('my_gourmet_map_places', JSON.stringify(savedPlaces));
+    // Keep the detail card in sync with edits, deletes and imports
+    setSelectedPlace(current => {
+      if (!current) return current;
+      const fresh = savedPlaces.find(p => p.id === current.id);
+      if (fresh) return fresh;
+      if ('myCheckIns' in current) {
+        // The place was removed; fall back to a plain, unsaved place
+        const { myCheckIns, ...place } = current;
+        return place;
+      }
+      return current;
+    });
   }, [savedPlaces]);
 
+  const applyPosition = (next: GeoPosition) => {
+    setPosition(next);
+    setCurrentLocation(next.location);
+    setLocationError(null);
+  };
+
+  const focusMap = (location: Coordinates) => setMapFocus(current => ({ location, nonce: current.nonce + 1 }));
+
+  // One-off fix that also moves the map there
+  const locate = () => {
+    setIsLocating(true);
+    geolocationSource.getCurrentPosition()
+      .then(next => {
+        applyPosition(next);
+        focusMap(next.location);
+      })
+      .catch(error => setLocationError(error.kind || 'unavailable'))
+      .finally(() => setIsLocating(false));
+  };
+
   useEffect(() => {
     // Get initial user location
-    if (navigator.geolocation) {
-      navigator.geolocation.getCurrentPosition(
-        (position) => {
-          setCurrentLocation({
-            latitude: position.coords.latitude,
-            longitude: position.coords.longitude
-          });
-        },
-        (error) => {
-          console.error("Error getting location", error);
+    locate();
+  }, []);
+
+  const isFollowingRef = useRef(isFollowing);
+  isFollowingRef.current = isFollowing;
+
+  useEffect(() => {
+    if (!isWatchingLocation) return;
+    return geolocationSource.watchPosition(
+      next => {
+        applyPosition(next);
+        if (isFollowingRef.current) focusMap(next.location);
+      },
+      error => {
+        setLocationError(error.kind);
+        // Watching again won't help until the user changes their mind
+        if (error.kind === 'denied' || error.kind === 'unsupported') setIsWatchingLocation(false);
+      }
+    );
+  }, [isWatchingLocation]);
+
+  useEffect(() => {
+    saveProximitySettings(proximitySettings);
+  }, [proximitySettings]);
+
+  // Remote providers answer in the app's language and keep their results for a while;
+  // our own places are always searched fresh
+  const remoteSearchProviders = useMemo(() => [
+    createCachedSearchProvider(createGeminiSearchProvider(locale)),
+    createCachedSearchProvider(createNominatimSearchProvider({
+      baseUrl: process.env.NOMINATIM_URL || 'https://nominatim.openstreetmap.org',
+      language: locale,
+    })),
+  ], [locale]);
+
+  // Providers are queried in priority order; earlier ones win when results are merged
+  const searchProviders = useMemo(() => [
+    ...remoteSearchProviders,
+    createSavedPlacesSearchProvider(() => savedPlaces, t.searchBox.savedPlacesProvider),
+  ], [remoteSearchProviders, savedPlaces, t]);
+  const searchProvidersRef = useRef(searchProviders);
+  searchProvidersRef.current = searchProviders;
+
+  // Runs the queued requests one at a time. Reads state through refs since it keeps going across renders.
+  const processRequestQueue = async () => {
+    if (isProcessingQueueRef.current || !navigator.onLine) return;
+    isProcessingQueueRef.current = true;
+    setIsProcessingQueue(true);
+    try {
+      for (const request of requestQueueRef.current.filter(isPending)) {
+        try {
+          const outcome = await runQueuedRequest(request, savedPlacesRef.current, searchProvidersRef.current);
+          if (outcome.kind === 'search' && request.kind === 'search') {
+            setRequestQueue(prev => prev.map(r => r.id === request.id ? { ...request, results: outcome.places } : r));
+            setSearchMessage({ text: t.app.queuedSearchDone(request.query), isError: false });
+            continue;
+          }
+          if (outcome.kind === 'analyze-photo' && request.kind === 'analyze-photo') {
+            setSavedPlaces(prev => applyPhotoDescription(prev, request, outcome.description));
+          }
+          setRequestQueue(prev => prev.filter(r => r.id !== request.id));
+        } catch (error) {
+          console.error("Queued request failed:", error);
+          const lastError = t.searchErrors[classifySearchError(error)];
+          setRequestQueue(prev => prev.map(r => r.id === request.id ? { ...r, attempts: r.attempts + 1, lastError } : r));
+          // Still offline, so the rest would fail too
+          if (isOfflineError(error)) break;
         }
-      );
+      }
+    } finally {
+      isProcessingQueueRef.current = false;
+      setIsProcessingQueue(false);
     }
-  }, []);
+  };
 
   // --- Handlers ---
 
-  const performSearch = async (query: string) => {
+  // Biased to the user's position unless another location is given, e.g. the map's center
+  const performSearch = async (query: string, category?: string, location = currentLocation) => {
     if (!query.trim()) return;
 
+    searchAbortRef.current?.abort();
+    const controller = new AbortController();
+    searchAbortRef.current = controller;
+
     setIsSearching(true);
-    // 1. Search using Gemini
-    const geminiResults = await searchPlacesWithGemini(query, currentLocation);
-    
-    if (geminiResults.length === 0) {
-         // Create a mock result for demo purposes if API key is invalid or returns no map chunks
-         const mockPlace: Place = {
-             id: 'mock-' + Date.now(),
-             name: query,
-             address: "附近 (模擬結果)",
-             location: {
-                 latitude: currentLocation.latitude + (Math.random() * 0.01 - 0.005),
-                 longitude: currentLocation.longitude + (Math.random() * 0.01 - 0.005)
-             },
-             googleMapsUri: "https://maps.google.com"
-         };
-         setSearchResults([mockPlace]);
-    } else {
-        setSearchResults(geminiResults);
+    setSearchMessage(null);
+    setLastSearch({ query, category, location });
+    let result: Awaited<ReturnType<typeof searchWithProviders>>;
+    try {
+      result = await searchWithProviders(searchProviders, query, location, controller.signal);
+    } catch {
+      // Replaced by a newer search, which owns the results and the spinner now
+      return;
+    }
+    searchAbortRef.current = null;
+    const { places, failures } = result;
+    // Results found through a category chip remember that category once saved
+    setSearchResults(category ? places.map(place => place.category ? place : { ...place, category }) : places);
+
+    // A failed Gemini search is worth explaining even when other providers found something
+    const geminiFailure = failures.find(f => f.providerId === GEMINI_SEARCH_PROVIDER_ID);
+    if (geminiFailure?.kind === 'network') {
+      setRequestQueue(prev => queueSearch(prev, { query, location, category }));
+      setSearchMessage({ text: t.app.searchQueued, isError: true });
+    } else if (geminiFailure) {
+      setSearchMessage({ text: t.searchErrors[geminiFailure.kind], isError: true });
+    } else if (places.length === 0) {
+      setSearchMessage(failures.length > 0
+        ? { text: t.searchErrors[failures[0].kind], isError: true }
+        : { text: t.app.noResults(query), isError: false });
     }
     
     setIsSearching(false);
     setViewState('list'); // Switch to list view on mobile to see results
   };
 
-  const handleSearchSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
-    performSearch(searchQuery);
+  // Typed (or picked from history) searches are remembered; category chips aren't
+  const handleSearch = (query: string) => {
+    setSearchHistory(prev => recordSearch(prev, query));
+    performSearch(query);
+  };
+
+  const handleSearchThisArea = () => {
+    if (lastSearch && mapView) performSearch(lastSearch.query, lastSearch.category, mapView.center);
   };
 
-  const handleCategoryClick = (categoryLabel: string) => {
-    const query = `附近的${categoryLabel}`;
+  const handleCategoryClick = (category: CuisineCategory) => {
+    const query = t.app.categoryQuery(categoryText(category.name, t).label);
     setSearchQuery(query);
-    performSearch(query);
+    performSearch(query, category.name);
+  };
+
+  const handleDiaryQuery = (question: string, query: DiaryQuery) => {
+    setDiaryQuestion(current => ({ question, query, fitKey: (current?.fitKey ?? 0) + 1 }));
+    setViewState('list');
+  };
+
+  const handleToggleCrawlStop = (place: Place | SavedPlace) => {
+    if (crawlStops.some(stop => stop.id === place.id)) {
+      setCrawlStops(prev => prev.filter(stop => stop.id !== place.id));
+      return;
+    }
+    if (crawlStops.length >= MAX_ROUTE_STOPS) {
+      alert(t.app.maxCrawlStops(MAX_ROUTE_STOPS));
+      return;
+    }
+    setCrawlStops(prev => [...prev, place]);
   };
 
   const handleSelectPlace = (place: Place | SavedPlace) => {
     // Check if it's already saved
     const existing = savedPlaces.find(p => p.id === place.id);
     setSelectedPlace(existing || place);
+    focusMap(place.location);
     setViewState('map'); // Switch to map to see it
   };
 
-  const handleAddCheckIn = (data: Omit<CheckIn, 'id' | 'timestamp'>) => {
+  const handleRecenter = () => {
+    setSelectedPlace(null);
+    setIsFollowing(true);
+    if (position) focusMap(position.location);
+    locate();
+  };
+
+  const handleToggleWatch = () => {
+    const next = !isWatchingLocation;
+    setIsWatchingLocation(next);
+    setIsFollowing(next);
+    if (next) setSelectedPlace(null);
+  };
+
+  const nearbyPlace = useMemo(
+    () => position && findNearbyPlace(savedPlaces, position.location, position.accuracy, proximitySettings, dismissedNearbyIds),
+    [position, savedPlaces, proximitySettings, dismissedNearbyIds]
+  );
+
+  const dismissNearbyPlace = (placeId: string) => setDismissedNearbyIds(prev => new Set(prev).add(placeId));
+
+  const handleNearbyCheckIn = (place: SavedPlace) => {
+    dismissNearbyPlace(place.id);
+    handleSelectPlace(place);
+    openCheckInModal(null);
+  };
+
+  const handleAddCheckIn = (data: Omit<CheckIn, 'id'>): string | undefined => {
     if (!selectedPlace) return;
 
     const newCheckIn: CheckIn = {
       ...data,
       id: crypto.randomUUID(),
-      timestamp: Date.now(),
     };
 
     setSavedPlaces(prev => {
@@ -153,10 +697,9 @@ const App: React.FC = () => {
         const updatedPlaces = [...prev];
         updatedPlaces[existingIndex] = {
           ...updatedPlaces[existingIndex],
-          myCheckIns: [...updatedPlaces[existingIndex].myCheckIns, newCheckIn]
+          // Backfilled check-ins go where they belong in time
+          myCheckIns: [...updatedPlaces[existingIndex].myCheckIns, newCheckIn].sort((a, b) => a.timestamp - b.timestamp)
         };
-        // Update selected place reference too so UI updates immediately
-        setSelectedPlace(updatedPlaces[existingIndex]);
         return updatedPlaces;
       } else {
         // Create new saved place
@@ -164,16 +707,257 @@ const App: React.FC = () => {
           ...selectedPlace,
           myCheckIns: [newCheckIn]
         };
-        setSelectedPlace(newSavedPlace);
         return [...prev, newSavedPlace];
       }
     });
+    return newCheckIn.id;
+  };
+
+  const handleUpdateCheckIn = (original: CheckIn, data: Omit<CheckIn, 'id'>) => {
+    // Spread keeps the id
+    const updated: CheckIn = { ...original, ...data };
+
+    setSavedPlaces(prev => prev.map(place => place.id !== original.placeId ? place : {
+      ...place,
+      myCheckIns: place.myCheckIns
+        .map(c => c.id === original.id ? updated : c)
+        .sort((a, b) => a.timestamp - b.timestamp)
+    }));
+  };
+
+  const handleSaveCheckIn = (data: Omit<CheckIn, 'id'>, describeLater?: string) => {
+    let checkInId: string | undefined;
+    if (editingCheckIn) {
+      handleUpdateCheckIn(editingCheckIn, data);
+      checkInId = editingCheckIn.id;
+    } else {
+      checkInId = handleAddCheckIn(data);
+    }
+    if (describeLater && checkInId) {
+      setRequestQueue(prev => queuePhotoAnalysis(prev, { placeId: data.placeId, checkInId, photoId: describeLater }));
+    }
+  };
+
+  const handleShowQueuedResults = (request: QueuedRequest) => {
+    if (request.kind !== 'search' || !request.results) return;
+    setSearchQuery(request.query);
+    setSearchResults(request.results);
+    setLastSearch({ query: request.query, category: request.category, location: request.location });
+    setSearchMessage(null);
+    setRequestQueue(prev => prev.filter(r => r.id !== request.id));
+    setIsOfflinePanelOpen(false);
+    setViewState('list');
+  };
+
+  const openCheckInModal = (checkIn: CheckIn | null) => {
+    setEditingCheckIn(checkIn);
+    setIsModalOpen(true);
+  };
+
+  const closeCheckInModal = () => {
+    setIsModalOpen(false);
+    setEditingCheckIn(null);
+    setCheckInDraft(null);
+  };
+
+  // The quick check-in picked a place from photo metadata; continue in the regular form
+  const handleQuickCheckInPick = (place: Place | SavedPlace, draft: Pick<CheckIn, 'photos' | 'timestamp'>) => {
+    setIsQuickCheckInOpen(false);
+    handleSelectPlace(place);
+    setEditingCheckIn(null);
+    setCheckInDraft(draft);
+    setIsModalOpen(true);
+  };
+
+  const handleUpdatePlaceDetails = (placeId: string, changes: Partial<Pick<SavedPlace, 'category' | 'tags' | 'summary'>>) => {
+    setSavedPlaces(prev => prev.map(place => place.id === placeId ? { ...place, ...changes } : place));
+  };
+
+  // --- Lists ---
+
+  const handleCreateList = (name: string, style?: Pick<PlaceList, 'icon' | 'color'>): PlaceList => {
+    const list = createPlaceList(name, placeLists, style);
+    setPlaceLists(prev => [...prev, list]);
+    savePlaceList(list).catch(reportStorageError);
+    return list;
+  };
+
+  const handleUpdateList = (list: PlaceList) => {
+    setPlaceLists(prev => prev.map(l => l.id === list.id ? list : l));
+    savePlaceList(list).catch(reportStorageError);
+  };
+
+  const handleDeleteList = (list: PlaceList) => {
+    setPlaceLists(prev => prev.filter(l => l.id !== list.id));
+    setSavedPlaces(prev => removeListFromPlaces(prev, list.id));
+    if (savedFilters.listId === list.id) setSavedFilters(prev => ({ ...prev, listId: '' }));
+    deletePlaceList(list.id).catch(reportStorageError);
+  };
+
+  const handleTogglePlaceInList = (place: Place | SavedPlace, listId: string) => {
+    setSavedPlaces(prev => togglePlaceInList(prev, place, listId));
+  };
+
+  const handleImportSharedList = (list: SharedList) => {
+    setSharedLists(prev => [...prev, list]);
+    saveSharedList(list).catch(reportStorageError);
+  };
+
+  const handleUpdateSharedList = (list: SharedList) => {
+    setSharedLists(prev => prev.map(l => l.id === list.id ? list : l));
+    saveSharedList(list).catch(reportStorageError);
+  };
+
+  const handleRemoveSharedList = (list: SharedList) => {
+    setSharedLists(prev => prev.filter(l => l.id !== list.id));
+    deleteSharedList(list.id).catch(reportStorageError);
+  };
+
+  const handleArchiveImport = (places: SavedPlace[], addedLists: PlaceList[]) => {
+    setSavedPlaces(places);
+    if (addedLists.length === 0) return;
+    setPlaceLists(prev => [...prev, ...addedLists]);
+    addedLists.forEach(list => savePlaceList(list).catch(reportStorageError));
+  };
+
+  const dismissUndo = useCallback(() => setUndoAction(null), []);
+  // A fresh id per toast, so a second identical message restarts the countdown
+  const showUndo = (message: string, undo: () => void) => setUndoAction({ id: crypto.randomUUID(), message, undo });
+
+  // Puts a removed place (or some of its check-ins) back where it was
+  const restorePlace = (snapshot: SavedPlace, index: number) => {
+    setSavedPlaces(prev => {
+      const existing = prev.find(p => p.id === snapshot.id);
+      if (!existing) {
+        const next = [...prev];
+        next.splice(Math.min(index, next.length), 0, snapshot);
+        return next;
+      }
+      const currentIds = new Set(existing.myCheckIns.map(c => c.id));
+      const missing = snapshot.myCheckIns.filter(c => !currentIds.has(c.id));
+      return prev.map(p => p === existing ? {
+        ...existing,
+        myCheckIns: [...existing.myCheckIns, ...missing].sort((a, b) => a.timestamp - b.timestamp)
+      } : p);
+    });
+    setUndoAction(null);
+  };
+
+  const removeCheckIn = (checkIn: CheckIn, removePlace: boolean) => {
+    const index = savedPlaces.findIndex(p => p.id === checkIn.placeId);
+    if (index < 0) return;
+    const snapshot = savedPlaces[index];
+
+    setSavedPlaces(prev => removePlace
+      ? prev.filter(p => p.id !== checkIn.placeId)
+      : prev.map(p => p.id !== checkIn.placeId ? p : {
+          ...p,
+          myCheckIns: p.myCheckIns.filter(c => c.id !== checkIn.id)
+        }));
+    setConfirmRequest(null);
+    showUndo(removePlace ? t.app.placeRemoved(snapshot.name) : t.app.checkInDeleted, () => restorePlace(snapshot, index));
+  };
+
+  const handleDeleteCheckIn = (checkIn: CheckIn) => {
+    const place = savedPlaces.find(p => p.id === checkIn.placeId);
+    if (!place) return;
+
+    if (place.myCheckIns.length > 1) {
+      setConfirmRequest({
+        title: t.app.deleteCheckInTitle,
+        message: t.app.deleteCheckInMessage,
+        actions: [{ label: t.common.delete, variant: 'danger', onClick: () => removeCheckIn(checkIn, false) }],
+      });
+      return;
+    }
+
+    setConfirmRequest({
+      title: t.app.deleteLastCheckInTitle,
+      message: t.app.deleteLastCheckInMessage(place.name),
+      actions: [
+        { label: t.app.removePlace, variant: 'danger', onClick: () => removeCheckIn(checkIn, true) },
+        { label: t.app.keepPlace, variant: 'primary', onClick: () => removeCheckIn(checkIn, false) },
+      ],
+    });
+  };
+
+  const handleUnsavePlace = (place: SavedPlace) => {
+    const removePlace = () => {
+      const index = savedPlaces.findIndex(p => p.id === place.id);
+      setSavedPlaces(prev => prev.filter(p => p.id !== place.id));
+      setConfirmRequest(null);
+      showUndo(t.app.placeRemoved(place.name), () => restorePlace(place, index));
+    };
+
+    setConfirmRequest({
+      title: t.app.unsaveTitle,
+      message: place.myCheckIns.length > 0
+        ? t.app.unsaveWithCheckIns(place.name, place.myCheckIns.length)
+        : t.app.unsave(place.name),
+      actions: [{ label: t.common.remove, variant: 'danger', onClick: removePlace }],
+    });
   };
 
   // --- Render ---
 
+  // The same filters drive the sidebar list and the red markers on the map
+  const filteredSavedPlaces = useMemo(
+    () => applySavedPlaceFilters(savedPlaces, savedFilters, currentLocation),
+    [savedPlaces, savedFilters, currentLocation]
+  );
+
+  // A search result that is already saved is drawn once, as the saved marker
+  const savedPlaceIds = useMemo(() => new Set(savedPlaces.map(p => p.id)), [savedPlaces]);
+  const unsavedSearchResults = searchResults.filter(place => !savedPlaceIds.has(place.id));
+  const savedSearchResultIds = useMemo(
+    () => new Set(searchResults.filter(place => savedPlaceIds.has(place.id)).map(place => place.id)),
+    [searchResults, savedPlaceIds]
+  );
+
+  const allTags = useMemo(() => collectTags(savedPlaces), [savedPlaces]);
+
+  const tasteProfile = useMemo(() => buildTasteProfile(savedPlaces, currentLocation), [savedPlaces, currentLocation]);
+  // Recommendation order needs check-ins to learn from; otherwise keep the providers' order.
+  // The reasons shown under each result are written in the current language.
+  const canRecommend = tasteProfile.checkInCount > 0;
+  const rankedSearchResults = useMemo(() => {
+    const ranked = rankSearchResults(searchResults, tasteProfile, savedPlaces, lastSearch?.location ?? currentLocation);
+    return isRecommendMode && canRecommend ? [...ranked].sort((a, b) => b.score - a.score) : ranked;
+  }, [searchResults, tasteProfile, savedPlaces, lastSearch, currentLocation, isRecommendMode, canRecommend, locale]);
+
+  // Results the map doesn't currently show, e.g. after panning away from where they were searched
+  const offscreenResultIds = useMemo(
+    () => new Set(mapView ? searchResults.filter(place => !isWithinBounds(place.location, mapView.bounds)).map(place => place.id) : []),
+    [searchResults, mapView]
+  );
+
+  // Once the map has moved a good part of a screen away from the last search, offer to repeat it there
+  const canSearchThisArea = useMemo(() => {
+    if (!lastSearch || !mapView) return false;
+    const { bounds, center } = mapView;
+    const visibleHeight = distanceInMeters(
+      { latitude: bounds.north, longitude: center.longitude },
+      { latitude: bounds.south, longitude: center.longitude }
+    );
+    return distanceInMeters(lastSearch.location, center) > visibleHeight / 4;
+  }, [lastSearch, mapView]);
+
+  const diaryMatches = useMemo(
+    () => (diaryQuestion ? runDiaryQuery(savedPlaces, diaryQuestion.query, currentLocation) : []),
+    [diaryQuestion, savedPlaces, currentLocation]
+  );
+  const diaryMatchIds = useMemo(() => new Set(diaryMatches.map(m => m.place.id)), [diaryMatches]);
+  // Answers stay on the map even when the list filters or a hidden list would hide them
+  const mapSavedPlaces = useMemo(() => {
+    const shown = filteredSavedPlaces.filter(place => isShownOnMap(place, placeLists));
+    const shownIds = new Set(shown.map(p => p.id));
+    const hidden = diaryMatches.map(m => m.place).filter(p => !shownIds.has(p.id));
+    return hidden.length ? [...shown, ...hidden] : shown;
+  }, [filteredSavedPlaces, placeLists, diaryMatches]);
+
   // Determine active check-ins for selected place
-  const selectedPlaceCheckIns = (selectedPlace as SavedPlace)?.myCheckIns || [];
+  const selectedSavedPlace = savedPlaces.find(p => p.id === selectedPlace?.id) || null;
+  const selectedPlaceCheckIns = selectedSavedPlace?.myCheckIns || [];
 
   return (
     <div className="flex h-screen w-full bg-gray-100 overflow-hidden font-sans text-gray-800">
@@ -186,42 +970,119 @@ const App: React.FC = () => {
       `}>
         {/* Header */}
         <div className="p-4 bg-indigo-600 text-white shadow-md">
-          <h1 className="text-xl font-bold flex items-center gap-2">
-            <MapPin className="fill-white" /> 美食地圖
-          </h1>
-          <p className="text-xs text-indigo-200 mt-1 opacity-80">Powered by Gemini AI</p>
+          <div className="flex justify-between items-center">
+            <h1 className="text-xl font-bold flex items-center gap-2">
+              <MapPin className="fill-white" /> {t.app.title}
+            </h1>
+            <div className="flex items-center gap-1">
+              <button
+                onClick={() => setIsOfflinePanelOpen(true)}
+                className={`relative p-1.5 rounded-full hover:bg-indigo-500 transition ${isOnline ? '' : 'text-amber-300'}`}
+                title={isOnline ? t.app.offlineUse : t.app.offlineNow}
+              >
+                {isOnline ? <Cloud size={18} /> : <CloudOff size={18} />}
+                {requestQueue.length > 0 && (
+                  <span className="absolute -top-0.5 -right-0.5 min-w-[16px] h-4 px-1 rounded-full bg-amber-400 text-[10px] leading-4 font-bold text-indigo-900">
+                    {requestQueue.length}
+                  </span>
+                )}
+              </button>
+              <button
+                onClick={() => setIsQuickCheckInOpen(true)}
+                className="p-1.5 rounded-full hover:bg-indigo-500 transition"
+                title={t.app.quickCheckIn}
+              >
+                <ImagePlus size={18} />
+              </button>
+              <button
+                onClick={() => setIsDiaryOpen(true)}
+                className="p-1.5 rounded-full hover:bg-indigo-500 transition"
+                title={t.app.diary}
+              >
+                <CalendarDays size={18} />
+              </button>
+              <button
+                onClick={() => setIsStatsOpen(true)}
+                className="p-1.5 rounded-full hover:bg-indigo-500 transition"
+                title={t.app.stats}
+              >
+                <BarChart3 size={18} />
+              </button>
+              <button
+                onClick={() => setIsListsOpen(true)}
+                className="p-1.5 rounded-full hover:bg-indigo-500 transition"
+                title={t.app.lists}
+              >
+                <ListChecks size={18} />
+              </button>
+              <button
+                onClick={() => setIsTagManagerOpen(true)}
+                className="p-1.5 rounded-full hover:bg-indigo-500 transition"
+                title={t.app.manageTags}
+              >
+                <Tags size={18} />
+              </button>
+              <DataTransferMenu savedPlaces={savedPlaces} placeLists={placeLists} onImport={handleArchiveImport} />
+              <LanguageSwitcher />
+            </div>
+          </div>
+          <p className="text-xs text-indigo-200 mt-1 opacity-80">
+            Powered by Gemini AI
+            {!isOnline && <span className="text-amber-200"> · {t.app.offlineBadge}</span>}
+            <button onClick={() => setIsSyncOpen(true)} className="hover:underline" title={t.app.sync}>
+              {' · '}
+              {!syncSettings.serverUrl ? t.app.syncSetup
+                : syncStatus.phase === 'syncing' ? <><RefreshCw size={10} className="inline animate-spin" /> {t.app.syncing}</>
+                : syncStatus.phase === 'error' ? <span className="text-amber-200">{t.app.syncFailed}</span>
+                : syncStatus.lastSyncedAt ? t.app.syncedAt(formatSyncTime(syncStatus.lastSyncedAt))
+                : t.app.notSynced}
+            </button>
+            {storageEstimate && storageEstimate.quota > 0 && (
+              <span> · {t.app.storageUsed(formatBytes(storageEstimate.usage), formatBytes(storageEstimate.quota))}</span>
+            )}
+          </p>
         </div>
 
+        {/* Storage Error */}
+        {storageError && (
+          <div className="px-4 py-2 bg-red-50 border-b border-red-100 text-red-700 text-sm flex items-start gap-2">
+            <AlertTriangle size={16} className="flex-shrink-0 mt-0.5" />
+            <span className="flex-1">{storageError}</span>
+            <button onClick={() => setStorageError(null)} className="text-red-400 hover:text-red-600">
+              <X size={16} />
+            </button>
+          </div>
+        )}
+
         {/* Search */}
         <div className="p-4 border-b space-y-3">
-          <form onSubmit={handleSearchSubmit} className="relative">
-            <input
-              type="text"
-              placeholder="搜尋餐廳、地點..."
-              className="w-full pl-10 pr-4 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-indigo-500 focus:outline-none transition"
-              value={searchQuery}
-              onChange={(e) => setSearchQuery(e.target.value)}
-            />
-            <Search className="absolute left-3 top-2.5 text-gray-400" size={18} />
-            {isSearching && (
-              <div className="absolute right-3 top-2.5">
-                <Loader2 size={18} className="animate-spin text-indigo-600" />
-              </div>
-            )}
-          </form>
+          <SearchBox
+            value={searchQuery}
+            isSearching={isSearching}
+            history={searchHistory}
+            places={savedPlaces}
+            onChange={setSearchQuery}
+            onSearch={handleSearch}
+            onSelectPlace={handleSelectPlace}
+            onTogglePin={(query) => setSearchHistory(prev => togglePinnedSearch(prev, query))}
+            onRemove={(query) => setSearchHistory(prev => removeSearch(prev, query))}
+            onClearHistory={() => setSearchHistory(prev => clearSearchHistory(prev))}
+          />
+
+          <AskMapBox onQuery={handleDiaryQuery} />
 
           {/* Categories */}
           <div>
-             <p className="text-xs text-gray-500 mb-2 font-medium">探索附近美食</p>
+             <p className="text-xs text-gray-500 mb-2 font-medium">{t.app.exploreNearby}</p>
              <div className="flex gap-2 overflow-x-auto pb-2 -mx-1 px-1 no-scrollbar items-center">
                 {CUISINE_CATEGORIES.map((cat) => (
                   <button
                     key={cat.name}
-                    onClick={() => handleCategoryClick(cat.label)}
+                    onClick={() => handleCategoryClick(cat)}
                     className="flex-shrink-0 flex items-center gap-1 px-3 py-1.5 bg-gray-50 hover:bg-indigo-50 border border-gray-200 hover:border-indigo-200 rounded-full text-sm text-gray-700 transition whitespace-nowrap"
                   >
                     <span>{cat.icon}</span>
-                    <span>{cat.name}</span>
+                    <span>{categoryText(cat.name, t).name}</span>
                   </button>
                 ))}
              </div>
@@ -230,49 +1091,182 @@ const App: React.FC = () => {
 
         {/* Lists */}
         <div className="flex-1 overflow-y-auto">
+          {searchMessage && (
+            <div className={`px-4 py-3 text-sm border-b flex items-start gap-2 ${searchMessage.isError ? 'text-red-700 bg-red-50' : 'text-gray-500 bg-gray-50'}`}>
+              {searchMessage.isError && <AlertTriangle size={16} className="flex-shrink-0 mt-0.5" />}
+              <span>{searchMessage.text}</span>
+            </div>
+          )}
+
+          {crawlStops.length > 0 && (
+            <FoodCrawlPanel
+              stops={crawlStops}
+              plan={crawlRoute?.plan ?? null}
+              fallbackReason={crawlRoute?.fallbackReason}
+              isPlanning={isPlanningRoute}
+              onSelect={handleSelectPlace}
+              onRemove={handleToggleCrawlStop}
+              onReplan={() => setReplanKey(k => k + 1)}
+              onClear={() => setCrawlStops([])}
+            />
+          )}
+
+          {diaryQuestion && (
+            <div className="mb-6">
+              <div className="px-4 py-2 bg-purple-50 sticky top-0 z-10 flex justify-between items-start gap-2">
+                <div className="min-w-0">
+                  <h3 className="text-xs font-semibold text-purple-700 truncate">{t.common.quoted(diaryQuestion.question)}</h3>
+                  <div className="flex flex-wrap gap-1 mt-1">
+                    {describeDiaryQuery(diaryQuestion.query).map(part => (
+                      <span key={part} className="text-[10px] bg-white text-purple-600 px-1.5 py-0.5 rounded-full border border-purple-200">{part}</span>
+                    ))}
+                  </div>
+                </div>
+                <button onClick={() => setDiaryQuestion(null)} className="text-purple-400 hover:text-purple-700 flex-shrink-0" title={t.common.clear}>
+                  <X size={16} />
+                </button>
+              </div>
+              {diaryMatches.length === 0 ? (
+                <div className="px-4 py-3 text-sm text-gray-400 border-b">{t.app.noDiaryMatches}</div>
+              ) : (
+                diaryMatches.map(({ place, distance }) => (
+                  <div
+                    key={place.id}
+                    onClick={() => handleSelectPlace(place)}
+                    className="px-4 py-3 border-b hover:bg-purple-50/50 cursor-pointer transition"
+                  >
+                    <div className="flex justify-between items-start">
+                      <div className="font-medium text-gray-900">
+                        {place.category && (
+                          <span className="mr-1">{CUISINE_CATEGORIES.find(cat => cat.name === place.category)?.icon}</span>
+                        )}
+                        {place.name}
+                      </div>
+                      <span className="text-xs text-gray-400">{formatDistance(distance)}</span>
+                    </div>
+                    <div className="mt-1 flex items-center gap-2 text-xs text-gray-500">
+                      <StarRating rating={Math.round(averageRating(place) ?? 0)} size={12} />
+                      <span>{t.common.visits(place.myCheckIns.length)}</span>
+                    </div>
+                  </div>
+                ))
+              )}
+            </div>
+          )}
+
           {searchResults.length > 0 && (
             <div className="mb-6">
-              <h3 className="px-4 py-2 bg-gray-50 text-xs font-semibold text-gray-500 uppercase sticky top-0 z-10">搜尋結果</h3>
-              {searchResults.map(place => (
+              <div className="px-4 py-2 bg-gray-50 sticky top-0 z-10 flex justify-between items-center">
+                <h3 className="text-xs font-semibold text-gray-500 uppercase">{t.app.searchResults}</h3>
+                {canRecommend && (
+                  <label className="flex items-center gap-1 text-xs text-gray-500 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={isRecommendMode}
+                      onChange={(e) => setIsRecommendMode(e.target.checked)}
+                      className="accent-indigo-600"
+                    />
+                    {t.app.sortByTaste}
+                  </label>
+                )}
+              </div>
+              {isRecommendMode && canRecommend && describeTasteProfile(tasteProfile).length > 0 && (
+                <div className="px-4 py-1.5 text-[11px] text-indigo-600 bg-indigo-50/60 border-b">
+                  {describeTasteProfile(tasteProfile).join(' · ')}
+                </div>
+              )}
+              {rankedSearchResults.map(({ place, reasons, warnings, visit }) => (
                 <div 
                   key={place.id}
                   onClick={() => handleSelectPlace(place)}
-                  className="px-4 py-3 border-b hover:bg-gray-50 cursor-pointer transition flex justify-between items-center group"
+                  className={`px-4 py-3 border-b hover:bg-gray-50 cursor-pointer transition flex justify-between items-center group ${offscreenResultIds.has(place.id) ? 'opacity-60' : ''}`}
                 >
-                  <div>
-                    <div className="font-medium text-gray-800 group-hover:text-indigo-600">{place.name}</div>
-                    <div className="text-xs text-gray-500 truncate w-64">{place.address || '無地址資訊'}</div>
+                  <div className="min-w-0">
+                    <div className="font-medium text-gray-800 group-hover:text-indigo-600 flex items-center gap-2">
+                      <span className="truncate">{place.name}</span>
+                      {place.rating && (
+                        <span className="flex-shrink-0 text-xs font-normal text-gray-400">
+                          ★{place.rating.toFixed(1)}{place.reviews ? ` (${place.reviews})` : ''}
+                        </span>
+                      )}
+                      {offscreenResultIds.has(place.id) && (
+                        <span className="flex-shrink-0 text-[10px] font-normal text-gray-500 bg-gray-100 px-1.5 py-0.5 rounded-full">{t.app.outsideMap}</span>
+                      )}
+                    </div>
+                    <div className="text-xs text-gray-500 truncate w-64">{place.address || t.common.noAddress}</div>
+                    {visit && (
+                      <div className="mt-1 flex items-center gap-1 text-[11px] text-indigo-700">
+                        <span className="bg-indigo-100 px-1.5 py-0.5 rounded-full font-bold">{t.app.visitedTimes(visit.visits)}</span>
+                        <span>{t.app.lastTime}</span>
+                        <StarRating rating={visit.lastRating} size={10} />
+                      </div>
+                    )}
+                    {isRecommendMode && canRecommend && (reasons.length > 0 || warnings.length > 0) && (
+                      <div className="mt-1 text-[11px] space-y-0.5">
+                        {reasons.slice(0, 2).map(reason => <div key={reason} className="text-emerald-700">👍 {reason}</div>)}
+                        {warnings.map(warning => <div key={warning} className="text-amber-700">⚠️ {warning}</div>)}
+                      </div>
+                    )}
                   </div>
-                  <Navigation size={16} className="text-gray-300 group-hover:text-indigo-500" />
+                  <Navigation size={16} className="text-gray-300 group-hover:text-indigo-500 flex-shrink-0" />
                 </div>
               ))}
             </div>
           )}
 
           <div>
-            <h3 className="px-4 py-2 bg-gray-50 text-xs font-semibold text-gray-500 uppercase sticky top-0 z-10">我的收藏</h3>
+            <h3 className="px-4 py-2 bg-gray-50 text-xs font-semibold text-gray-500 uppercase sticky top-0 z-10">{t.common.myPlaces}</h3>
+            {savedPlaces.length > 0 && (
+              <SavedPlacesToolbar
+                filters={savedFilters}
+                onChange={setSavedFilters}
+                lists={placeLists}
+                shownCount={filteredSavedPlaces.length}
+                totalCount={savedPlaces.length}
+              />
+            )}
             {savedPlaces.length === 0 ? (
               <div className="p-8 text-center text-gray-400 flex flex-col items-center">
                 <UtensilsCrossed size={48} className="mb-3 opacity-20" />
-                <p>尚未收藏地點。</p>
-                <p className="text-sm mt-1">搜尋並打卡以建立您的地圖！</p>
+                <p>{t.app.noSavedPlaces}</p>
+                <p className="text-sm mt-1">{t.app.noSavedPlacesHint}</p>
               </div>
+            ) : filteredSavedPlaces.length === 0 ? (
+              <div className="p-6 text-center text-sm text-gray-400">{t.app.noFilterMatches}</div>
             ) : (
-              savedPlaces.map(place => (
+              filteredSavedPlaces.map(place => (
                 <div 
                   key={place.id}
                   onClick={() => handleSelectPlace(place)}
                   className={`px-4 py-3 border-b hover:bg-gray-50 cursor-pointer transition ${selectedPlace?.id === place.id ? 'bg-indigo-50 border-l-4 border-l-indigo-500' : ''}`}
                 >
                   <div className="flex justify-between items-start">
-                    <div className="font-medium text-gray-900">{place.name}</div>
+                    <div className="font-medium text-gray-900">
+                      {place.category && (
+                        <span className="mr-1">{CUISINE_CATEGORIES.find(cat => cat.name === place.category)?.icon}</span>
+                      )}
+                      {place.name}
+                    </div>
                     <div className="bg-indigo-100 text-indigo-700 text-[10px] px-2 py-0.5 rounded-full font-bold">
-                       {place.myCheckIns.length} 次造訪
+                       {place.myCheckIns.length > 0 ? t.common.visits(place.myCheckIns.length) : t.common.saved}
                     </div>
                   </div>
                   {/* Show latest rating */}
-                  <div className="mt-1">
-                     <StarRating rating={place.myCheckIns[place.myCheckIns.length - 1]?.rating || 0} size={12} />
+                  <div className="mt-1 flex justify-between items-center">
+                     <span className="flex items-center gap-1">
+                       <StarRating rating={latestCheckIn(place)?.rating || 0} size={12} />
+                       {listsOfPlace(place, placeLists).map(list => (
+                         <span key={list.id} className="text-xs" title={list.name}>{list.icon}</span>
+                       ))}
+                     </span>
+                     {place.tags && place.tags.length > 0 && (
+                       <span className="flex-1 mx-2 text-xs text-indigo-500 truncate">
+                         {place.tags.map(tag => `#${tag}`).join(' ')}
+                       </span>
+                     )}
+                     {savedFilters.sortBy === 'distance' && (
+                       <span className="text-xs text-gray-400">{formatDistance(distanceInMeters(currentLocation, place.location))}</span>
+                     )}
                   </div>
                 </div>
               ))
@@ -286,7 +1280,7 @@ const App: React.FC = () => {
             onClick={() => setViewState('map')}
             className="w-full py-2 bg-gray-800 text-white rounded-lg"
           >
-            切換至地圖
+            {t.app.showMap}
           </button>
         </div>
       </div>
@@ -304,17 +1298,33 @@ const App: React.FC = () => {
         >
           <TileLayer
             attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
-            url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+            url={TILE_URL_TEMPLATE}
+            // CORS requests, so the service worker can cache tiles without opaque-response overhead
+            crossOrigin=""
           />
-          <MapUpdater center={selectedPlace ? selectedPlace.location : currentLocation} />
+          <MapViewTracker onChange={setMapView} />
+          <MapUpdater center={mapFocus.location} nonce={mapFocus.nonce} />
+          <DragListener onDragStart={() => setIsFollowing(false)} />
+          {diaryQuestion && (
+            <BoundsFitter points={diaryMatches.map(m => m.place.location)} fitKey={diaryQuestion.fitKey} />
+          )}
 
-          {/* User Location Marker */}
-          <Marker position={[currentLocation.latitude, currentLocation.longitude]}>
-            <Popup>您的位置</Popup>
-          </Marker>
+          {/* User Location Marker, with how far off the fix may be */}
+          {position && (
+            <>
+              <Circle
+                center={[position.location.latitude, position.location.longitude]}
+                radius={position.accuracy}
+                pathOptions={{ color: '#4f46e5', weight: 1, fillOpacity: 0.1 }}
+              />
+              <Marker position={[position.location.latitude, position.location.longitude]}>
+                <Popup>{t.app.yourPosition(formatDistance(position.accuracy))}</Popup>
+              </Marker>
+            </>
+          )}
 
           {/* Search Results Markers */}
-          {searchResults.map(place => (
+          {unsavedSearchResults.map(place => (
             <Marker 
               key={place.id} 
               position={[place.location.latitude, place.location.longitude]}
@@ -324,29 +1334,78 @@ const App: React.FC = () => {
             />
           ))}
 
-          {/* Saved Places Markers (Custom Icon) */}
-          {savedPlaces.map(place => (
-            <Marker 
-              key={`saved-${place.id}`} 
-              position={[place.location.latitude, place.location.longitude]}
-              icon={redIcon}
-              eventHandlers={{
-                click: () => handleSelectPlace(place)
-              }}
-            />
-          ))}
+          {/* Saved Places Markers (Custom Icon, clustered) */}
+          {crawlRoute && (
+            <>
+              <FoodCrawlLayer plan={crawlRoute.plan} onSelect={handleSelectPlace} />
+              <BoundsFitter points={crawlRoute.plan.geometry} fitKey={crawlRoute.fitKey} />
+            </>
+          )}
+
+          <SharedListLayer lists={sharedLists} savedPlaceIds={savedPlaceIds} onSelect={handleSelectPlace} />
+
+          <SavedPlacesLayer
+            places={mapSavedPlaces}
+            lists={placeLists}
+            pinnedIds={savedSearchResultIds}
+            highlightedIds={diaryMatchIds}
+            onSelect={handleSelectPlace}
+          />
         </MapContainer>
 
+        {canSearchThisArea && !isSearching && (
+          <button
+            onClick={handleSearchThisArea}
+            className={`absolute top-4 left-1/2 -translate-x-1/2 z-[400] items-center gap-1.5 px-4 py-2 bg-white text-indigo-700 text-sm font-medium rounded-full shadow-lg border border-indigo-100 hover:bg-indigo-50 transition ${selectedPlace ? 'hidden md:flex' : 'flex'}`}
+          >
+            <Search size={14} />
+            {t.app.searchThisArea}
+          </button>
+        )}
+
+        <LocationControls
+          isWatching={isWatchingLocation}
+          isLocating={isLocating}
+          proximity={proximitySettings}
+          onRecenter={handleRecenter}
+          onToggleWatch={handleToggleWatch}
+          onProximityChange={setProximitySettings}
+        />
+
+        {locationError && (
+          <div className="absolute bottom-4 left-4 z-[400] max-w-xs bg-white rounded-lg shadow-lg border border-amber-200 p-3 text-sm flex items-start gap-2">
+            <AlertTriangle size={16} className="text-amber-500 flex-shrink-0 mt-0.5" />
+            <div className="flex-1">
+              <p className="text-gray-700">{t.geolocationErrors[locationError]}</p>
+              {!position && <p className="text-xs text-gray-500 mt-0.5">{t.app.defaultCenter}</p>}
+              {locationError !== 'unsupported' && (
+                <button onClick={locate} className="text-xs text-indigo-600 hover:underline mt-1">{t.common.retry}</button>
+              )}
+            </div>
+            <button onClick={() => setLocationError(null)} className="text-gray-300 hover:text-gray-500">
+              <X size={14} />
+            </button>
+          </div>
+        )}
+
+        {nearbyPlace && !selectedPlace && !isModalOpen && (
+          <NearbyPlacePrompt
+            nearby={nearbyPlace}
+            onCheckIn={() => handleNearbyCheckIn(nearbyPlace.place)}
+            onDismiss={() => dismissNearbyPlace(nearbyPlace.place.id)}
+          />
+        )}
+
         {/* Floating Detail Card (Overlay) */}
         {selectedPlace && (
            <div className="absolute top-4 right-4 z-[400] w-[90%] md:w-96 max-h-[85vh] bg-white rounded-xl shadow-2xl flex flex-col overflow-hidden animate-in slide-in-from-right duration-300">
               <div className="p-4 border-b bg-gradient-to-r from-gray-50 to-white flex justify-between items-start">
                  <div>
                    <h2 className="text-xl font-bold text-gray-900">{selectedPlace.name}</h2>
-                   <p className="text-sm text-gray-500 mt-1">{selectedPlace.address || '無地址資訊'}</p>
+                   <p className="text-sm text-gray-500 mt-1">{selectedPlace.address || t.common.noAddress}</p>
                    {selectedPlace.googleMapsUri && (
                      <a href={selectedPlace.googleMapsUri} target="_blank" rel="noreferrer" className="text-xs text-blue-500 hover:underline mt-1 inline-block">
-                       在 Google 地圖中開啟
+                       {t.app.openInGoogleMaps}
                      </a>
                    )}
                  </div>
@@ -360,14 +1419,59 @@ const App: React.FC = () => {
               </div>
 
               <div className="flex-1 overflow-y-auto p-4">
+                 {selectedSavedPlace && (
+                   <PlaceSummaryCard
+                     place={selectedSavedPlace}
+                     onSummary={(summary) => handleUpdatePlaceDetails(selectedSavedPlace.id, { summary })}
+                   />
+                 )}
+
+                 {selectedSavedPlace && (
+                   <PlaceTagsEditor
+                     place={selectedSavedPlace}
+                     knownTags={allTags.map(t => t.tag)}
+                     onChange={(changes) => handleUpdatePlaceDetails(selectedSavedPlace.id, changes)}
+                   />
+                 )}
+
+                 <PlaceListPicker
+                   lists={placeLists}
+                   selectedIds={selectedSavedPlace?.listIds || []}
+                   onToggle={(listId) => handleTogglePlaceInList(selectedPlace, listId)}
+                   onCreate={(name) => handleTogglePlaceInList(selectedPlace, handleCreateList(name).id)}
+                 />
+
+                 <button
+                   onClick={() => handleToggleCrawlStop(selectedPlace)}
+                   className={`w-full py-2 mb-2 rounded-lg text-sm font-medium border transition flex items-center justify-center gap-1 ${crawlStops.some(stop => stop.id === selectedPlace.id) ? 'border-indigo-300 bg-indigo-50 text-indigo-700 hover:bg-indigo-100' : 'border-gray-200 text-gray-600 hover:bg-gray-50'}`}
+                 >
+                   <Footprints size={16} />
+                   {crawlStops.some(stop => stop.id === selectedPlace.id) ? t.app.removeFromCrawl : t.app.addToCrawl}
+                 </button>
+
                  <button 
-                   onClick={() => setIsModalOpen(true)}
+                   onClick={() => openCheckInModal(null)}
                    className="w-full py-3 bg-indigo-600 text-white rounded-lg font-semibold shadow-md hover:bg-indigo-700 transition flex items-center justify-center gap-2 mb-4"
                  >
-                   <Plus size={20} /> 立即打卡
+                   <Plus size={20} /> {t.app.checkInNow}
                  </button>
 
-                 <Timeline checkIns={selectedPlaceCheckIns} />
+                 <LikedDishes checkIns={selectedPlaceCheckIns} />
+
+                 <Timeline
+                   checkIns={selectedPlaceCheckIns}
+                   onEdit={(checkIn) => openCheckInModal(checkIn)}
+                   onDelete={handleDeleteCheckIn}
+                 />
+
+                 {selectedSavedPlace && (
+                   <button
+                     onClick={() => handleUnsavePlace(selectedSavedPlace)}
+                     className="w-full mt-6 py-2 text-sm text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition flex items-center justify-center gap-1"
+                   >
+                     <BookmarkX size={16} /> {t.app.unsaveTitle}
+                   </button>
+                 )}
               </div>
            </div>
         )}
@@ -378,7 +1482,7 @@ const App: React.FC = () => {
              onClick={() => setViewState('list')}
              className="px-6 py-2 bg-white text-gray-800 font-bold rounded-full shadow-lg border border-gray-200"
            >
-             顯示列表
+             {t.app.showList}
            </button>
         </div>
       </div>
@@ -388,10 +1492,107 @@ const App: React.FC = () => {
         <CheckInModal 
           isOpen={isModalOpen}
           place={selectedPlace}
-          onClose={() => setIsModalOpen(false)}
-          onSave={handleAddCheckIn}
+          onClose={closeCheckInModal}
+          onSave={handleSaveCheckIn}
+          initialCheckIn={editingCheckIn || undefined}
+          draft={checkInDraft || undefined}
+        />
+      )}
+
+      {isQuickCheckInOpen && (
+        <QuickCheckInModal
+          savedPlaces={savedPlaces}
+          providers={searchProviders}
+          fallbackLocation={currentLocation}
+          onPick={handleQuickCheckInPick}
+          onClose={() => setIsQuickCheckInOpen(false)}
+        />
+      )}
+
+      {isListsOpen && (
+        <PlaceListsManager
+          lists={placeLists}
+          sharedLists={sharedLists}
+          places={savedPlaces}
+          onCreate={handleCreateList}
+          onUpdate={handleUpdateList}
+          onDelete={handleDeleteList}
+          onUpdateShared={handleUpdateSharedList}
+          onRemoveShared={handleRemoveSharedList}
+          onImportShared={handleImportSharedList}
+          onClose={() => setIsListsOpen(false)}
+        />
+      )}
+
+      {isOfflinePanelOpen && (
+        <OfflinePanel
+          queue={requestQueue}
+          places={savedPlaces}
+          isOnline={isOnline}
+          isProcessing={isProcessingQueue}
+          mapView={mapView}
+          onRetry={processRequestQueue}
+          onRemove={(request) => setRequestQueue(prev => prev.filter(r => r.id !== request.id))}
+          onShowResults={handleShowQueuedResults}
+          onClose={() => setIsOfflinePanelOpen(false)}
         />
       )}
+
+      {isSyncOpen && (
+        <SyncPanel
+          settings={syncSettings}
+          status={syncStatus}
+          pendingCount={collectPendingRecords(savedPlaces, syncStateRef.current).length}
+          deviceId={syncStateRef.current.deviceId}
+          onSave={handleSaveSyncSettings}
+          onSyncNow={runSync}
+          onClose={() => setIsSyncOpen(false)}
+        />
+      )}
+
+      {isTagManagerOpen && (
+        <TagManager
+          tags={allTags}
+          onRename={(from, to) => setSavedPlaces(prev => renameTag(prev, from, to))}
+          onRemove={(tag) => setSavedPlaces(prev => removeTag(prev, tag))}
+          onClose={() => setIsTagManagerOpen(false)}
+        />
+      )}
+
+      {isStatsOpen && (
+        <StatsDashboard
+          places={savedPlaces}
+          onSelectPlace={(place) => {
+            setIsStatsOpen(false);
+            handleSelectPlace(place);
+          }}
+          onClose={() => setIsStatsOpen(false)}
+        />
+      )}
+
+      {isDiaryOpen && (
+        <DiaryView
+          places={savedPlaces}
+          onSelectPlace={(place) => {
+            setIsDiaryOpen(false);
+            handleSelectPlace(place);
+          }}
+          onClose={() => setIsDiaryOpen(false)}
+        />
+      )}
+
+      {confirmRequest && (
+        <ConfirmDialog
+          title={confirmRequest.title}
+          message={confirmRequest.message}
+          actions={confirmRequest.actions}
+          onCancel={() => setConfirmRequest(null)}
+        />
+      )}
+
+      {undoAction && (
+        <UndoToast id={undoAction.id} message={undoAction.message} onUndo={undoAction.undo} onDismiss={dismissUndo} />
+      )}
     </div>
   );
 };
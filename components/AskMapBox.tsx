@@ -0,0 +1,73 @@
+import React, { useState } from 'react';
+import { Sparkles, Loader2 } from 'lucide-react';
+import { parseDiaryQuestion } from '../services/aiService';
+import { DiaryQuery } from '../services/diaryQuery';
+import { classifySearchError } from '../services/placeSearch';
+import { useI18n } from './I18nProvider';
+
+interface AskMapBoxProps {
+  onQuery: (question: string, query: DiaryQuery) => void;
+}
+
+export const AskMapBox: React.FC<AskMapBoxProps> = ({ onQuery }) => {
+  const { t } = useI18n();
+  const [question, setQuestion] = useState('');
+  const [isAsking, setIsAsking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const ask = async (text: string) => {
+    if (!text.trim() || isAsking) return;
+    setIsAsking(true);
+    setError(null);
+    try {
+      onQuery(text.trim(), await parseDiaryQuestion(text.trim()));
+    } catch (err) {
+      console.error("Error parsing diary question:", err);
+      setError(classifySearchError(err) === 'quota' ? t.common.aiQuota : t.ask.failed);
+    } finally {
+      setIsAsking(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    ask(question);
+  };
+
+  return (
+    <div className="space-y-1">
+      <form onSubmit={handleSubmit} className="relative">
+        <input
+          type="text"
+          placeholder={t.ask.placeholder}
+          className="w-full pl-10 pr-4 py-2 rounded-lg border border-purple-200 bg-purple-50/50 focus:ring-2 focus:ring-purple-500 focus:outline-none transition text-sm"
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+        />
+        <Sparkles className="absolute left-3 top-2.5 text-purple-400" size={16} />
+        {isAsking && (
+          <div className="absolute right-3 top-2.5">
+            <Loader2 size={16} className="animate-spin text-purple-600" />
+          </div>
+        )}
+      </form>
+      {error && <p className="text-xs text-red-600">{error}</p>}
+      {!question && (
+        <div className="flex gap-1 overflow-x-auto no-scrollbar">
+          {t.ask.examples.map(example => (
+            <button
+              key={example}
+              onClick={() => {
+                setQuestion(example);
+                ask(example);
+              }}
+              className="flex-shrink-0 text-[11px] text-purple-600 bg-purple-50 px-2 py-0.5 rounded-full hover:bg-purple-100"
+            >
+              {example}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,67 +1,147 @@
-import React, { useState, useRef } from 'react';
-import { X, Camera, Upload, Loader2 } from 'lucide-react';
-import { Place, CheckIn } from '../types';
+import React, { useState, useEffect } from 'react';
+import { X, Loader2, CloudOff } from 'lucide-react';
+import { Place, CheckIn, CheckInPhoto, Dish, MealType } from '../types';
 import { StarRating } from './StarRating';
-import { analyzeFoodPhoto } from '../services/geminiService';
+import { PhotoListEditor } from './PhotoListEditor';
+import { DishListEditor } from './DishListEditor';
+import { MEAL_TYPES, CURRENCIES } from '../constants';
+import { mealTypeForTime, pruneDishPhotos } from '../services/checkInDetails';
+import { analyzeFoodPhoto } from '../services/aiService';
+import { isOfflineError } from '../services/requestQueue';
+import { dataUrlMimeType, photoSourceToDataUrl } from '../services/dataUrl';
+import { useI18n } from './I18nProvider';
 
 interface CheckInModalProps {
   place: Place;
   isOpen: boolean;
   onClose: () => void;
-  onSave: (checkIn: Omit<CheckIn, 'id' | 'timestamp'>) => void;
+  // `describeLater` is a photo whose AI description failed offline and should be queued
+  onSave: (checkIn: Omit<CheckIn, 'id'>, describeLater?: string) => void;
+  initialCheckIn?: CheckIn; // Edit mode when provided
+  draft?: Partial<Pick<CheckIn, 'photos' | 'timestamp'>>; // Prefill for a new check-in, e.g. from photo metadata
 }
 
+// <input type="datetime-local"> works in local wall-clock time, without a zone
+const toLocalInputValue = (timestamp: number) => {
+  const date = new Date(timestamp);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+// Companions are typed as one comma-separated line
+const parseCompanions = (value: string) => value.split(/[,，、]/).map(name => name.trim()).filter(Boolean);
+
 export const CheckInModal: React.FC<CheckInModalProps> = ({
   place,
   isOpen,
   onClose,
   onSave,
+  initialCheckIn,
+  draft,
 }) => {
+  const { t } = useI18n();
   const [rating, setRating] = useState(0);
   const [text, setText] = useState('');
-  const [image, setImage] = useState<string | null>(null);
+  const [photos, setPhotos] = useState<CheckInPhoto[]>([]);
+  const [timestamp, setTimestamp] = useState(() => Date.now());
+  const [dishes, setDishes] = useState<Dish[]>([]);
+  const [mealType, setMealType] = useState<MealType | undefined>(undefined);
+  const [spendAmount, setSpendAmount] = useState('');
+  const [currency, setCurrency] = useState(CURRENCIES[0]);
+  const [partySize, setPartySize] = useState('');
+  const [companions, setCompanions] = useState('');
   const [isAnalyzing, setIsAnalyzing] = useState(false);
-  
-  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [describeLater, setDescribeLater] = useState<string | null>(null);
+
+  const describePhoto = async (photo: CheckInPhoto) => {
+    setIsAnalyzing(true);
+    try {
+      const dataUrl = await photoSourceToDataUrl(photo.src);
+      const description = await analyzeFoodPhoto(dataUrl.split(',')[1], dataUrlMimeType(dataUrl));
+      setText(current => current || description);
+    } catch (error) {
+      console.error("Error analyzing photo:", error);
+      if (isOfflineError(error)) setDescribeLater(photo.id);
+      else setText(current => current || t.checkIn.fallbackDescription);
+    } finally {
+      setIsAnalyzing(false);
+    }
+  };
+
+  useEffect(() => {
+    // Prefill from the check-in being edited or the draft, or start blank
+    if (!isOpen) return;
+    setRating(initialCheckIn?.rating ?? 0);
+    setText(initialCheckIn?.text ?? '');
+    setPhotos(initialCheckIn?.photos ?? draft?.photos ?? []);
+    const initialTimestamp = initialCheckIn?.timestamp ?? draft?.timestamp ?? Date.now();
+    setTimestamp(initialTimestamp);
+    setDishes(initialCheckIn?.dishes ?? []);
+    setMealType(initialCheckIn ? initialCheckIn.mealType : mealTypeForTime(initialTimestamp));
+    setSpendAmount(initialCheckIn?.spend ? String(initialCheckIn.spend.amount) : '');
+    setCurrency(initialCheckIn?.spend?.currency ?? CURRENCIES[0]);
+    setPartySize(initialCheckIn?.partySize ? String(initialCheckIn.partySize) : '');
+    setCompanions(initialCheckIn?.companions?.join(t.common.separator) ?? '');
+    setDescribeLater(null);
+    if (!initialCheckIn && draft?.photos?.length) describePhoto(draft.photos[0]);
+  }, [isOpen, initialCheckIn, draft]);
 
   if (!isOpen) return null;
 
-  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      const reader = new FileReader();
-      reader.onloadend = async () => {
-        const base64 = reader.result as string;
-        setImage(base64);
-
-        // Auto-fill text with AI if empty
-        if (!text) {
-            setIsAnalyzing(true);
-            const pureBase64 = base64.split(',')[1];
-            const description = await analyzeFoodPhoto(pureBase64);
-            setText(description);
-            setIsAnalyzing(false);
-        }
-      };
-      reader.readAsDataURL(file);
-    }
+  const handlePhotosAdded = (added: CheckInPhoto[]) => {
+    // Auto-fill text with AI if empty
+    if (!text) describePhoto(added[0]);
+  };
+
+  const handlePhotosChange = (next: CheckInPhoto[]) => {
+    setPhotos(next);
+    setDishes(current => pruneDishPhotos(current, next) || []);
+  };
+
+  const handleTimestampChange = (value: string) => {
+    const parsed = new Date(value).getTime();
+    if (Number.isNaN(parsed)) return;
+    // Follow the new time unless the meal type was picked by hand
+    if (mealType === mealTypeForTime(timestamp)) setMealType(mealTypeForTime(parsed));
+    setTimestamp(parsed);
   };
 
   const handleSave = () => {
     if (rating === 0) {
-      alert("請給予評分！");
+      alert(t.checkIn.ratingRequired);
+      return;
+    }
+    if (timestamp > Date.now()) {
+      alert(t.checkIn.futureTime);
+      return;
+    }
+    const amount = Number(spendAmount);
+    if (spendAmount.trim() && !(amount >= 0)) {
+      alert(t.checkIn.invalidSpend);
       return;
     }
+    const size = parseInt(partySize, 10);
+    const namedDishes = dishes
+      .map(dish => ({ ...dish, name: dish.name.trim() }))
+      .filter(dish => dish.name);
+    const companionList = parseCompanions(companions);
     onSave({
       placeId: place.id,
       rating,
       text,
-      image: image || undefined
-    });
+      photos,
+      timestamp,
+      dishes: namedDishes.length ? namedDishes : undefined,
+      spend: spendAmount.trim() ? { amount, currency } : undefined,
+      partySize: size > 0 ? size : undefined,
+      companions: companionList.length ? companionList : undefined,
+      mealType,
+    }, describeLater && photos.some(p => p.id === describeLater) ? describeLater : undefined);
     // Reset
     setRating(0);
     setText('');
-    setImage(null);
+    setPhotos([]);
+    setDishes([]);
     onClose();
   };
 
@@ -69,7 +149,9 @@ export const CheckInModal: React.FC<CheckInModalProps> = ({
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4 animate-in fade-in duration-200">
       <div className="bg-white rounded-xl shadow-xl w-full max-w-md overflow-hidden flex flex-col max-h-[90vh]">
         <div className="p-4 border-b flex justify-between items-center bg-indigo-600 text-white">
-          <h2 className="font-semibold text-lg">在 {place.name} 打卡</h2>
+          <h2 className="font-semibold text-lg">
+            {initialCheckIn ? t.checkIn.editTitle(place.name) : t.checkIn.newTitle(place.name)}
+          </h2>
           <button onClick={onClose} className="hover:bg-indigo-700 p-1 rounded-full transition">
             <X size={20} />
           </button>
@@ -78,57 +160,113 @@ export const CheckInModal: React.FC<CheckInModalProps> = ({
         <div className="p-6 space-y-6 overflow-y-auto">
           {/* Rating Section */}
           <div className="flex flex-col items-center space-y-2">
-            <span className="text-gray-600 font-medium">體驗如何？</span>
+            <span className="text-gray-600 font-medium">{t.checkIn.howWasIt}</span>
             <StarRating rating={rating} maxStars={5} interactive onRate={setRating} size={32} />
           </div>
 
+          {/* Date Section */}
+          <div className="space-y-2">
+            <label className="block text-sm font-medium text-gray-700">{t.checkIn.mealTime}</label>
+            <input
+              type="datetime-local"
+              className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+              value={toLocalInputValue(timestamp)}
+              max={toLocalInputValue(Date.now())}
+              onChange={(e) => handleTimestampChange(e.target.value)}
+            />
+            <div className="flex gap-2">
+              {MEAL_TYPES.map(type => (
+                <button
+                  key={type.value}
+                  onClick={() => setMealType(mealType === type.value ? undefined : type.value)}
+                  className={`flex-1 px-2 py-1 rounded-full border text-sm transition ${mealType === type.value ? 'bg-indigo-600 text-white border-indigo-600' : 'text-gray-600 border-gray-300 hover:bg-gray-50'}`}
+                >
+                  {type.icon} {t.mealTypes[type.value]}
+                </button>
+              ))}
+            </div>
+          </div>
+
           {/* Photo Section */}
           <div className="space-y-2">
-            <label className="block text-sm font-medium text-gray-700">照片</label>
-            <div 
-              className="border-2 border-dashed border-gray-300 rounded-lg h-48 flex flex-col items-center justify-center cursor-pointer hover:bg-gray-50 transition relative overflow-hidden group"
-              onClick={() => fileInputRef.current?.click()}
-            >
-              {image ? (
-                <img src={image} alt="Preview" className="w-full h-full object-cover" />
-              ) : (
-                <div className="flex flex-col items-center text-gray-400">
-                  <Camera size={32} />
-                  <span className="mt-2 text-sm">點擊拍照或上傳</span>
-                </div>
-              )}
-              
-              {/* Overlay for change */}
-              {image && (
-                <div className="absolute inset-0 bg-black/40 flex items-center justify-center opacity-0 group-hover:opacity-100 transition">
-                   <Upload className="text-white" />
-                </div>
-              )}
+            <label className="block text-sm font-medium text-gray-700">{t.checkIn.photos}</label>
+            <PhotoListEditor photos={photos} onChange={handlePhotosChange} onPhotosAdded={handlePhotosAdded} />
+          </div>
+
+          {/* Dishes Section */}
+          <div className="space-y-2">
+            <label className="block text-sm font-medium text-gray-700">{t.checkIn.dishes}</label>
+            <DishListEditor dishes={dishes} photos={photos} onChange={setDishes} />
+          </div>
+
+          {/* Spend & Party Section */}
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <label className="block text-sm font-medium text-gray-700">{t.checkIn.spend}</label>
+              <div className="flex">
+                <input
+                  type="number"
+                  min={0}
+                  inputMode="decimal"
+                  placeholder={t.checkIn.spendPlaceholder}
+                  className="w-full min-w-0 border border-gray-300 rounded-l-lg px-3 py-2 focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+                  value={spendAmount}
+                  onChange={(e) => setSpendAmount(e.target.value)}
+                />
+                <select
+                  className="border border-l-0 border-gray-300 rounded-r-lg px-1 bg-gray-50 text-sm"
+                  value={currency}
+                  onChange={(e) => setCurrency(e.target.value)}
+                >
+                  {(CURRENCIES.includes(currency) ? CURRENCIES : [currency, ...CURRENCIES]).map(code => (
+                    <option key={code} value={code}>{code}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <label className="block text-sm font-medium text-gray-700">{t.checkIn.partySize}</label>
+              <input
+                type="number"
+                min={1}
+                placeholder={t.checkIn.partySizePlaceholder}
+                className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+                value={partySize}
+                onChange={(e) => setPartySize(e.target.value)}
+              />
             </div>
-            <input 
-              type="file" 
-              ref={fileInputRef} 
-              className="hidden" 
-              accept="image/*" 
-              onChange={handleFileChange}
+          </div>
+          <div className="space-y-2">
+            <label className="block text-sm font-medium text-gray-700">{t.checkIn.companions}</label>
+            <input
+              type="text"
+              placeholder={t.checkIn.companionsPlaceholder}
+              className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+              value={companions}
+              onChange={(e) => setCompanions(e.target.value)}
             />
           </div>
 
           {/* Text Section */}
           <div className="space-y-2 relative">
-            <label className="block text-sm font-medium text-gray-700">筆記</label>
+            <label className="block text-sm font-medium text-gray-700">{t.checkIn.notes}</label>
             <textarea
               className="w-full border border-gray-300 rounded-lg p-3 focus:ring-2 focus:ring-indigo-500 focus:outline-none min-h-[100px]"
-              placeholder="吃了什麼？氣氛如何？"
+              placeholder={t.checkIn.notesPlaceholder}
               value={text}
               onChange={(e) => setText(e.target.value)}
             />
              {isAnalyzing && (
                 <div className="absolute top-8 right-2 flex items-center space-x-1 text-xs text-indigo-600 bg-white/90 p-1 rounded shadow-sm">
                     <Loader2 size={12} className="animate-spin" />
-                    <span>AI 正在生成描述...</span>
+                    <span>{t.checkIn.describing}</span>
                 </div>
             )}
+            {describeLater && !isAnalyzing && (
+              <p className="text-xs text-amber-700 flex items-center gap-1">
+                <CloudOff size={12} /> {t.checkIn.describeLater}
+              </p>
+            )}
           </div>
         </div>
 
@@ -137,13 +275,13 @@ export const CheckInModal: React.FC<CheckInModalProps> = ({
             onClick={onClose} 
             className="px-4 py-2 rounded-lg text-gray-600 hover:bg-gray-200 transition"
           >
-            取消
+            {t.common.cancel}
           </button>
           <button 
             onClick={handleSave} 
             className="px-4 py-2 rounded-lg bg-indigo-600 text-white font-medium hover:bg-indigo-700 transition shadow-sm"
           >
-            儲存打卡
+            {initialCheckIn ? t.checkIn.saveChanges : t.checkIn.saveCheckIn}
           </button>
         </div>
       </div>
@@ -0,0 +1,52 @@
+import React from 'react';
+import { useI18n } from './I18nProvider';
+
+export interface ConfirmAction {
+  label: string;
+  onClick: () => void;
+  variant?: 'primary' | 'danger' | 'default';
+}
+
+interface ConfirmDialogProps {
+  title: string;
+  message: string;
+  actions: ConfirmAction[];
+  onCancel: () => void;
+}
+
+const VARIANT_CLASSES: Record<NonNullable<ConfirmAction['variant']>, string> = {
+  primary: 'bg-indigo-600 text-white hover:bg-indigo-700 shadow-sm',
+  danger: 'bg-red-600 text-white hover:bg-red-700 shadow-sm',
+  default: 'text-gray-600 hover:bg-gray-200',
+};
+
+export const ConfirmDialog: React.FC<ConfirmDialogProps> = ({ title, message, actions, onCancel }) => {
+  const { t } = useI18n();
+  return (
+    <div
+      className="fixed inset-0 z-[60] flex items-center justify-center bg-black/50 p-4 animate-in fade-in duration-200"
+      onClick={onCancel}
+    >
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-sm overflow-hidden" onClick={(e) => e.stopPropagation()}>
+        <div className="p-5 space-y-2">
+          <h2 className="font-semibold text-lg text-gray-900">{title}</h2>
+          <p className="text-sm text-gray-600 whitespace-pre-line">{message}</p>
+        </div>
+        <div className="p-4 border-t bg-gray-50 flex flex-wrap justify-end gap-2">
+          <button onClick={onCancel} className={`px-4 py-2 rounded-lg transition ${VARIANT_CLASSES.default}`}>
+            {t.common.cancel}
+          </button>
+          {actions.map(action => (
+            <button
+              key={action.label}
+              onClick={action.onClick}
+              className={`px-4 py-2 rounded-lg font-medium transition ${VARIANT_CLASSES[action.variant || 'default']}`}
+            >
+              {action.label}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
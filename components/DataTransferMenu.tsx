@@ -0,0 +1,86 @@
+import React, { useRef, useState } from 'react';
+import { Download, Upload, Globe, Loader2 } from 'lucide-react';
+import { SavedPlace, PlaceList } from '../types';
+import {
+  exportArchive,
+  exportGeoJson,
+  downloadBlob,
+  parseArchive,
+  mergeSavedPlaces,
+  mergePlaceLists,
+  ArchiveError,
+} from '../services/archiveService';
+import { useI18n } from './I18nProvider';
+
+interface DataTransferMenuProps {
+  savedPlaces: SavedPlace[];
+  placeLists: PlaceList[];
+  onImport: (places: SavedPlace[], addedLists: PlaceList[]) => void;
+}
+
+const dateStamp = () => new Date().toISOString().slice(0, 10);
+
+export const DataTransferMenu: React.FC<DataTransferMenuProps> = ({ savedPlaces, placeLists, onImport }) => {
+  const { t } = useI18n();
+  const [isImporting, setIsImporting] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleExportArchive = async () => {
+    downloadBlob(await exportArchive(savedPlaces, placeLists), `gourmet-map-${dateStamp()}.zip`);
+  };
+
+  const handleExportGeoJson = () => {
+    downloadBlob(exportGeoJson(savedPlaces), `gourmet-map-${dateStamp()}.geojson`);
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow picking the same file again
+    if (!file) return;
+
+    setIsImporting(true);
+    try {
+      const { places: imported, lists: importedLists } = await parseArchive(file);
+
+      // Dry run to find out whether the user needs to pick a side
+      const { summary: preview } = mergeSavedPlaces(savedPlaces, imported, 'keep-existing');
+      const strategy = preview.conflicts > 0 &&
+        confirm(t.dataTransfer.conflicts(preview.conflicts))
+        ? 'overwrite'
+        : 'keep-existing';
+
+      const { places, summary } = mergeSavedPlaces(savedPlaces, imported, strategy);
+      const { added } = mergePlaceLists(placeLists, importedLists);
+      onImport(places, added);
+      alert(t.dataTransfer.imported(summary.addedPlaces, summary.addedCheckIns, added.length, summary.overwritten));
+    } catch (error) {
+      console.error("Error importing archive:", error);
+      alert(error instanceof ArchiveError ? error.message : t.common.importFailed);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const buttonClass = "p-1.5 rounded-full hover:bg-indigo-500 transition disabled:opacity-50";
+
+  return (
+    <div className="flex items-center gap-1">
+      <button onClick={handleExportArchive} className={buttonClass} title={t.dataTransfer.exportArchive} disabled={savedPlaces.length === 0}>
+        <Download size={18} />
+      </button>
+      <button onClick={() => fileInputRef.current?.click()} className={buttonClass} title={t.dataTransfer.importArchive} disabled={isImporting}>
+        {isImporting ? <Loader2 size={18} className="animate-spin" /> : <Upload size={18} />}
+      </button>
+      <button onClick={handleExportGeoJson} className={buttonClass} title={t.dataTransfer.exportGeoJson} disabled={savedPlaces.length === 0}>
+        <Globe size={18} />
+      </button>
+      <input
+        type="file"
+        ref={fileInputRef}
+        className="hidden"
+        accept=".zip,application/zip"
+        onChange={handleFileChange}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,173 @@
+import React, { useMemo, useState } from 'react';
+import { X, ChevronLeft, ChevronRight, List, CalendarDays } from 'lucide-react';
+import { SavedPlace } from '../types';
+import { StarRating } from './StarRating';
+import { VirtualList } from './VirtualList';
+import { collectDiaryEntries, groupByDay, dayKey, monthGrid, DiaryEntry } from '../services/diaryEntries';
+import { formatDate } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+
+interface DiaryViewProps {
+  places: SavedPlace[];
+  onSelectPlace: (place: SavedPlace) => void;
+  onClose: () => void;
+}
+
+const FEED_ROW_HEIGHT = 84;
+
+const EntryRow: React.FC<{ entry: DiaryEntry; onClick: () => void; showDate?: boolean }> = ({ entry, onClick, showDate = true }) => {
+  const { checkIn, place } = entry;
+  const date = new Date(checkIn.timestamp);
+  return (
+    <button
+      onClick={onClick}
+      className="w-full h-full px-4 py-2 border-b flex items-center gap-3 text-left hover:bg-gray-50 transition"
+    >
+      <div className="w-16 h-16 flex-shrink-0 rounded-md overflow-hidden bg-gray-100">
+        {checkIn.photos[0] && (
+          <img src={checkIn.photos[0].thumbnail || checkIn.photos[0].src} alt="" className="w-full h-full object-cover" loading="lazy" />
+        )}
+      </div>
+      <div className="flex-1 min-w-0">
+        <div className="flex justify-between items-center gap-2">
+          <span className="font-medium text-gray-900 truncate">{place.name}</span>
+          {showDate && (
+            <span className="text-xs text-gray-400 flex-shrink-0">
+              {formatDate(date, { month: 'numeric', day: 'numeric', weekday: 'short' })}
+            </span>
+          )}
+        </div>
+        <StarRating rating={checkIn.rating} size={12} />
+        {checkIn.text && <p className="text-xs text-gray-500 truncate mt-0.5">{checkIn.text}</p>}
+      </div>
+    </button>
+  );
+};
+
+export const DiaryView: React.FC<DiaryViewProps> = ({ places, onSelectPlace, onClose }) => {
+  const { t } = useI18n();
+  const [mode, setMode] = useState<'feed' | 'calendar'>('feed');
+  const [month, setMonth] = useState(() => {
+    const now = new Date();
+    return { year: now.getFullYear(), month: now.getMonth() };
+  });
+  const [selectedDay, setSelectedDay] = useState<string | null>(null);
+
+  const entries = useMemo(() => collectDiaryEntries(places), [places]);
+  const entriesByDay = useMemo(() => groupByDay(entries), [entries]);
+  const grid = useMemo(() => monthGrid(month.year, month.month), [month]);
+  // The grid's weeks start on Monday, so its first row names the columns
+  const weekdays = grid.slice(0, 7).map(date => formatDate(date, { weekday: 'narrow' }));
+  const todayKey = dayKey(Date.now());
+
+  const shiftMonth = (amount: number) => {
+    setMonth(({ year, month }) => {
+      const date = new Date(year, month + amount, 1);
+      return { year: date.getFullYear(), month: date.getMonth() };
+    });
+    setSelectedDay(null);
+  };
+
+  // Empty when the day's check-ins were deleted or synced away while it was selected
+  const selectedEntries = selectedDay ? entriesByDay.get(selectedDay) || [] : [];
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4 animate-in fade-in duration-200">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-2xl overflow-hidden flex flex-col h-[90vh]">
+        <div className="p-4 border-b flex justify-between items-center bg-indigo-600 text-white">
+          <h2 className="font-semibold text-lg">{t.diary.title}</h2>
+          <div className="flex items-center gap-2">
+            <div className="flex bg-indigo-700 rounded-full p-0.5 text-sm">
+              <button
+                onClick={() => setMode('feed')}
+                className={`flex items-center gap-1 px-3 py-1 rounded-full transition ${mode === 'feed' ? 'bg-white text-indigo-700' : ''}`}
+              >
+                <List size={14} /> {t.diary.feed}
+              </button>
+              <button
+                onClick={() => setMode('calendar')}
+                className={`flex items-center gap-1 px-3 py-1 rounded-full transition ${mode === 'calendar' ? 'bg-white text-indigo-700' : ''}`}
+              >
+                <CalendarDays size={14} /> {t.diary.calendar}
+              </button>
+            </div>
+            <button onClick={onClose} className="hover:bg-indigo-700 p-1 rounded-full transition">
+              <X size={20} />
+            </button>
+          </div>
+        </div>
+
+        {entries.length === 0 ? (
+          <div className="p-12 text-center text-gray-400">{t.diary.empty}</div>
+        ) : mode === 'feed' ? (
+          <VirtualList<DiaryEntry>
+            className="flex-1"
+            items={entries}
+            rowHeight={FEED_ROW_HEIGHT}
+            getKey={entry => entry.checkIn.id}
+            renderRow={entry => <EntryRow entry={entry} onClick={() => onSelectPlace(entry.place)} />}
+          />
+        ) : (
+          <div className="flex-1 overflow-y-auto">
+            <div className="flex justify-between items-center px-4 py-3">
+              <button onClick={() => shiftMonth(-1)} className="p-1 rounded-full hover:bg-gray-100">
+                <ChevronLeft size={20} />
+              </button>
+              <span className="font-semibold text-gray-800">{formatDate(new Date(month.year, month.month, 1), { year: 'numeric', month: 'long' })}</span>
+              <button onClick={() => shiftMonth(1)} className="p-1 rounded-full hover:bg-gray-100">
+                <ChevronRight size={20} />
+              </button>
+            </div>
+
+            <div className="grid grid-cols-7 gap-px bg-gray-200 border-y">
+              {weekdays.map((day, i) => (
+                <div key={i} className="bg-gray-50 text-center text-xs text-gray-500 py-1">{day}</div>
+              ))}
+              {grid.map(date => {
+                const key = dayKey(date.getTime());
+                const dayEntries = entriesByDay.get(key) || [];
+                const inMonth = date.getMonth() === month.month;
+                const best = dayEntries.reduce((max, e) => Math.max(max, e.checkIn.rating), 0);
+                const photo = dayEntries.find(e => e.checkIn.photos.length > 0)?.checkIn.photos[0];
+                const thumbnail = photo && (photo.thumbnail || photo.src);
+                return (
+                  <button
+                    key={key}
+                    onClick={() => setSelectedDay(dayEntries.length ? key : null)}
+                    className={`relative bg-white h-20 p-1 text-left transition ${inMonth ? '' : 'opacity-40'} ${selectedDay === key ? 'ring-2 ring-inset ring-indigo-500' : ''} ${dayEntries.length ? 'hover:bg-indigo-50' : 'cursor-default'}`}
+                  >
+                    {thumbnail && (
+                      <img src={thumbnail} alt="" className="absolute inset-0 w-full h-full object-cover opacity-80" loading="lazy" />
+                    )}
+                    <span className={`relative text-xs font-medium px-1 rounded ${key === todayKey ? 'bg-indigo-600 text-white' : thumbnail ? 'bg-white/80 text-gray-800' : 'text-gray-600'}`}>
+                      {date.getDate()}
+                    </span>
+                    {dayEntries.length > 0 && (
+                      <span className="absolute bottom-1 left-1 right-1 flex justify-between items-center text-[10px] bg-white/85 rounded px-1">
+                        <span className="text-yellow-500">{'★'.repeat(best)}</span>
+                        {dayEntries.length > 1 && <span className="text-gray-600">×{dayEntries.length}</span>}
+                      </span>
+                    )}
+                  </button>
+                );
+              })}
+            </div>
+
+            {selectedEntries.length > 0 && (
+              <div>
+                <h3 className="px-4 py-2 bg-gray-50 text-xs font-semibold text-gray-500">
+                  {formatDate(selectedEntries[0].checkIn.timestamp, { dateStyle: 'full' })}
+                </h3>
+                {selectedEntries.map(entry => (
+                  <div key={entry.checkIn.id} style={{ height: FEED_ROW_HEIGHT }}>
+                    <EntryRow entry={entry} onClick={() => onSelectPlace(entry.place)} showDate={false} />
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
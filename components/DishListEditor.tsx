@@ -0,0 +1,73 @@
+import React from 'react';
+import { Plus, X } from 'lucide-react';
+import { Dish, CheckInPhoto } from '../types';
+import { StarRating } from './StarRating';
+import { useI18n } from './I18nProvider';
+
+interface DishListEditorProps {
+  dishes: Dish[];
+  photos: CheckInPhoto[]; // The check-in's photos a dish can point at
+  onChange: (dishes: Dish[]) => void;
+}
+
+export const DishListEditor: React.FC<DishListEditorProps> = ({ dishes, photos, onChange }) => {
+  const { t } = useI18n();
+  const update = (id: string, changes: Partial<Dish>) => {
+    onChange(dishes.map(dish => (dish.id === id ? { ...dish, ...changes } : dish)));
+  };
+
+  const addDish = () => {
+    onChange([...dishes, { id: crypto.randomUUID(), name: '' }]);
+  };
+
+  return (
+    <div className="space-y-2">
+      {dishes.map(dish => (
+        <div key={dish.id} className="border border-gray-200 rounded-lg p-2 space-y-1.5">
+          <div className="flex items-center gap-2">
+            <input
+              type="text"
+              placeholder={t.dishes.name}
+              className="flex-1 min-w-0 text-sm px-2 py-1 rounded border border-gray-200 focus:ring-1 focus:ring-indigo-500 focus:outline-none"
+              value={dish.name}
+              onChange={(e) => update(dish.id, { name: e.target.value })}
+            />
+            <StarRating
+              rating={dish.rating || 0}
+              interactive
+              onRate={(rating) => update(dish.id, { rating: rating === dish.rating ? undefined : rating })}
+              size={16}
+            />
+            <button
+              onClick={() => onChange(dishes.filter(d => d.id !== dish.id))}
+              className="p-0.5 rounded-full text-gray-400 hover:text-red-600 hover:bg-red-50"
+              title={t.dishes.remove}
+            >
+              <X size={14} />
+            </button>
+          </div>
+          {photos.length > 0 && (
+            <div className="flex gap-1 overflow-x-auto">
+              {photos.map(photo => (
+                <button
+                  key={photo.id}
+                  onClick={() => update(dish.id, { photoId: dish.photoId === photo.id ? undefined : photo.id })}
+                  className={`w-8 h-8 flex-shrink-0 rounded overflow-hidden border-2 transition ${dish.photoId === photo.id ? 'border-indigo-500' : 'border-transparent opacity-60 hover:opacity-100'}`}
+                  title={dish.photoId === photo.id ? t.dishes.unlinkPhoto : t.dishes.linkPhoto}
+                >
+                  <img src={photo.thumbnail || photo.src} alt="" className="w-full h-full object-cover" />
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      ))}
+      <button
+        onClick={addDish}
+        className="w-full py-1.5 text-sm text-indigo-600 border border-dashed border-indigo-300 rounded-lg hover:bg-indigo-50 transition flex items-center justify-center gap-1"
+      >
+        <Plus size={14} /> {t.dishes.add}
+      </button>
+    </div>
+  );
+};
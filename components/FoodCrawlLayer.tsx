@@ -0,0 +1,34 @@
+import React from 'react';
+import { Marker, Polyline } from 'react-leaflet';
+import { Place } from '../types';
+import { RoutePlan } from '../services/routePlanner';
+import { routeStopIcon } from './mapIcons';
+
+interface FoodCrawlLayerProps {
+  plan: RoutePlan;
+  onSelect: (place: Place) => void;
+}
+
+// The planned route; straight-line fallbacks are dashed so they don't pass for real paths
+export const FoodCrawlLayer: React.FC<FoodCrawlLayerProps> = ({ plan, onSelect }) => (
+  <>
+    <Polyline
+      positions={plan.geometry.map(point => [point.latitude, point.longitude] as [number, number])}
+      pathOptions={{
+        color: '#4f46e5',
+        weight: 5,
+        opacity: 0.75,
+        dashArray: plan.source === 'straight-line' ? '8 8' : undefined,
+      }}
+    />
+    {plan.stops.map((stop, i) => (
+      <Marker
+        key={`stop-${stop.id}`}
+        position={[stop.location.latitude, stop.location.longitude]}
+        icon={routeStopIcon(i + 1)}
+        zIndexOffset={2000}
+        eventHandlers={{ click: () => onSelect(stop) }}
+      />
+    ))}
+  </>
+);
@@ -0,0 +1,87 @@
+import React from 'react';
+import { X, Loader2, RefreshCw, Footprints } from 'lucide-react';
+import { Place } from '../types';
+import { RoutePlan, formatDuration } from '../services/routePlanner';
+import { formatDistance } from '../services/geo';
+import { useI18n } from './I18nProvider';
+
+interface FoodCrawlPanelProps {
+  stops: Place[]; // As picked; shown until a plan orders them
+  plan: RoutePlan | null;
+  fallbackReason?: string; // Set when the plan uses straight lines
+  isPlanning: boolean;
+  onSelect: (place: Place) => void;
+  onRemove: (place: Place) => void;
+  onReplan: () => void;
+  onClear: () => void;
+}
+
+export const FoodCrawlPanel: React.FC<FoodCrawlPanelProps> = ({
+  stops, plan, fallbackReason, isPlanning, onSelect, onRemove, onReplan, onClear,
+}) => {
+  const { t } = useI18n();
+  const ordered = plan ? plan.stops : stops;
+  const isStraightLine = plan?.source === 'straight-line';
+
+  return (
+    <div className="mb-6">
+      <div className="px-4 py-2 bg-indigo-50 sticky top-0 z-10 flex justify-between items-center gap-2">
+        <div className="min-w-0">
+          <h3 className="text-xs font-semibold text-indigo-700 flex items-center gap-1">
+            <Footprints size={14} /> {t.crawl.title(stops.length)}
+          </h3>
+          {plan && (
+            <p className="text-[11px] text-indigo-600 mt-0.5">
+              {(isStraightLine ? t.crawl.straightLine : t.crawl.walking)(formatDistance(plan.distance), formatDuration(plan.duration))}
+            </p>
+          )}
+        </div>
+        <div className="flex items-center gap-1 flex-shrink-0">
+          <button onClick={onReplan} disabled={isPlanning} className="p-1 text-indigo-400 hover:text-indigo-700 disabled:opacity-50" title={t.crawl.replan}>
+            {isPlanning ? <Loader2 size={16} className="animate-spin" /> : <RefreshCw size={16} />}
+          </button>
+          <button onClick={onClear} className="p-1 text-indigo-400 hover:text-indigo-700" title={t.crawl.clear}>
+            <X size={16} />
+          </button>
+        </div>
+      </div>
+      {isStraightLine && fallbackReason && (
+        <div className="px-4 py-1.5 text-[11px] text-amber-700 bg-amber-50 border-b">
+          {t.crawl.fallback(fallbackReason)}
+        </div>
+      )}
+      {ordered.map((place, i) => {
+        const leg = plan?.legs[i];
+        return (
+          <div
+            key={place.id}
+            onClick={() => onSelect(place)}
+            className="px-4 py-2 border-b hover:bg-indigo-50/50 cursor-pointer transition flex items-center gap-3"
+          >
+            <span className="w-6 h-6 flex-shrink-0 rounded-full bg-indigo-600 text-white text-xs font-bold flex items-center justify-center">
+              {i + 1}
+            </span>
+            <div className="flex-1 min-w-0">
+              <div className="text-sm font-medium text-gray-900 truncate">{place.name}</div>
+              {leg && (
+                <div className="text-[11px] text-gray-400">
+                  {(i === 0 ? t.crawl.fromStart : t.crawl.fromPrevious)(formatDistance(leg.distance), formatDuration(leg.duration))}
+                </div>
+              )}
+            </div>
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                onRemove(place);
+              }}
+              className="p-1 text-gray-300 hover:text-red-600"
+              title={t.crawl.removeStop}
+            >
+              <X size={14} />
+            </button>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,39 @@
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import { Locale, Messages, loadLocale, saveLocale, setLocale as setCurrentLocale, getMessages } from '../services/i18n';
+
+interface I18nContextValue {
+  locale: Locale;
+  t: Messages;
+  setLocale: (locale: Locale) => void;
+}
+
+const I18nContext = createContext<I18nContextValue | null>(null);
+
+const initialLocale = loadLocale();
+setCurrentLocale(initialLocale);
+
+// Holds the chosen language for everything below it, and remembers it across visits
+export const I18nProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [locale, setLocale] = useState<Locale>(initialLocale);
+
+  // Services and formatters outside React follow along before anything re-renders
+  setCurrentLocale(locale);
+
+  useEffect(() => {
+    saveLocale(locale);
+    document.documentElement.lang = locale;
+    document.title = getMessages(locale).app.documentTitle;
+  }, [locale]);
+
+  return (
+    <I18nContext.Provider value={{ locale, t: getMessages(locale), setLocale }}>
+      {children}
+    </I18nContext.Provider>
+  );
+};
+
+export const useI18n = (): I18nContextValue => {
+  const value = useContext(I18nContext);
+  if (!value) throw new Error('useI18n must be used inside I18nProvider');
+  return value;
+};
@@ -0,0 +1,25 @@
+import React from 'react';
+import { Languages } from 'lucide-react';
+import { LOCALES, isLocale } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+
+// Header button that picks the app's language; the native select keeps it usable on phones
+export const LanguageSwitcher: React.FC = () => {
+  const { locale, setLocale, t } = useI18n();
+
+  return (
+    <label className="relative p-1.5 rounded-full hover:bg-indigo-500 transition cursor-pointer" title={t.common.language}>
+      <Languages size={18} />
+      <select
+        value={locale}
+        onChange={(e) => isLocale(e.target.value) && setLocale(e.target.value)}
+        className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
+        aria-label={t.common.language}
+      >
+        {LOCALES.map(option => (
+          <option key={option.value} value={option.value}>{option.label}</option>
+        ))}
+      </select>
+    </label>
+  );
+};
@@ -0,0 +1,40 @@
+import React, { useMemo } from 'react';
+import { Star } from 'lucide-react';
+import { CheckIn } from '../types';
+import { likedDishes } from '../services/checkInDetails';
+import { useI18n } from './I18nProvider';
+
+interface LikedDishesProps {
+  checkIns: CheckIn[];
+}
+
+export const LikedDishes: React.FC<LikedDishesProps> = ({ checkIns }) => {
+  const { t } = useI18n();
+  const dishes = useMemo(() => likedDishes(checkIns), [checkIns]);
+  if (dishes.length === 0) return null;
+
+  return (
+    <div className="mb-4 space-y-2">
+      <h3 className="text-sm font-semibold text-gray-500 uppercase tracking-wider">{t.dishes.liked}</h3>
+      <ul className="space-y-1">
+        {dishes.map(dish => (
+          <li key={dish.name} className="flex items-center gap-2 text-sm">
+            <div className="w-8 h-8 flex-shrink-0 rounded overflow-hidden bg-orange-50 flex items-center justify-center">
+              {dish.photo ? (
+                <img src={dish.photo.thumbnail || dish.photo.src} alt="" className="w-full h-full object-cover" />
+              ) : (
+                <span>🍽️</span>
+              )}
+            </div>
+            <span className="flex-1 truncate text-gray-800">{dish.name}</span>
+            {dish.timesOrdered > 1 && <span className="text-xs text-gray-400">{t.dishes.ordered(dish.timesOrdered)}</span>}
+            <span className="flex items-center gap-0.5 text-xs text-gray-600">
+              <Star size={12} className="fill-yellow-400 text-yellow-400" />
+              {dish.averageRating!.toFixed(1)}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
@@ -0,0 +1,68 @@
+import React, { useState } from 'react';
+import { LocateFixed, Crosshair, Bell, BellOff, Loader2 } from 'lucide-react';
+import { ProximitySettings, PROXIMITY_RADII } from '../services/proximity';
+import { formatDistance } from '../services/geo';
+import { useI18n } from './I18nProvider';
+
+interface LocationControlsProps {
+  isWatching: boolean;
+  isLocating: boolean;
+  proximity: ProximitySettings;
+  onRecenter: () => void;
+  onToggleWatch: () => void;
+  onProximityChange: (settings: ProximitySettings) => void;
+}
+
+const buttonClass = "w-10 h-10 rounded-full bg-white shadow-lg border border-gray-200 flex items-center justify-center text-gray-600 hover:bg-gray-50 transition";
+
+// Floating buttons over the map: go to my position, follow me, nearby-place prompts
+export const LocationControls: React.FC<LocationControlsProps> = ({
+  isWatching, isLocating, proximity, onRecenter, onToggleWatch, onProximityChange,
+}) => {
+  const { t } = useI18n();
+  const [showSettings, setShowSettings] = useState(false);
+
+  return (
+    <div className="absolute bottom-20 md:bottom-6 right-4 z-[400] flex flex-col items-end gap-2">
+      {showSettings && (
+        <div className="bg-white rounded-lg shadow-lg border border-gray-200 p-3 text-sm space-y-2 w-56">
+          <label className="flex items-center gap-2 text-gray-700">
+            <input
+              type="checkbox"
+              checked={proximity.enabled}
+              onChange={(e) => onProximityChange({ ...proximity, enabled: e.target.checked })}
+              className="accent-indigo-600"
+            />
+            {t.location.nearbyPrompt}
+          </label>
+          <label className="flex items-center gap-2 text-xs text-gray-500">
+            <span>{t.location.distance}</span>
+            <select
+              className="flex-1 px-2 py-1 rounded-md border border-gray-300 bg-white focus:outline-none disabled:opacity-50"
+              value={proximity.radius}
+              disabled={!proximity.enabled}
+              onChange={(e) => onProximityChange({ ...proximity, radius: Number(e.target.value) })}
+            >
+              {PROXIMITY_RADII.map(radius => (
+                <option key={radius} value={radius}>{t.units.within(formatDistance(radius))}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+      )}
+      <button onClick={() => setShowSettings(v => !v)} className={buttonClass} title={t.location.nearbySettings}>
+        {proximity.enabled ? <Bell size={18} /> : <BellOff size={18} />}
+      </button>
+      <button
+        onClick={onToggleWatch}
+        className={`${buttonClass} ${isWatching ? '!bg-indigo-600 !text-white !border-indigo-600' : ''}`}
+        title={isWatching ? t.location.stopWatching : t.location.startWatching}
+      >
+        <Crosshair size={18} />
+      </button>
+      <button onClick={onRecenter} className={buttonClass} title={t.location.recenter}>
+        {isLocating ? <Loader2 size={18} className="animate-spin text-indigo-600" /> : <LocateFixed size={18} />}
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,42 @@
+import React from 'react';
+import { MapPin, X } from 'lucide-react';
+import { NearbyPlace } from '../services/proximity';
+import { formatDistance } from '../services/geo';
+import { useI18n } from './I18nProvider';
+
+interface NearbyPlacePromptProps {
+  nearby: NearbyPlace;
+  onCheckIn: () => void;
+  onDismiss: () => void;
+}
+
+export const NearbyPlacePrompt: React.FC<NearbyPlacePromptProps> = ({ nearby, onCheckIn, onDismiss }) => {
+  const { t } = useI18n();
+  const { place, distance } = nearby;
+  const isBookmarkOnly = place.myCheckIns.length === 0;
+
+  return (
+    <div className="absolute top-4 left-1/2 -translate-x-1/2 z-[450] w-[90%] max-w-sm bg-white rounded-xl shadow-2xl border border-indigo-100 p-3 flex items-start gap-3 animate-in fade-in slide-in-from-top duration-300">
+      <div className="w-9 h-9 flex-shrink-0 rounded-full bg-indigo-100 text-indigo-600 flex items-center justify-center">
+        <MapPin size={18} />
+      </div>
+      <div className="flex-1 min-w-0">
+        <p className="text-sm text-gray-800">
+          {t.nearby.youreNear(place.name, formatDistance(distance))}
+        </p>
+        <p className="text-xs text-gray-500 mt-0.5">{isBookmarkOnly ? t.nearby.firstVisit : t.nearby.returnVisit(place.myCheckIns.length)}</p>
+        <div className="flex gap-2 mt-2">
+          <button onClick={onCheckIn} className="px-3 py-1 rounded-lg bg-indigo-600 text-white text-sm font-medium hover:bg-indigo-700 transition">
+            {t.nearby.checkIn}
+          </button>
+          <button onClick={onDismiss} className="px-3 py-1 rounded-lg text-gray-500 text-sm hover:bg-gray-100 transition">
+            {t.nearby.later}
+          </button>
+        </div>
+      </div>
+      <button onClick={onDismiss} className="p-1 text-gray-300 hover:text-gray-500">
+        <X size={16} />
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,220 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, Loader2, RefreshCw, Trash2, Camera, Search, Wifi, WifiOff, Download } from 'lucide-react';
+import { SavedPlace } from '../types';
+import { QueuedRequest, isPending } from '../services/requestQueue';
+import {
+  TileBounds,
+  TileDownloadProgress,
+  countTiles,
+  tilesInBounds,
+  downloadTiles,
+  cachedTileCount,
+  clearTileCache,
+  isTileCacheSupported,
+  MAX_DOWNLOAD_TILES,
+  MAX_DOWNLOAD_ZOOM,
+} from '../services/offlineTiles';
+import { formatDateTime, formatNumber } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+
+interface OfflinePanelProps {
+  queue: QueuedRequest[];
+  places: SavedPlace[]; // To name the place a photo belongs to
+  isOnline: boolean;
+  isProcessing: boolean;
+  mapView: { bounds: TileBounds; zoom: number } | null; // What the map currently shows
+  onRetry: () => void;
+  onRemove: (request: QueuedRequest) => void;
+  onShowResults: (request: QueuedRequest) => void;
+  onClose: () => void;
+}
+
+const formatTime = (timestamp: number) =>
+  formatDateTime(timestamp, { month: 'numeric', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+export const OfflinePanel: React.FC<OfflinePanelProps> = ({
+  queue, places, isOnline, isProcessing, mapView, onRetry, onRemove, onShowResults, onClose,
+}) => {
+  const { t } = useI18n();
+  const [maxZoom, setMaxZoom] = useState(() => Math.min(MAX_DOWNLOAD_ZOOM, (mapView?.zoom ?? 13) + 3));
+  const [progress, setProgress] = useState<TileDownloadProgress | null>(null);
+  const [isDownloading, setIsDownloading] = useState(false);
+  const [cachedTiles, setCachedTiles] = useState<number | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const refreshCachedTiles = () => {
+    cachedTileCount().then(setCachedTiles).catch(() => setCachedTiles(null));
+  };
+
+  useEffect(() => {
+    refreshCachedTiles();
+    // Closing the panel stops a download in progress
+    return () => abortRef.current?.abort();
+  }, []);
+
+  const minZoom = Math.min(mapView?.zoom ?? 0, MAX_DOWNLOAD_ZOOM);
+  const tileCount = mapView ? countTiles(mapView.bounds, minZoom, Math.max(minZoom, maxZoom)) : 0;
+
+  const handleDownload = async () => {
+    if (!mapView) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsDownloading(true);
+    try {
+      const result = await downloadTiles(tilesInBounds(mapView.bounds, minZoom, maxZoom), setProgress, controller.signal);
+      if (!controller.signal.aborted && result.failed > 0) {
+        alert(t.offline.tilesFailed(result.failed));
+      }
+    } catch (error) {
+      console.error("Error downloading tiles:", error);
+      alert(t.offline.downloadFailed);
+    } finally {
+      setIsDownloading(false);
+      abortRef.current = null;
+      refreshCachedTiles();
+    }
+  };
+
+  const handleClearTiles = async () => {
+    if (!confirm(t.offline.confirmClear)) return;
+    await clearTileCache();
+    setProgress(null);
+    refreshCachedTiles();
+  };
+
+  const describe = (request: QueuedRequest) => {
+    if (request.kind === 'search') return t.offline.searchRequest(request.query);
+    const place = places.find(p => p.id === request.placeId);
+    return t.offline.photoRequest(place?.name ?? t.offline.deletedPlace);
+  };
+
+  const pendingCount = queue.filter(isPending).length;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4 animate-in fade-in duration-200">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-md overflow-hidden flex flex-col max-h-[85vh]">
+        <div className="p-4 border-b flex justify-between items-center bg-indigo-600 text-white">
+          <h2 className="font-semibold text-lg">{t.offline.title}</h2>
+          <button onClick={onClose} className="hover:bg-indigo-700 p-1 rounded-full transition">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto">
+          <div className={`px-4 py-2 text-sm flex items-center gap-2 ${isOnline ? 'bg-emerald-50 text-emerald-700' : 'bg-amber-50 text-amber-700'}`}>
+            {isOnline ? <Wifi size={16} /> : <WifiOff size={16} />}
+            {isOnline ? t.offline.online : t.offline.offlineHint}
+          </div>
+
+          {/* Queued requests */}
+          <div className="px-4 py-2 bg-gray-50 flex justify-between items-center">
+            <h3 className="text-xs font-semibold text-gray-500">{t.offline.pending(pendingCount)}</h3>
+            <button
+              onClick={onRetry}
+              disabled={!isOnline || isProcessing || pendingCount === 0}
+              className="text-xs text-indigo-600 hover:underline disabled:opacity-40 disabled:no-underline flex items-center gap-1"
+            >
+              {isProcessing ? <Loader2 size={12} className="animate-spin" /> : <RefreshCw size={12} />} {t.offline.retryNow}
+            </button>
+          </div>
+          {queue.length === 0 ? (
+            <div className="p-4 text-center text-xs text-gray-400">{t.offline.noPending}</div>
+          ) : (
+            queue.map(request => (
+              <div key={request.id} className="px-4 py-2 border-b flex items-center gap-2">
+                {request.kind === 'search'
+                  ? <Search size={14} className="text-gray-400 flex-shrink-0" />
+                  : <Camera size={14} className="text-gray-400 flex-shrink-0" />}
+                <div className="flex-1 min-w-0">
+                  <div className="text-sm text-gray-800 truncate">{describe(request)}</div>
+                  <div className="text-[11px] text-gray-400">
+                    {formatTime(request.createdAt)}
+                    {request.attempts > 0 && ` · ${t.offline.attempts(request.attempts)}`}
+                    {request.lastError && isPending(request) && <span className="text-red-500"> · {request.lastError}</span>}
+                  </div>
+                </div>
+                {request.kind === 'search' && request.results ? (
+                  <button
+                    onClick={() => onShowResults(request)}
+                    className="text-xs px-2 py-1 rounded-full bg-indigo-600 text-white hover:bg-indigo-700 flex-shrink-0"
+                  >
+                    {t.offline.viewResults(request.results.length)}
+                  </button>
+                ) : (
+                  <span className="text-[11px] text-amber-600 flex-shrink-0">{t.offline.waiting}</span>
+                )}
+                <button onClick={() => onRemove(request)} className="p-1 rounded text-gray-400 hover:text-red-600 hover:bg-red-50" title={t.common.remove}>
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            ))
+          )}
+
+          {/* Offline map tiles */}
+          <div className="px-4 py-2 bg-gray-50">
+            <h3 className="text-xs font-semibold text-gray-500">{t.offline.maps}</h3>
+          </div>
+          {!isTileCacheSupported() ? (
+            <div className="p-4 text-center text-xs text-gray-400">{t.offline.unsupported}</div>
+          ) : (
+            <div className="p-4 space-y-3 text-sm">
+              <p className="text-xs text-gray-500">{t.offline.mapsHint}</p>
+              <label className="flex items-center gap-2 text-xs text-gray-600">
+                <span className="flex-shrink-0">{t.offline.zoomFrom(minZoom)}</span>
+                <select
+                  className="px-2 py-1 rounded-md border border-gray-300 bg-white focus:outline-none"
+                  value={maxZoom}
+                  disabled={isDownloading}
+                  onChange={(e) => setMaxZoom(Number(e.target.value))}
+                >
+                  {Array.from({ length: MAX_DOWNLOAD_ZOOM - minZoom + 1 }, (_, i) => minZoom + i).map(zoom => (
+                    <option key={zoom} value={zoom}>{zoom}</option>
+                  ))}
+                </select>
+                <span className="text-gray-400">{t.offline.tileCount(formatNumber(tileCount))}</span>
+              </label>
+              {tileCount > MAX_DOWNLOAD_TILES && (
+                <p className="text-xs text-amber-700">{t.offline.tooMany(formatNumber(MAX_DOWNLOAD_TILES))}</p>
+              )}
+              {progress && (
+                <div>
+                  <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+                    <div className="h-full bg-indigo-500 transition-all" style={{ width: `${(progress.done / Math.max(1, progress.total)) * 100}%` }} />
+                  </div>
+                  <p className="text-[11px] text-gray-400 mt-1">
+                    {progress.done} / {progress.total}{progress.failed > 0 && t.offline.failedTiles(progress.failed)}
+                  </p>
+                </div>
+              )}
+              <div className="flex gap-2">
+                {isDownloading ? (
+                  <button onClick={() => abortRef.current?.abort()} className="flex-1 py-2 rounded-lg border border-gray-300 text-gray-600 hover:bg-gray-50">
+                    {t.offline.cancelDownload}
+                  </button>
+                ) : (
+                  <button
+                    onClick={handleDownload}
+                    disabled={!isOnline || !mapView || tileCount === 0 || tileCount > MAX_DOWNLOAD_TILES}
+                    className="flex-1 py-2 rounded-lg bg-indigo-600 text-white font-medium hover:bg-indigo-700 disabled:opacity-50 flex items-center justify-center gap-1"
+                  >
+                    <Download size={16} /> {t.offline.download}
+                  </button>
+                )}
+                <button
+                  onClick={handleClearTiles}
+                  disabled={isDownloading || !cachedTiles}
+                  className="px-3 py-2 rounded-lg text-gray-500 hover:text-red-600 hover:bg-red-50 disabled:opacity-40"
+                  title={t.offline.clearMaps}
+                >
+                  <Trash2 size={16} />
+                </button>
+              </div>
+              {cachedTiles !== null && <p className="text-[11px] text-gray-400">{t.offline.downloaded(formatNumber(cachedTiles))}</p>}
+              <p className="text-[11px] text-gray-400">{t.offline.attribution}</p>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
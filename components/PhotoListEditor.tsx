@@ -0,0 +1,119 @@
+import React, { useRef, useState } from 'react';
+import { Camera, X, ChevronLeft, ChevronRight, Loader2 } from 'lucide-react';
+import { CheckInPhoto } from '../types';
+import { processPhoto, ImageProcessingError } from '../services/imagePipeline';
+import { useI18n } from './I18nProvider';
+
+interface PhotoListEditorProps {
+  photos: CheckInPhoto[];
+  onChange: (photos: CheckInPhoto[]) => void;
+  onPhotosAdded?: (added: CheckInPhoto[]) => void;
+}
+
+export const PhotoListEditor: React.FC<PhotoListEditorProps> = ({ photos, onChange, onPhotosAdded }) => {
+  const { t } = useI18n();
+  const [isProcessing, setIsProcessing] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = e.target.files ? Array.from(e.target.files) : [];
+    e.target.value = ''; // Allow picking the same file again
+    if (files.length === 0) return;
+
+    setIsProcessing(true);
+    const added: CheckInPhoto[] = [];
+    const failures: string[] = [];
+    for (const file of files) {
+      try {
+        added.push(await processPhoto(file));
+      } catch (error) {
+        console.error("Error processing photo:", error);
+        failures.push(error instanceof ImageProcessingError ? t.common.photoFailure(file.name, error.message) : file.name);
+      }
+    }
+    setIsProcessing(false);
+
+    if (failures.length) alert(t.common.photosRejected(failures));
+    if (added.length) {
+      onChange([...photos, ...added]);
+      onPhotosAdded?.(added);
+    }
+  };
+
+  const update = (index: number, changes: Partial<CheckInPhoto>) => {
+    onChange(photos.map((photo, i) => (i === index ? { ...photo, ...changes } : photo)));
+  };
+
+  const move = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= photos.length) return;
+    const next = [...photos];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-3 gap-2">
+        {photos.map((photo, index) => (
+          <div key={photo.id} className="space-y-1">
+            <div className="relative aspect-square rounded-lg overflow-hidden bg-gray-100 group">
+              <img src={photo.thumbnail || photo.src} alt={photo.caption || ''} className="w-full h-full object-cover" />
+              <button
+                onClick={() => onChange(photos.filter(p => p.id !== photo.id))}
+                className="absolute top-1 right-1 bg-black/60 text-white p-0.5 rounded-full hover:bg-black/80 transition"
+                title={t.photos.remove}
+              >
+                <X size={14} />
+              </button>
+              {photos.length > 1 && (
+                <div className="absolute bottom-1 inset-x-1 flex justify-between md:opacity-0 md:group-hover:opacity-100 transition">
+                  <button
+                    onClick={() => move(index, -1)}
+                    disabled={index === 0}
+                    className="bg-black/60 text-white p-0.5 rounded-full disabled:invisible"
+                    title={t.photos.moveEarlier}
+                  >
+                    <ChevronLeft size={14} />
+                  </button>
+                  <button
+                    onClick={() => move(index, 1)}
+                    disabled={index === photos.length - 1}
+                    className="bg-black/60 text-white p-0.5 rounded-full disabled:invisible"
+                    title={t.photos.moveLater}
+                  >
+                    <ChevronRight size={14} />
+                  </button>
+                </div>
+              )}
+            </div>
+            <input
+              type="text"
+              placeholder={t.photos.caption}
+              className="w-full text-xs px-1.5 py-1 rounded border border-gray-200 focus:ring-1 focus:ring-indigo-500 focus:outline-none"
+              value={photo.caption || ''}
+              onChange={(e) => update(index, { caption: e.target.value || undefined })}
+            />
+          </div>
+        ))}
+
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isProcessing}
+          className="aspect-square border-2 border-dashed border-gray-300 rounded-lg flex flex-col items-center justify-center text-gray-400 hover:bg-gray-50 transition"
+        >
+          {isProcessing ? <Loader2 size={24} className="animate-spin" /> : <Camera size={24} />}
+          <span className="mt-1 text-xs">{isProcessing ? t.photos.processing : t.photos.add}</span>
+        </button>
+      </div>
+      <input
+        type="file"
+        ref={fileInputRef}
+        className="hidden"
+        accept="image/*"
+        multiple
+        onChange={handleFileChange}
+      />
+    </div>
+  );
+};
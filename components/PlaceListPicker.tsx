@@ -0,0 +1,46 @@
+import React from 'react';
+import { Plus } from 'lucide-react';
+import { PlaceList } from '../types';
+import { useI18n } from './I18nProvider';
+
+interface PlaceListPickerProps {
+  lists: PlaceList[];
+  selectedIds: string[];
+  onToggle: (listId: string) => void;
+  onCreate: (name: string) => void; // Creates the list and adds the place to it
+}
+
+export const PlaceListPicker: React.FC<PlaceListPickerProps> = ({ lists, selectedIds, onToggle, onCreate }) => {
+  const { t } = useI18n();
+  const suggestions = t.lists.suggestedNames.filter(name => !lists.some(list => list.name === name));
+
+  return (
+    <div className="flex items-start gap-2 mb-4">
+      <span className="text-xs text-gray-500 w-10 flex-shrink-0 pt-1">{t.lists.list}</span>
+      <div className="flex-1 flex flex-wrap gap-1">
+        {lists.map(list => {
+          const selected = selectedIds.includes(list.id);
+          return (
+            <button
+              key={list.id}
+              onClick={() => onToggle(list.id)}
+              className={`text-xs px-2 py-0.5 rounded-full border transition ${selected ? 'text-white' : 'text-gray-600 bg-white hover:bg-gray-50'}`}
+              style={selected ? { background: list.color, borderColor: list.color } : { borderColor: list.color }}
+            >
+              {list.icon} {list.name}
+            </button>
+          );
+        })}
+        {lists.length === 0 && suggestions.map(name => (
+          <button
+            key={name}
+            onClick={() => onCreate(name)}
+            className="text-xs px-2 py-0.5 rounded-full border border-dashed border-gray-300 text-gray-500 hover:border-indigo-400 hover:text-indigo-600 flex items-center gap-0.5"
+          >
+            <Plus size={10} /> {name}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,258 @@
+import React, { useRef, useState } from 'react';
+import { X, Pencil, Trash2, Check, Eye, EyeOff, Link2, Download, Upload, Plus } from 'lucide-react';
+import { SavedPlace, PlaceList, SharedList } from '../types';
+import { LIST_COLORS, LIST_ICONS } from '../constants';
+import { createShareLink, exportListFile, parseListFile, ListShareError } from '../services/listSharing';
+import { downloadBlob } from '../services/archiveService';
+import { useI18n } from './I18nProvider';
+
+interface PlaceListsManagerProps {
+  lists: PlaceList[];
+  sharedLists: SharedList[];
+  places: SavedPlace[];
+  onCreate: (name: string, style: Pick<PlaceList, 'icon' | 'color'>) => void;
+  onUpdate: (list: PlaceList) => void;
+  onDelete: (list: PlaceList) => void;
+  onUpdateShared: (list: SharedList) => void;
+  onRemoveShared: (list: SharedList) => void;
+  onImportShared: (list: SharedList) => void;
+  onClose: () => void;
+}
+
+export const PlaceListsManager: React.FC<PlaceListsManagerProps> = ({
+  lists, sharedLists, places, onCreate, onUpdate, onDelete, onUpdateShared, onRemoveShared, onImportShared, onClose,
+}) => {
+  const { t } = useI18n();
+  const [name, setName] = useState('');
+  const [icon, setIcon] = useState(LIST_ICONS[lists.length % LIST_ICONS.length]);
+  const [color, setColor] = useState(LIST_COLORS[lists.length % LIST_COLORS.length]);
+  const [editing, setEditing] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const countOf = (list: PlaceList) => places.filter(place => place.listIds?.includes(list.id)).length;
+
+  const handleCreate = (listName: string) => {
+    if (!listName.trim()) return;
+    if (lists.some(list => list.name === listName.trim())) {
+      alert(t.lists.duplicateName(listName.trim()));
+      return;
+    }
+    onCreate(listName, { icon, color });
+    setName('');
+    // Suggest a different style for the next one
+    setIcon(LIST_ICONS[(lists.length + 1) % LIST_ICONS.length]);
+    setColor(LIST_COLORS[(lists.length + 1) % LIST_COLORS.length]);
+  };
+
+  const commitRename = (list: PlaceList) => {
+    const target = draft.trim();
+    if (target && target !== list.name) onUpdate({ ...list, name: target });
+    setEditing(null);
+  };
+
+  const handleShareLink = async (list: PlaceList) => {
+    const link = createShareLink(list, places);
+    try {
+      await navigator.clipboard.writeText(link);
+      alert(t.lists.linkCopied(list.name));
+    } catch {
+      // Clipboard access can be denied; let the user copy it by hand
+      prompt(t.lists.copyLink, link);
+    }
+  };
+
+  const handleDelete = (list: PlaceList) => {
+    const count = countOf(list);
+    const message = count > 0
+      ? t.lists.confirmDeleteWithPlaces(list.name, count)
+      : t.lists.confirmDelete(list.name);
+    if (confirm(message)) onDelete(list);
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow picking the same file again
+    if (!file) return;
+    try {
+      onImportShared(await parseListFile(file));
+    } catch (error) {
+      console.error("Error importing list:", error);
+      alert(error instanceof ListShareError ? error.message : t.common.importFailed);
+    }
+  };
+
+  const suggestions = t.lists.suggestedNames.filter(suggestion => !lists.some(list => list.name === suggestion));
+  const iconButtonClass = "p-1 rounded text-gray-400 hover:text-indigo-600 hover:bg-indigo-50";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4 animate-in fade-in duration-200">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-md overflow-hidden flex flex-col max-h-[85vh]">
+        <div className="p-4 border-b flex justify-between items-center bg-indigo-600 text-white">
+          <h2 className="font-semibold text-lg">{t.lists.title}</h2>
+          <button onClick={onClose} className="hover:bg-indigo-700 p-1 rounded-full transition">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto">
+          {/* New list */}
+          <div className="p-4 border-b space-y-2">
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                handleCreate(name);
+              }}
+              className="flex gap-2"
+            >
+              <input
+                type="text"
+                className="flex-1 px-3 py-1.5 rounded-md border border-gray-300 text-sm focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+                placeholder={t.lists.newListName}
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+              />
+              <button
+                type="submit"
+                disabled={!name.trim()}
+                className="px-3 py-1.5 bg-indigo-600 text-white rounded-md text-sm hover:bg-indigo-700 disabled:opacity-50 flex items-center gap-1"
+              >
+                <Plus size={14} /> {t.lists.create}
+              </button>
+            </form>
+            <div className="flex flex-wrap gap-1">
+              {LIST_ICONS.map(option => (
+                <button
+                  key={option}
+                  onClick={() => setIcon(option)}
+                  className={`w-7 h-7 rounded-full text-sm ${icon === option ? 'bg-indigo-100 ring-2 ring-indigo-400' : 'hover:bg-gray-100'}`}
+                >
+                  {option}
+                </button>
+              ))}
+            </div>
+            <div className="flex gap-1.5">
+              {LIST_COLORS.map(option => (
+                <button
+                  key={option}
+                  onClick={() => setColor(option)}
+                  className={`w-6 h-6 rounded-full ${color === option ? 'ring-2 ring-offset-1 ring-gray-500' : ''}`}
+                  style={{ background: option }}
+                  title={option}
+                />
+              ))}
+            </div>
+            {suggestions.length > 0 && (
+              <div className="flex flex-wrap gap-1">
+                {suggestions.map(suggestion => (
+                  <button
+                    key={suggestion}
+                    onClick={() => handleCreate(suggestion)}
+                    className="text-xs px-2 py-0.5 rounded-full border border-dashed border-gray-300 text-gray-500 hover:border-indigo-400 hover:text-indigo-600"
+                  >
+                    + {suggestion}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Own lists */}
+          {lists.length === 0 ? (
+            <div className="p-6 text-center text-sm text-gray-400">{t.lists.empty}</div>
+          ) : (
+            lists.map(list => (
+              <div key={list.id} className="px-4 py-2 border-b flex items-center gap-2">
+                <span
+                  className="w-7 h-7 flex-shrink-0 rounded-full flex items-center justify-center text-sm"
+                  style={{ background: `${list.color}33`, border: `2px solid ${list.color}` }}
+                >
+                  {list.icon}
+                </span>
+                {editing === list.id ? (
+                  <>
+                    <input
+                      autoFocus
+                      className="flex-1 px-2 py-1 rounded-md border border-gray-300 text-sm focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+                      value={draft}
+                      onChange={(e) => setDraft(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') commitRename(list);
+                        if (e.key === 'Escape') setEditing(null);
+                      }}
+                    />
+                    <button onClick={() => commitRename(list)} className="p-1 rounded text-indigo-600 hover:bg-indigo-50" title={t.common.save}>
+                      <Check size={16} />
+                    </button>
+                  </>
+                ) : (
+                  <>
+                    <span className={`flex-1 text-sm ${list.visible ? 'text-gray-800' : 'text-gray-400'}`}>{list.name}</span>
+                    <span className="text-xs text-gray-400">{t.common.places(countOf(list))}</span>
+                    <button onClick={() => onUpdate({ ...list, visible: !list.visible })} className={iconButtonClass} title={list.visible ? t.common.hideOnMap : t.common.showOnMap}>
+                      {list.visible ? <Eye size={14} /> : <EyeOff size={14} />}
+                    </button>
+                    <button onClick={() => handleShareLink(list)} className={iconButtonClass} title={t.lists.share} disabled={countOf(list) === 0}>
+                      <Link2 size={14} />
+                    </button>
+                    <button onClick={() => downloadBlob(exportListFile(list, places), `${list.name}.json`)} className={iconButtonClass} title={t.lists.downloadFile}>
+                      <Download size={14} />
+                    </button>
+                    <button
+                      onClick={() => {
+                        setEditing(list.id);
+                        setDraft(list.name);
+                      }}
+                      className={iconButtonClass}
+                      title={t.common.rename}
+                    >
+                      <Pencil size={14} />
+                    </button>
+                    <button onClick={() => handleDelete(list)} className="p-1 rounded text-gray-400 hover:text-red-600 hover:bg-red-50" title={t.common.delete}>
+                      <Trash2 size={14} />
+                    </button>
+                  </>
+                )}
+              </div>
+            ))
+          )}
+
+          {/* Lists shared with us */}
+          <div className="px-4 py-2 bg-gray-50 flex justify-between items-center">
+            <h3 className="text-xs font-semibold text-gray-500">{t.lists.shared}</h3>
+            <button onClick={() => fileInputRef.current?.click()} className="text-xs text-indigo-600 hover:underline flex items-center gap-1">
+              <Upload size={12} /> {t.lists.importFile}
+            </button>
+            <input type="file" ref={fileInputRef} className="hidden" accept=".json,application/json" onChange={handleFileChange} />
+          </div>
+          {sharedLists.length === 0 ? (
+            <div className="p-4 text-center text-xs text-gray-400">{t.lists.sharedEmpty}</div>
+          ) : (
+            sharedLists.map(list => (
+              <div key={list.id} className="px-4 py-2 border-b flex items-center gap-2">
+                <span
+                  className="w-7 h-7 flex-shrink-0 rounded-full flex items-center justify-center text-sm"
+                  style={{ background: `${list.color}33`, border: `2px dashed ${list.color}` }}
+                >
+                  {list.icon}
+                </span>
+                <span className={`flex-1 text-sm ${list.visible ? 'text-gray-800' : 'text-gray-400'}`}>{list.name}</span>
+                <span className="text-xs text-gray-400">{t.common.places(list.places.length)}</span>
+                <button onClick={() => onUpdateShared({ ...list, visible: !list.visible })} className={iconButtonClass} title={list.visible ? t.common.hideOnMap : t.common.showOnMap}>
+                  {list.visible ? <Eye size={14} /> : <EyeOff size={14} />}
+                </button>
+                <button
+                  onClick={() => confirm(t.lists.confirmRemoveShared(list.name)) && onRemoveShared(list)}
+                  className="p-1 rounded text-gray-400 hover:text-red-600 hover:bg-red-50"
+                  title={t.common.remove}
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
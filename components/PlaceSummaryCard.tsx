@@ -0,0 +1,78 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Sparkles, Loader2, RefreshCw } from 'lucide-react';
+import { SavedPlace, PlaceSummary } from '../types';
+import { summarizePlace } from '../services/aiService';
+import { checkInsHash, isSummaryStale } from '../services/placeSummary';
+import { classifySearchError } from '../services/placeSearch';
+import { useI18n } from './I18nProvider';
+
+interface PlaceSummaryCardProps {
+  place: SavedPlace;
+  onSummary: (summary: PlaceSummary) => void;
+}
+
+const ROWS: ('order' | 'avoid' | 'trend')[] = ['order', 'avoid', 'trend'];
+
+export const PlaceSummaryCard: React.FC<PlaceSummaryCardProps> = ({ place, onSummary }) => {
+  const { t, locale } = useI18n();
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  // Hash of the request in flight, so re-renders don't start a second one
+  const pendingHashRef = useRef<string | null>(null);
+
+  const hash = checkInsHash(place.myCheckIns);
+  const isStale = isSummaryStale(place, locale);
+  const hasCheckIns = place.myCheckIns.length > 0;
+
+  const generate = async () => {
+    pendingHashRef.current = hash;
+    setIsLoading(true);
+    setError(null);
+    try {
+      const summary = await summarizePlace(place);
+      onSummary(summary);
+    } catch (err) {
+      console.error("Error summarizing place:", err);
+      setError(classifySearchError(err) === 'quota' ? t.common.aiQuota : t.summary.failed);
+    } finally {
+      if (pendingHashRef.current === hash) pendingHashRef.current = null;
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    // Regenerate only when the check-ins or the language changed since the cached summary
+    setError(null);
+    if (hasCheckIns && isStale && pendingHashRef.current !== hash) generate();
+  }, [place.id, hash, locale]);
+
+  if (!hasCheckIns) return null;
+
+  return (
+    <div className="mb-4 rounded-lg bg-gradient-to-br from-indigo-50 to-purple-50 border border-indigo-100 p-3 text-sm">
+      <div className="flex items-center gap-1 text-indigo-700 font-semibold mb-2">
+        <Sparkles size={14} /> {t.summary.title}
+        {isLoading && <Loader2 size={14} className="animate-spin ml-auto" />}
+      </div>
+      {error ? (
+        <div className="flex items-center justify-between text-red-600">
+          <span>{error}</span>
+          <button onClick={generate} className="flex items-center gap-1 text-xs text-indigo-600 hover:underline">
+            <RefreshCw size={12} /> {t.common.retry}
+          </button>
+        </div>
+      ) : place.summary ? (
+        <dl className={`space-y-1 ${isStale ? 'opacity-50' : ''}`}>
+          {ROWS.map(row => (
+            <div key={row} className="flex gap-2">
+              <dt className="flex-shrink-0 text-xs font-medium text-indigo-500 pt-0.5">{t.summary[row]}</dt>
+              <dd className="text-gray-700">{place.summary![row]}</dd>
+            </div>
+          ))}
+        </dl>
+      ) : (
+        <p className="text-gray-400">{t.summary.loading}</p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import { X, Tag } from 'lucide-react';
+import { SavedPlace } from '../types';
+import { CUISINE_CATEGORIES } from '../constants';
+import { addTag } from '../services/tags';
+import { categoryText } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+
+interface PlaceTagsEditorProps {
+  place: SavedPlace;
+  knownTags: string[]; // Offered as suggestions
+  onChange: (changes: Pick<SavedPlace, 'category' | 'tags'>) => void;
+}
+
+export const PlaceTagsEditor: React.FC<PlaceTagsEditorProps> = ({ place, knownTags, onChange }) => {
+  const { t } = useI18n();
+  const [draft, setDraft] = useState('');
+  const tags = place.tags || [];
+
+  const commitDraft = () => {
+    const next = addTag(tags, draft);
+    if (next !== tags) onChange({ category: place.category, tags: next });
+    setDraft('');
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      commitDraft();
+    } else if (e.key === 'Backspace' && !draft && tags.length > 0) {
+      onChange({ category: place.category, tags: tags.slice(0, -1) });
+    }
+  };
+
+  return (
+    <div className="space-y-2 mb-4">
+      <div className="flex items-center gap-2">
+        <span className="text-xs text-gray-500 w-10 flex-shrink-0">{t.tags.category}</span>
+        <select
+          className="flex-1 px-2 py-1 rounded-md border border-gray-300 text-sm bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          value={place.category || ''}
+          onChange={(e) => onChange({ category: e.target.value || undefined, tags })}
+        >
+          <option value="">{t.common.uncategorized}</option>
+          {CUISINE_CATEGORIES.map(cat => (
+            <option key={cat.name} value={cat.name}>{cat.icon} {categoryText(cat.name, t).label}</option>
+          ))}
+        </select>
+      </div>
+      <div className="flex items-start gap-2">
+        <span className="text-xs text-gray-500 w-10 flex-shrink-0 pt-1.5">{t.tags.tags}</span>
+        <div className="flex-1 flex flex-wrap items-center gap-1 px-2 py-1 rounded-md border border-gray-300 focus-within:ring-2 focus-within:ring-indigo-500">
+          {tags.map(tag => (
+            <span key={tag} className="flex items-center gap-0.5 bg-indigo-50 text-indigo-700 text-xs px-2 py-0.5 rounded-full">
+              #{tag}
+              <button
+                onClick={() => onChange({ category: place.category, tags: tags.filter(t => t !== tag) })}
+                className="text-indigo-400 hover:text-indigo-700"
+              >
+                <X size={12} />
+              </button>
+            </span>
+          ))}
+          <input
+            type="text"
+            list="known-tags"
+            className="flex-1 min-w-[80px] text-sm py-0.5 focus:outline-none"
+            placeholder={tags.length ? '' : t.tags.addTag}
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={handleKeyDown}
+            onBlur={commitDraft}
+          />
+          <datalist id="known-tags">
+            {knownTags.filter(tag => !tags.includes(tag)).map(tag => <option key={tag} value={tag} />)}
+          </datalist>
+          {tags.length === 0 && !draft && <Tag size={14} className="text-gray-300" />}
+        </div>
+      </div>
+    </div>
+  );
+};
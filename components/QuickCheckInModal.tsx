@@ -0,0 +1,213 @@
+import React, { useRef, useState } from 'react';
+import { X, Camera, Loader2, MapPin, Search, Clock } from 'lucide-react';
+import { Place, SavedPlace, CheckIn, CheckInPhoto, Coordinates } from '../types';
+import { processPhoto, ImageProcessingError } from '../services/imagePipeline';
+import { readPhotoMetadata, PhotoMetadata } from '../services/exif';
+import { suggestPlacesForLocation, PlaceSuggestion } from '../services/photoPlaceMatcher';
+import { PlaceSearchProvider, searchWithProviders } from '../services/placeSearch';
+import { distanceInMeters, formatDistance } from '../services/geo';
+import { formatDateTime } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+
+interface QuickCheckInModalProps {
+  savedPlaces: SavedPlace[];
+  providers: PlaceSearchProvider[];
+  fallbackLocation: Coordinates; // Used for manual search when the photos have no GPS
+  onPick: (place: Place | SavedPlace, draft: Pick<CheckIn, 'photos' | 'timestamp'>) => void;
+  onClose: () => void;
+}
+
+export const QuickCheckInModal: React.FC<QuickCheckInModalProps> = ({
+  savedPlaces,
+  providers,
+  fallbackLocation,
+  onPick,
+  onClose,
+}) => {
+  const { t } = useI18n();
+  const [photos, setPhotos] = useState<CheckInPhoto[]>([]);
+  const [metadata, setMetadata] = useState<PhotoMetadata | null>(null);
+  const [suggestions, setSuggestions] = useState<PlaceSuggestion[]>([]);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [query, setQuery] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const searchCenter = metadata?.location || fallbackLocation;
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = e.target.files ? Array.from(e.target.files) : [];
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    setIsProcessing(true);
+    setMessage(null);
+    setSuggestions([]);
+
+    // Metadata has to be read from the originals; processing strips it
+    const allMetadata = await Promise.all(files.map(readPhotoMetadata));
+    const found: PhotoMetadata = {
+      location: allMetadata.find(m => m.location)?.location,
+      takenAt: allMetadata.find(m => m.takenAt)?.takenAt,
+    };
+    setMetadata(found);
+
+    const processed: CheckInPhoto[] = [];
+    const failures: string[] = [];
+    for (const file of files) {
+      try {
+        processed.push(await processPhoto(file));
+      } catch (error) {
+        console.error("Error processing photo:", error);
+        failures.push(error instanceof ImageProcessingError ? t.common.photoFailure(file.name, error.message) : file.name);
+      }
+    }
+    if (failures.length) alert(t.common.photosRejected(failures));
+    setPhotos(processed);
+
+    if (!found.location) {
+      setMessage(t.quickCheckIn.noLocation);
+      setIsProcessing(false);
+      return;
+    }
+
+    const result = await suggestPlacesForLocation(found.location, savedPlaces, providers, {
+      query: t.quickCheckIn.nearbyQuery,
+    });
+    setSuggestions(result.suggestions);
+    if (result.suggestions.length === 0) {
+      setMessage(result.failures.length > 0
+        ? t.quickCheckIn.nearbySearchFailed
+        : t.quickCheckIn.nothingNearby);
+    }
+    setIsProcessing(false);
+  };
+
+  const handleSearch = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!query.trim()) return;
+    setIsProcessing(true);
+    setMessage(null);
+    const { places, failures } = await searchWithProviders(providers, query, searchCenter);
+    setSuggestions(places.map(place => {
+      const saved = savedPlaces.find(p => p.id === place.id);
+      return { place: saved || place, distance: distanceInMeters(searchCenter, place.location), saved: !!saved };
+    }));
+    if (places.length === 0) {
+      setMessage(failures.length > 0 ? t.quickCheckIn.searchFailed : t.app.noResults(query));
+    }
+    setIsProcessing(false);
+  };
+
+  const handlePick = (place: Place | SavedPlace) => {
+    onPick(place, { photos, timestamp: metadata?.takenAt ?? Date.now() });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4 animate-in fade-in duration-200">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-md overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="p-4 border-b flex justify-between items-center bg-indigo-600 text-white">
+          <h2 className="font-semibold text-lg">{t.quickCheckIn.title}</h2>
+          <button onClick={onClose} className="hover:bg-indigo-700 p-1 rounded-full transition">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto">
+          {photos.length === 0 ? (
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isProcessing}
+              className="w-full h-40 border-2 border-dashed border-gray-300 rounded-lg flex flex-col items-center justify-center text-gray-400 hover:bg-gray-50 transition"
+            >
+              {isProcessing ? <Loader2 size={32} className="animate-spin" /> : <Camera size={32} />}
+              <span className="mt-2 text-sm">{isProcessing ? t.quickCheckIn.reading : t.quickCheckIn.pickPhotos}</span>
+            </button>
+          ) : (
+            <>
+              <div className="flex gap-2 overflow-x-auto">
+                {photos.map(photo => (
+                  <img key={photo.id} src={photo.thumbnail || photo.src} alt="" className="w-16 h-16 rounded-md object-cover flex-shrink-0" />
+                ))}
+                <button
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={isProcessing}
+                  className="w-16 h-16 flex-shrink-0 border-2 border-dashed border-gray-300 rounded-md flex items-center justify-center text-gray-400 hover:bg-gray-50"
+                  title={t.quickCheckIn.changePhotos}
+                >
+                  <Camera size={20} />
+                </button>
+              </div>
+              <div className="text-xs text-gray-500 space-y-1">
+                <div className="flex items-center gap-1">
+                  <Clock size={12} />
+                  {metadata?.takenAt
+                    ? t.quickCheckIn.takenAt(formatDateTime(metadata.takenAt))
+                    : t.quickCheckIn.noTime}
+                </div>
+                {metadata?.location && (
+                  <div className="flex items-center gap-1">
+                    <MapPin size={12} />
+                    {metadata.location.latitude.toFixed(5)}, {metadata.location.longitude.toFixed(5)}
+                  </div>
+                )}
+              </div>
+            </>
+          )}
+
+          {message && <p className="text-sm text-gray-500">{message}</p>}
+
+          {suggestions.length > 0 && (
+            <div className="space-y-1">
+              <h3 className="text-sm font-medium text-gray-700">{t.quickCheckIn.isThisIt}</h3>
+              {suggestions.map(({ place, distance, saved }) => (
+                <button
+                  key={place.id}
+                  onClick={() => handlePick(place)}
+                  className="w-full px-3 py-2 rounded-lg border border-gray-200 hover:border-indigo-400 hover:bg-indigo-50 transition flex justify-between items-center text-left"
+                >
+                  <div className="min-w-0">
+                    <div className="font-medium text-gray-800 truncate">{place.name}</div>
+                    <div className="text-xs text-gray-500 truncate">{place.address || t.common.noAddress}</div>
+                  </div>
+                  <div className="flex flex-col items-end flex-shrink-0 ml-2">
+                    <span className="text-xs text-gray-400">{formatDistance(distance)}</span>
+                    {saved && <span className="text-[10px] text-indigo-600 font-bold">{t.common.saved}</span>}
+                  </div>
+                </button>
+              ))}
+            </div>
+          )}
+
+          {photos.length > 0 && !isProcessing && (
+            <form onSubmit={handleSearch} className="relative">
+              <input
+                type="text"
+                placeholder={t.quickCheckIn.searchOther}
+                className="w-full pl-9 pr-4 py-2 rounded-lg border border-gray-300 text-sm focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+              />
+              <Search className="absolute left-3 top-2.5 text-gray-400" size={16} />
+            </form>
+          )}
+
+          {isProcessing && photos.length > 0 && (
+            <div className="flex items-center gap-2 text-sm text-indigo-600">
+              <Loader2 size={16} className="animate-spin" /> {t.quickCheckIn.findingNearby}
+            </div>
+          )}
+        </div>
+
+        <input
+          type="file"
+          ref={fileInputRef}
+          className="hidden"
+          accept="image/*"
+          multiple
+          onChange={handleFileChange}
+        />
+      </div>
+    </div>
+  );
+};
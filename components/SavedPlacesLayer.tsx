@@ -0,0 +1,121 @@
+import React, { useMemo, useState } from 'react';
+import { Marker, useMap, useMapEvents } from 'react-leaflet';
+import L from 'leaflet';
+import { SavedPlace, PlaceList } from '../types';
+import { clusterPoints } from '../services/markerClustering';
+import { averageRating } from '../services/placeMetrics';
+import { listMarkerStyle } from '../services/placeLists';
+import { savedPlaceIcon } from './mapIcons';
+
+interface SavedPlacesLayerProps {
+  places: SavedPlace[];
+  lists?: PlaceList[]; // Listed places use their list's marker style
+  onSelect: (place: SavedPlace) => void;
+  // Places always drawn as their own marker (e.g. they are also search results)
+  pinnedIds?: Set<string>;
+  // Pinned too, and drawn in the highlight colour
+  highlightedIds?: Set<string>;
+}
+
+const CLUSTER_CELL_SIZE = 60; // px
+const CLUSTER_MAX_ZOOM = 17; // Beyond this every place gets its own marker
+const VIEWPORT_PADDING = 0.2; // Render a bit past the edges so panning doesn't pop
+
+const ratingColor = (rating: number | null): string => {
+  if (rating === null) return '#9ca3af'; // gray-400
+  if (rating >= 4.5) return '#16a34a'; // green-600
+  if (rating >= 3.5) return '#65a30d'; // lime-600
+  if (rating >= 2.5) return '#d97706'; // amber-600
+  return '#dc2626'; // red-600
+};
+
+const clusterIconCache = new Map<string, L.DivIcon>();
+
+const clusterIcon = (count: number, color: string): L.DivIcon => {
+  const key = `${count}-${color}`;
+  let icon = clusterIconCache.get(key);
+  if (!icon) {
+    const size = count < 10 ? 32 : count < 100 ? 38 : 44;
+    icon = L.divIcon({
+      html: `<div style="width:${size}px;height:${size}px;background:${color};border:3px solid rgba(255,255,255,0.9);border-radius:9999px;display:flex;align-items:center;justify-content:center;color:#fff;font-weight:700;font-size:13px;box-shadow:0 1px 4px rgba(0,0,0,0.35)">${count}</div>`,
+      className: '',
+      iconSize: [size, size],
+      iconAnchor: [size / 2, size / 2],
+    });
+    clusterIconCache.set(key, icon);
+  }
+  return icon;
+};
+
+export const SavedPlacesLayer: React.FC<SavedPlacesLayerProps> = ({ places, lists = [], onSelect, pinnedIds, highlightedIds }) => {
+  const map = useMap();
+  // Bumped on every pan/zoom so visible markers and clusters are recomputed
+  const [viewVersion, setViewVersion] = useState(0);
+  useMapEvents({
+    moveend: () => setViewVersion(v => v + 1),
+    zoomend: () => setViewVersion(v => v + 1),
+  });
+
+  const { singles, clusters } = useMemo(() => {
+    const bounds = map.getBounds().pad(VIEWPORT_PADDING);
+    const zoom = map.getZoom();
+    const visible = places.filter(place =>
+      bounds.contains([place.location.latitude, place.location.longitude]));
+
+    const isPinned = (place: SavedPlace) => !!(pinnedIds?.has(place.id) || highlightedIds?.has(place.id));
+    const pinned = visible.filter(isPinned);
+    const clusterable = visible.filter(place => !isPinned(place));
+
+    if (zoom >= CLUSTER_MAX_ZOOM) {
+      return { singles: visible, clusters: [] };
+    }
+
+    const grouped = clusterPoints<SavedPlace>(
+      clusterable,
+      place => map.project([place.location.latitude, place.location.longitude], zoom),
+      CLUSTER_CELL_SIZE
+    );
+
+    return {
+      singles: [...pinned, ...grouped.filter(c => c.items.length === 1).map(c => c.items[0])],
+      clusters: grouped.filter(c => c.items.length > 1).map(cluster => {
+        const ratings = cluster.items.map(averageRating).filter((r): r is number => r !== null);
+        return {
+          key: cluster.items.map(p => p.id).join('|'),
+          items: cluster.items,
+          position: map.unproject([cluster.center.x, cluster.center.y], zoom),
+          color: ratingColor(ratings.length ? ratings.reduce((a, b) => a + b, 0) / ratings.length : null),
+        };
+      }),
+    };
+    // viewVersion is the signal that the map's bounds or zoom changed
+  }, [places, pinnedIds, highlightedIds, map, viewVersion]);
+
+  const zoomToCluster = (items: SavedPlace[]) => {
+    const bounds = L.latLngBounds(items.map(p => [p.location.latitude, p.location.longitude] as [number, number]));
+    map.flyToBounds(bounds, { padding: [48, 48], maxZoom: CLUSTER_MAX_ZOOM, duration: 0.8 });
+  };
+
+  return (
+    <>
+      {clusters.map(cluster => (
+        <Marker
+          key={`cluster-${cluster.key}`}
+          position={cluster.position}
+          icon={clusterIcon(cluster.items.length, cluster.color)}
+          eventHandlers={{ click: () => zoomToCluster(cluster.items) }}
+        />
+      ))}
+
+      {singles.map(place => (
+        <Marker
+          key={`saved-${place.id}`}
+          position={[place.location.latitude, place.location.longitude]}
+          icon={savedPlaceIcon(place, highlightedIds?.has(place.id), listMarkerStyle(place, lists))}
+          zIndexOffset={pinnedIds?.has(place.id) || highlightedIds?.has(place.id) ? 1000 : 0}
+          eventHandlers={{ click: () => onSelect(place) }}
+        />
+      ))}
+    </>
+  );
+};
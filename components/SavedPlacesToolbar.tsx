@@ -0,0 +1,149 @@
+import React, { useState } from 'react';
+import { Search, SlidersHorizontal, RotateCcw } from 'lucide-react';
+import { PlaceList } from '../types';
+import { CUISINE_CATEGORIES } from '../constants';
+import {
+  SavedPlaceFilters,
+  SavedPlaceSortKey,
+  DEFAULT_FILTERS,
+  isFiltering,
+} from '../services/savedPlaceFilters';
+import { categoryText } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+
+interface SavedPlacesToolbarProps {
+  filters: SavedPlaceFilters;
+  onChange: (filters: SavedPlaceFilters) => void;
+  lists: PlaceList[];
+  shownCount: number;
+  totalCount: number;
+}
+
+const SORT_KEYS: SavedPlaceSortKey[] = ['added', 'lastVisited', 'visitCount', 'averageRating', 'latestRating', 'distance'];
+
+const inputClass = "w-full px-2 py-1 rounded-md border border-gray-300 text-sm focus:ring-2 focus:ring-indigo-500 focus:outline-none";
+
+export const SavedPlacesToolbar: React.FC<SavedPlacesToolbarProps> = ({
+  filters,
+  onChange,
+  lists,
+  shownCount,
+  totalCount,
+}) => {
+  const { t } = useI18n();
+  const filtering = isFiltering(filters);
+  const [showFilters, setShowFilters] = useState(filtering);
+
+  const update = (changes: Partial<SavedPlaceFilters>) => onChange({ ...filters, ...changes });
+
+  return (
+    <div className="px-4 py-2 border-b bg-white space-y-2">
+      <div className="flex items-center gap-2">
+        <div className="relative flex-1">
+          <Search className="absolute left-2 top-1.5 text-gray-400" size={14} />
+          <input
+            type="text"
+            placeholder={t.savedFilters.placeholder}
+            className={`${inputClass} pl-7`}
+            value={filters.text}
+            onChange={(e) => update({ text: e.target.value })}
+          />
+        </div>
+        <select
+          className="px-2 py-1 rounded-md border border-gray-300 text-sm bg-white focus:outline-none"
+          value={filters.sortBy}
+          onChange={(e) => update({ sortBy: e.target.value as SavedPlaceSortKey })}
+        >
+          {SORT_KEYS.map(key => (
+            <option key={key} value={key}>{t.savedFilters.sortOptions[key]}</option>
+          ))}
+        </select>
+        <button
+          onClick={() => setShowFilters(v => !v)}
+          className={`p-1.5 rounded-md border transition ${filtering ? 'border-indigo-300 bg-indigo-50 text-indigo-600' : 'border-gray-300 text-gray-500 hover:bg-gray-50'}`}
+          title={t.savedFilters.filters}
+        >
+          <SlidersHorizontal size={16} />
+        </button>
+      </div>
+
+      {showFilters && (
+        <div className="grid grid-cols-2 gap-2 text-xs text-gray-500">
+          <label className="space-y-1">
+            <span>{t.savedFilters.minRating}</span>
+            <select
+              className={`${inputClass} bg-white`}
+              value={filters.minRating}
+              onChange={(e) => update({ minRating: Number(e.target.value) })}
+            >
+              <option value={0}>{t.common.any}</option>
+              {[1, 2, 3, 4, 5].map(n => (
+                <option key={n} value={n}>{t.common.atLeastStars('★'.repeat(n))}</option>
+              ))}
+            </select>
+          </label>
+          <label className="space-y-1">
+            <span>{t.savedFilters.category}</span>
+            <select
+              className={`${inputClass} bg-white`}
+              value={filters.category}
+              onChange={(e) => update({ category: e.target.value })}
+            >
+              <option value="">{t.common.all}</option>
+              {CUISINE_CATEGORIES.map(cat => (
+                <option key={cat.name} value={cat.name}>{cat.icon} {categoryText(cat.name, t).name}</option>
+              ))}
+            </select>
+          </label>
+          {lists.length > 0 && (
+            <label className="space-y-1 col-span-2">
+              <span>{t.savedFilters.list}</span>
+              <select
+                className={`${inputClass} bg-white`}
+                value={filters.listId}
+                onChange={(e) => update({ listId: e.target.value })}
+              >
+                <option value="">{t.common.all}</option>
+                {lists.map(list => (
+                  <option key={list.id} value={list.id}>{list.icon} {list.name}</option>
+                ))}
+              </select>
+            </label>
+          )}
+          <label className="space-y-1">
+            <span>{t.savedFilters.visitedFrom}</span>
+            <input
+              type="date"
+              className={inputClass}
+              value={filters.visitedFrom}
+              max={filters.visitedTo || undefined}
+              onChange={(e) => update({ visitedFrom: e.target.value })}
+            />
+          </label>
+          <label className="space-y-1">
+            <span>{t.savedFilters.visitedTo}</span>
+            <input
+              type="date"
+              className={inputClass}
+              value={filters.visitedTo}
+              min={filters.visitedFrom || undefined}
+              onChange={(e) => update({ visitedTo: e.target.value })}
+            />
+          </label>
+        </div>
+      )}
+
+      {filtering && (
+        <div className="flex justify-between items-center text-xs text-gray-500">
+          <span>{t.savedFilters.shown(shownCount, totalCount)}</span>
+          <button
+            onClick={() => onChange({ ...DEFAULT_FILTERS, sortBy: filters.sortBy })}
+            className="flex items-center gap-1 text-indigo-600 hover:underline"
+          >
+            <RotateCcw size={12} /> {t.savedFilters.reset}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
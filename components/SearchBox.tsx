@@ -0,0 +1,158 @@
+import React, { useEffect, useState } from 'react';
+import { Search, Loader2, Clock, Pin, PinOff, X, MapPin } from 'lucide-react';
+import { SavedPlace } from '../types';
+import { SearchHistoryEntry, SearchSuggestion, suggestSearches } from '../services/searchHistory';
+import { useI18n } from './I18nProvider';
+
+interface SearchBoxProps {
+  value: string;
+  isSearching: boolean;
+  history: SearchHistoryEntry[];
+  places: SavedPlace[]; // Suggested by name while typing
+  onChange: (value: string) => void;
+  onSearch: (query: string) => void;
+  onSelectPlace: (place: SavedPlace) => void;
+  onTogglePin: (query: string) => void;
+  onRemove: (query: string) => void;
+  onClearHistory: () => void;
+}
+
+// Suggestions wait for a pause in typing
+const SUGGEST_DELAY_MS = 200;
+
+export const SearchBox: React.FC<SearchBoxProps> = ({
+  value, isSearching, history, places, onChange, onSearch, onSelectPlace, onTogglePin, onRemove, onClearHistory,
+}) => {
+  const { t } = useI18n();
+  const [isOpen, setIsOpen] = useState(false);
+  const [suggestionInput, setSuggestionInput] = useState(value);
+  const [highlighted, setHighlighted] = useState(-1);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setSuggestionInput(value), SUGGEST_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [value]);
+
+  useEffect(() => setHighlighted(-1), [suggestionInput]);
+
+  const suggestions = isOpen ? suggestSearches(suggestionInput, history, places) : [];
+  const showsHistoryOnly = !suggestionInput.trim();
+
+  const pick = (suggestion: SearchSuggestion) => {
+    setIsOpen(false);
+    if (suggestion.kind === 'place') {
+      onSelectPlace(suggestion.place);
+      return;
+    }
+    onChange(suggestion.entry.query);
+    onSearch(suggestion.entry.query);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (highlighted >= 0 && suggestions[highlighted]) {
+      pick(suggestions[highlighted]);
+      return;
+    }
+    setIsOpen(false);
+    onSearch(value);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      setIsOpen(true);
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setHighlighted(current => Math.max(-1, Math.min(suggestions.length - 1, current + step)));
+    } else if (e.key === 'Escape') {
+      setIsOpen(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="relative">
+      <input
+        type="text"
+        placeholder={t.searchBox.placeholder}
+        className="w-full pl-10 pr-4 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-indigo-500 focus:outline-none transition"
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setIsOpen(true);
+        }}
+        onFocus={() => setIsOpen(true)}
+        onBlur={() => setIsOpen(false)}
+        onKeyDown={handleKeyDown}
+      />
+      <Search className="absolute left-3 top-2.5 text-gray-400" size={18} />
+      {isSearching && (
+        <div className="absolute right-3 top-2.5">
+          <Loader2 size={18} className="animate-spin text-indigo-600" />
+        </div>
+      )}
+
+      {suggestions.length > 0 && (
+        // Clicks inside mustn't blur the input before they land
+        <div
+          className="absolute left-0 right-0 top-full mt-1 z-20 bg-white rounded-lg shadow-lg border border-gray-200 overflow-hidden text-sm"
+          onMouseDown={(e) => e.preventDefault()}
+        >
+          {showsHistoryOnly && <div className="px-3 pt-2 pb-1 text-[11px] font-semibold text-gray-400">{t.searchBox.recent}</div>}
+          {suggestions.map((suggestion, i) => (
+            <div
+              key={suggestion.kind === 'place' ? `place-${suggestion.place.id}` : `history-${suggestion.entry.query}`}
+              onClick={() => pick(suggestion)}
+              className={`px-3 py-2 flex items-center gap-2 cursor-pointer group ${i === highlighted ? 'bg-indigo-50' : 'hover:bg-gray-50'}`}
+            >
+              {suggestion.kind === 'place' ? (
+                <>
+                  <MapPin size={14} className="text-indigo-500 flex-shrink-0" />
+                  <span className="flex-1 truncate text-gray-800">{suggestion.place.name}</span>
+                  <span className="text-[11px] text-gray-400 flex-shrink-0">{t.common.myPlaces}</span>
+                </>
+              ) : (
+                <>
+                  {suggestion.entry.pinned
+                    ? <Pin size={14} className="text-indigo-500 flex-shrink-0" />
+                    : <Clock size={14} className="text-gray-400 flex-shrink-0" />}
+                  <span className="flex-1 truncate text-gray-700">{suggestion.entry.query}</span>
+                  <button
+                    type="button"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onTogglePin(suggestion.entry.query);
+                    }}
+                    className="p-0.5 text-gray-300 hover:text-indigo-600 md:opacity-0 md:group-hover:opacity-100"
+                    title={suggestion.entry.pinned ? t.searchBox.unpin : t.searchBox.pin}
+                  >
+                    {suggestion.entry.pinned ? <PinOff size={14} /> : <Pin size={14} />}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onRemove(suggestion.entry.query);
+                    }}
+                    className="p-0.5 text-gray-300 hover:text-red-500 md:opacity-0 md:group-hover:opacity-100"
+                    title={t.searchBox.removeFromHistory}
+                  >
+                    <X size={14} />
+                  </button>
+                </>
+              )}
+            </div>
+          ))}
+          {showsHistoryOnly && history.some(entry => !entry.pinned) && (
+            <button
+              type="button"
+              onClick={onClearHistory}
+              className="w-full px-3 py-2 border-t text-xs text-gray-500 hover:bg-gray-50 text-left"
+            >
+              {t.searchBox.clearHistory}
+            </button>
+          )}
+        </div>
+      )}
+    </form>
+  );
+};
@@ -0,0 +1,30 @@
+import React from 'react';
+import { Marker, Tooltip } from 'react-leaflet';
+import { Place, SharedList } from '../types';
+import { emojiIcon } from './mapIcons';
+
+interface SharedListLayerProps {
+  lists: SharedList[];
+  savedPlaceIds: Set<string>; // Drawn by the saved places layer instead
+  onSelect: (place: Place) => void;
+}
+
+// Read-only overlay of lists other people shared with us
+export const SharedListLayer: React.FC<SharedListLayerProps> = ({ lists, savedPlaceIds, onSelect }) => (
+  <>
+    {lists.filter(list => list.visible).flatMap(list =>
+      list.places
+        .filter(place => !savedPlaceIds.has(place.id))
+        .map(place => (
+          <Marker
+            key={`shared-${list.id}-${place.id}`}
+            position={[place.location.latitude, place.location.longitude]}
+            icon={emojiIcon(list.icon, list.color)}
+            eventHandlers={{ click: () => onSelect(place) }}
+          >
+            <Tooltip direction="top" offset={[0, -36]}>{place.name} · {list.name}</Tooltip>
+          </Marker>
+        ))
+    )}
+  </>
+);
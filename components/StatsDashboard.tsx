@@ -0,0 +1,217 @@
+import React, { useMemo, useState } from 'react';
+import { X, Star } from 'lucide-react';
+import { SavedPlace } from '../types';
+import { CUISINE_CATEGORIES } from '../constants';
+import { computeDiaryStats, StatsPeriod, RankedPlace } from '../services/diaryStats';
+import { Messages, categoryText, formatDate } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+
+interface StatsDashboardProps {
+  places: SavedPlace[];
+  onSelectPlace: (place: SavedPlace) => void;
+  onClose: () => void;
+}
+
+const DORMANT_OPTIONS = [1, 3, 6, 12];
+
+const categoryLabel = (category: string | null, t: Messages) => {
+  if (!category) return t.common.uncategorized;
+  const cat = CUISINE_CATEGORIES.find(c => c.name === category);
+  return cat ? `${cat.icon} ${categoryText(cat.name, t).name}` : category;
+};
+
+const periodLabel = (start: number, period: StatsPeriod) =>
+  formatDate(start, period === 'week' ? { month: 'numeric', day: 'numeric' } : { month: 'short' });
+
+const Section: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <section className="space-y-2">
+    <h3 className="text-sm font-semibold text-gray-500 uppercase tracking-wider">{title}</h3>
+    {children}
+  </section>
+);
+
+// Horizontal bar with a label on the left and the value on the right
+const BarRow: React.FC<{ label: React.ReactNode; value: number; max: number; display?: string; color?: string }> = ({
+  label, value, max, display, color = 'bg-indigo-400',
+}) => (
+  <div className="flex items-center gap-2 text-sm">
+    <div className="w-24 flex-shrink-0 truncate text-gray-700">{label}</div>
+    <div className="flex-1 h-3 bg-gray-100 rounded-full overflow-hidden">
+      <div className={`h-full ${color} rounded-full`} style={{ width: `${max > 0 ? (value / max) * 100 : 0}%` }} />
+    </div>
+    <div className="w-10 text-right text-xs text-gray-500">{display ?? value}</div>
+  </div>
+);
+
+export const StatsDashboard: React.FC<StatsDashboardProps> = ({ places, onSelectPlace, onClose }) => {
+  const { t } = useI18n();
+  const [period, setPeriod] = useState<StatsPeriod>('week');
+  const [dormantMonths, setDormantMonths] = useState(3);
+
+  const stats = useMemo(
+    () => computeDiaryStats(places, { period, dormantMonths }),
+    [places, period, dormantMonths]
+  );
+
+  const maxPeriodCount = Math.max(1, ...stats.checkInsByPeriod.map(p => p.count));
+  const maxRatingCount = Math.max(1, ...stats.ratingDistribution);
+  const maxCategoryCount = Math.max(1, ...stats.categories.map(c => c.checkIns));
+
+  const renderRanked = (items: RankedPlace[], metric: (item: RankedPlace) => string) => (
+    <ol className="space-y-1">
+      {items.map((item, i) => (
+        <li key={item.place.id}>
+          <button
+            onClick={() => onSelectPlace(item.place)}
+            className="w-full flex items-center gap-2 text-sm text-left hover:bg-gray-50 rounded px-1 py-0.5"
+          >
+            <span className="w-4 text-gray-400">{i + 1}</span>
+            <span className="flex-1 truncate text-gray-800">{item.place.name}</span>
+            <span className="text-xs text-gray-500">{metric(item)}</span>
+          </button>
+        </li>
+      ))}
+    </ol>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4 animate-in fade-in duration-200">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-2xl overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="p-4 border-b flex justify-between items-center bg-indigo-600 text-white">
+          <h2 className="font-semibold text-lg">{t.stats.title}</h2>
+          <button onClick={onClose} className="hover:bg-indigo-700 p-1 rounded-full transition">
+            <X size={20} />
+          </button>
+        </div>
+
+        {stats.totalCheckIns === 0 ? (
+          <div className="p-12 text-center text-gray-400">{t.stats.empty}</div>
+        ) : (
+          <div className="p-6 space-y-8 overflow-y-auto">
+            {/* Totals */}
+            <div className="grid grid-cols-3 gap-3 text-center">
+              {[
+                { label: t.stats.checkIns, value: stats.totalCheckIns },
+                { label: t.stats.places, value: stats.totalPlaces },
+                { label: t.stats.repeatVisits, value: stats.repeatVisits },
+              ].map(item => (
+                <div key={item.label} className="bg-indigo-50 rounded-lg py-3">
+                  <div className="text-2xl font-bold text-indigo-700">{item.value}</div>
+                  <div className="text-xs text-indigo-500">{item.label}</div>
+                </div>
+              ))}
+            </div>
+
+            <Section title={t.stats.trend}>
+              <div className="flex justify-end gap-1 text-xs">
+                {(['week', 'month'] as StatsPeriod[]).map(p => (
+                  <button
+                    key={p}
+                    onClick={() => setPeriod(p)}
+                    className={`px-2 py-0.5 rounded-full border ${period === p ? 'bg-indigo-600 text-white border-indigo-600' : 'text-gray-500 border-gray-300'}`}
+                  >
+                    {p === 'week' ? t.stats.weekly : t.stats.monthly}
+                  </button>
+                ))}
+              </div>
+              <div className="flex items-end gap-1 h-32">
+                {stats.checkInsByPeriod.map(bucket => (
+                  <div key={bucket.start} className="flex-1 flex flex-col items-center justify-end h-full" title={t.common.times(bucket.count)}>
+                    <span className="text-[10px] text-gray-500">{bucket.count || ''}</span>
+                    <div
+                      className="w-full bg-indigo-400 rounded-t"
+                      style={{ height: `${(bucket.count / maxPeriodCount) * 100}%`, minHeight: bucket.count ? 2 : 0 }}
+                    />
+                  </div>
+                ))}
+              </div>
+              <div className="flex gap-1">
+                {stats.checkInsByPeriod.map(bucket => (
+                  <div key={bucket.start} className="flex-1 text-center text-[10px] text-gray-400">
+                    {periodLabel(bucket.start, period)}
+                  </div>
+                ))}
+              </div>
+            </Section>
+
+            <div className="grid md:grid-cols-2 gap-8">
+              <Section title={t.stats.ratings}>
+                {[5, 4, 3, 2, 1].map(stars => (
+                  <BarRow
+                    key={stars}
+                    label={<span className="flex items-center gap-0.5">{stars} <Star size={12} className="fill-yellow-400 text-yellow-400" /></span>}
+                    value={stats.ratingDistribution[stars - 1]}
+                    max={maxRatingCount}
+                    color="bg-yellow-400"
+                  />
+                ))}
+              </Section>
+
+              <Section title={t.stats.newVsRepeat}>
+                <div className="flex h-4 rounded-full overflow-hidden bg-gray-100">
+                  <div className="bg-emerald-400" style={{ width: `${(stats.newVisits / stats.totalCheckIns) * 100}%` }} />
+                  <div className="bg-indigo-400" style={{ width: `${(stats.repeatVisits / stats.totalCheckIns) * 100}%` }} />
+                </div>
+                <div className="flex justify-between text-xs text-gray-500">
+                  <span>{t.stats.newPlaces(stats.newVisits)}</span>
+                  <span>{t.stats.returns(stats.repeatVisits)}</span>
+                </div>
+              </Section>
+
+              <Section title={t.stats.mostVisited}>
+                {renderRanked(stats.topByVisits, item => t.common.times(item.visits))}
+              </Section>
+
+              <Section title={t.stats.topRated}>
+                {renderRanked(stats.topByRating, item => `★ ${item.average.toFixed(1)}`)}
+              </Section>
+            </div>
+
+            <Section title={t.stats.cuisines}>
+              {stats.categories.map(entry => (
+                <BarRow
+                  key={entry.category ?? 'none'}
+                  label={categoryLabel(entry.category, t)}
+                  value={entry.checkIns}
+                  max={maxCategoryCount}
+                />
+              ))}
+            </Section>
+
+            <Section title={t.stats.dormant}>
+              <div className="flex items-center gap-2 text-xs text-gray-500">
+                <span>{t.stats.dormantBefore}</span>
+                <select
+                  className="px-2 py-0.5 rounded-md border border-gray-300 bg-white"
+                  value={dormantMonths}
+                  onChange={(e) => setDormantMonths(Number(e.target.value))}
+                >
+                  {DORMANT_OPTIONS.map(n => <option key={n} value={n}>{t.stats.months(n)}</option>)}
+                </select>
+                <span>{t.stats.dormantAfter}</span>
+              </div>
+              {stats.dormant.length === 0 ? (
+                <p className="text-sm text-gray-400 italic">{t.stats.noMatches}</p>
+              ) : (
+                <ul className="space-y-1">
+                  {stats.dormant.map(item => (
+                    <li key={item.place.id}>
+                      <button
+                        onClick={() => onSelectPlace(item.place)}
+                        className="w-full flex items-center gap-2 text-sm text-left hover:bg-gray-50 rounded px-1 py-0.5"
+                      >
+                        <span className="flex-1 truncate text-gray-800">{item.place.name}</span>
+                        <span className="text-xs text-gray-500">★ {item.average.toFixed(1)}</span>
+                        <span className="text-xs text-gray-400">{t.stats.lastVisit(formatDate(item.lastVisited))}</span>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </Section>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import { X, Loader2, RefreshCw, CheckCircle2, AlertTriangle } from 'lucide-react';
+import { SyncSettings, SyncStatus } from '../services/syncService';
+import { formatDateTime } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+
+interface SyncPanelProps {
+  settings: SyncSettings;
+  status: SyncStatus;
+  pendingCount: number; // Local changes the server hasn't seen
+  deviceId: string;
+  onSave: (settings: SyncSettings) => void;
+  onSyncNow: () => void;
+  onClose: () => void;
+}
+
+export const formatSyncTime = (timestamp: number) =>
+  formatDateTime(timestamp, { month: 'numeric', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+export const SyncPanel: React.FC<SyncPanelProps> = ({
+  settings, status, pendingCount, deviceId, onSave, onSyncNow, onClose,
+}) => {
+  const { t } = useI18n();
+  const [serverUrl, setServerUrl] = useState(settings.serverUrl);
+  const [token, setToken] = useState(settings.token);
+
+  const isDirty = serverUrl.trim() !== settings.serverUrl || token.trim() !== settings.token;
+  const isEnabled = settings.serverUrl !== '';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4 animate-in fade-in duration-200">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-md overflow-hidden flex flex-col max-h-[85vh]">
+        <div className="p-4 border-b flex justify-between items-center bg-indigo-600 text-white">
+          <h2 className="font-semibold text-lg">{t.sync.title}</h2>
+          <button onClick={onClose} className="hover:bg-indigo-700 p-1 rounded-full transition">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-4 text-sm">
+          <p className="text-gray-500 text-xs">
+            {t.sync.intro}
+          </p>
+
+          <label className="block space-y-1">
+            <span className="text-xs font-semibold text-gray-500">{t.sync.serverUrl}</span>
+            <input
+              type="url"
+              placeholder={t.sync.serverUrlPlaceholder}
+              className="w-full px-3 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+              value={serverUrl}
+              onChange={(e) => setServerUrl(e.target.value)}
+            />
+          </label>
+          <label className="block space-y-1">
+            <span className="text-xs font-semibold text-gray-500">{t.sync.token}</span>
+            <input
+              type="password"
+              className="w-full px-3 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+              value={token}
+              onChange={(e) => setToken(e.target.value)}
+            />
+          </label>
+          <button
+            onClick={() => onSave({ serverUrl: serverUrl.trim(), token: token.trim() })}
+            disabled={!isDirty}
+            className="w-full py-2 rounded-lg bg-indigo-600 text-white font-medium hover:bg-indigo-700 disabled:opacity-40 transition"
+          >
+            {t.sync.saveSettings}
+          </button>
+
+          {isEnabled && (
+            <div className="rounded-lg border border-gray-200 p-3 space-y-2">
+              <div className="flex items-center gap-2">
+                {status.phase === 'syncing' && <Loader2 size={16} className="animate-spin text-indigo-600" />}
+                {status.phase === 'idle' && <CheckCircle2 size={16} className="text-emerald-500" />}
+                {status.phase === 'error' && <AlertTriangle size={16} className="text-amber-500" />}
+                <span className="flex-1 text-gray-700">
+                  {status.phase === 'syncing' ? t.sync.syncing : status.phase === 'error' ? status.error : t.sync.done}
+                </span>
+                <button
+                  onClick={onSyncNow}
+                  disabled={status.phase === 'syncing'}
+                  className="text-xs text-indigo-600 hover:underline disabled:opacity-40 disabled:no-underline flex items-center gap-1"
+                >
+                  <RefreshCw size={12} /> {t.sync.syncNow}
+                </button>
+              </div>
+              <p className="text-xs text-gray-500">
+                {t.sync.lastSynced(status.lastSyncedAt ? formatSyncTime(status.lastSyncedAt) : t.sync.never)}
+                {pendingCount > 0 && ` · ${t.sync.pending(pendingCount)}`}
+              </p>
+            </div>
+          )}
+
+          <p className="text-[11px] text-gray-400">{t.sync.deviceId(deviceId.slice(0, 8))}</p>
+        </div>
+      </div>
+    </div>
+  );
+};
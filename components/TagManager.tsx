@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import { X, Pencil, Trash2, Check } from 'lucide-react';
+import { TagCount } from '../services/tags';
+import { useI18n } from './I18nProvider';
+
+interface TagManagerProps {
+  tags: TagCount[];
+  onRename: (from: string, to: string) => void;
+  onRemove: (tag: string) => void;
+  onClose: () => void;
+}
+
+export const TagManager: React.FC<TagManagerProps> = ({ tags, onRename, onRemove, onClose }) => {
+  const { t } = useI18n();
+  const [editing, setEditing] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+
+  const startEditing = (tag: string) => {
+    setEditing(tag);
+    setDraft(tag);
+  };
+
+  const commitRename = () => {
+    if (!editing) return;
+    const target = draft.trim();
+    if (target && target !== editing) {
+      // Renaming onto an existing tag merges the two
+      const merging = tags.some(t => t.tag === target);
+      if (!merging || confirm(t.tags.confirmMerge(target, editing))) {
+        onRename(editing, target);
+      }
+    }
+    setEditing(null);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4 animate-in fade-in duration-200">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-md overflow-hidden flex flex-col max-h-[80vh]">
+        <div className="p-4 border-b flex justify-between items-center bg-indigo-600 text-white">
+          <h2 className="font-semibold text-lg">{t.tags.title}</h2>
+          <button onClick={onClose} className="hover:bg-indigo-700 p-1 rounded-full transition">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto">
+          {tags.length === 0 ? (
+            <div className="p-8 text-center text-sm text-gray-400">{t.tags.empty}</div>
+          ) : (
+            tags.map(({ tag, count }) => (
+              <div key={tag} className="px-4 py-2 border-b flex items-center gap-2 group">
+                {editing === tag ? (
+                  <>
+                    <input
+                      autoFocus
+                      className="flex-1 px-2 py-1 rounded-md border border-gray-300 text-sm focus:ring-2 focus:ring-indigo-500 focus:outline-none"
+                      value={draft}
+                      onChange={(e) => setDraft(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') commitRename();
+                        if (e.key === 'Escape') setEditing(null);
+                      }}
+                    />
+                    <button onClick={commitRename} className="p-1 rounded text-indigo-600 hover:bg-indigo-50" title={t.common.save}>
+                      <Check size={16} />
+                    </button>
+                  </>
+                ) : (
+                  <>
+                    <span className="flex-1 text-sm text-gray-800">#{tag}</span>
+                    <span className="text-xs text-gray-400">{t.common.places(count)}</span>
+                    <button onClick={() => startEditing(tag)} className="p-1 rounded text-gray-400 hover:text-indigo-600 hover:bg-indigo-50" title={t.tags.renameOrMerge}>
+                      <Pencil size={14} />
+                    </button>
+                    <button
+                      onClick={() => confirm(t.tags.confirmRemove(tag)) && onRemove(tag)}
+                      className="p-1 rounded text-gray-400 hover:text-red-600 hover:bg-red-50"
+                      title={t.common.remove}
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  </>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
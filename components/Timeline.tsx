@@ -1,17 +1,25 @@
-import React from 'react';
-import { CheckIn } from '../types';
+import React, { useState } from 'react';
+import { CheckIn, CheckInPhoto } from '../types';
 import { StarRating } from './StarRating';
-import { Clock } from 'lucide-react';
+import { Clock, Pencil, Trash2, X, Users, Wallet } from 'lucide-react';
+import { formatSpend } from '../services/checkInDetails';
+import { formatDate } from '../services/i18n';
+import { useI18n } from './I18nProvider';
 
 interface TimelineProps {
   checkIns: CheckIn[];
+  onEdit?: (checkIn: CheckIn) => void;
+  onDelete?: (checkIn: CheckIn) => void;
 }
 
-export const Timeline: React.FC<TimelineProps> = ({ checkIns }) => {
+export const Timeline: React.FC<TimelineProps> = ({ checkIns, onEdit, onDelete }) => {
+  const { t } = useI18n();
+  const [viewingPhoto, setViewingPhoto] = useState<CheckInPhoto | null>(null);
+
   if (checkIns.length === 0) {
     return (
       <div className="text-center py-8 text-gray-400 text-sm italic">
-        尚未有打卡紀錄。成為第一個吧！
+        {t.timeline.empty}
       </div>
     );
   }
@@ -21,7 +29,7 @@ export const Timeline: React.FC<TimelineProps> = ({ checkIns }) => {
 
   return (
     <div className="space-y-4 mt-4">
-      <h3 className="text-sm font-semibold text-gray-500 uppercase tracking-wider">歷史紀錄</h3>
+      <h3 className="text-sm font-semibold text-gray-500 uppercase tracking-wider">{t.timeline.history}</h3>
       <div className="border-l-2 border-indigo-100 pl-4 space-y-6">
         {sorted.map((checkIn) => (
           <div key={checkIn.id} className="relative group">
@@ -34,24 +42,109 @@ export const Timeline: React.FC<TimelineProps> = ({ checkIns }) => {
                    <StarRating rating={checkIn.rating} size={14} />
                    <span className="text-xs text-gray-400 flex items-center">
                      <Clock size={10} className="mr-1" />
-                     {new Date(checkIn.timestamp).toLocaleDateString('zh-TW')}
+                     {formatDate(checkIn.timestamp)}
                    </span>
+                   {checkIn.mealType && (
+                     <span className="text-xs text-gray-400">
+                       {t.mealTypes[checkIn.mealType]}
+                     </span>
+                   )}
                 </div>
+                {(onEdit || onDelete) && (
+                  <div className="flex items-center space-x-1 md:opacity-0 md:group-hover:opacity-100 focus-within:opacity-100 transition">
+                    {onEdit && (
+                      <button onClick={() => onEdit(checkIn)} className="p-1 rounded text-gray-400 hover:text-indigo-600 hover:bg-indigo-50" title={t.common.edit}>
+                        <Pencil size={14} />
+                      </button>
+                    )}
+                    {onDelete && (
+                      <button onClick={() => onDelete(checkIn)} className="p-1 rounded text-gray-400 hover:text-red-600 hover:bg-red-50" title={t.common.delete}>
+                        <Trash2 size={14} />
+                      </button>
+                    )}
+                  </div>
+                )}
               </div>
               
               {checkIn.text && (
                 <p className="text-sm text-gray-700 mb-2">{checkIn.text}</p>
               )}
+
+              {checkIn.dishes && checkIn.dishes.length > 0 && (
+                <ul className="mb-2 space-y-1">
+                  {checkIn.dishes.map(dish => {
+                    const photo = dish.photoId && checkIn.photos.find(p => p.id === dish.photoId);
+                    return (
+                      <li key={dish.id} className="flex items-center gap-2 text-sm">
+                        {photo ? (
+                          <button onClick={() => setViewingPhoto(photo)} className="w-6 h-6 flex-shrink-0 rounded overflow-hidden">
+                            <img src={photo.thumbnail || photo.src} alt="" className="w-full h-full object-cover" />
+                          </button>
+                        ) : (
+                          <span className="w-6 text-center text-gray-300">•</span>
+                        )}
+                        <span className="flex-1 truncate text-gray-700">{dish.name}</span>
+                        {dish.rating !== undefined && dish.rating > 0 && <StarRating rating={dish.rating} size={10} />}
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+
+              {(checkIn.spend || (checkIn.partySize !== undefined && checkIn.partySize > 0) || !!checkIn.companions?.length) && (
+                <div className="flex flex-wrap gap-x-3 gap-y-1 mb-2 text-xs text-gray-500">
+                  {checkIn.spend && (
+                    <span className="flex items-center gap-1">
+                      <Wallet size={12} />
+                      {formatSpend(checkIn.spend)}
+                      {checkIn.partySize !== undefined && checkIn.partySize > 1 && (
+                        <span className="text-gray-400">{t.timeline.perPerson(formatSpend({ ...checkIn.spend, amount: checkIn.spend.amount / checkIn.partySize }))}</span>
+                      )}
+                    </span>
+                  )}
+                  {((checkIn.partySize !== undefined && checkIn.partySize > 0) || !!checkIn.companions?.length) && (
+                    <span className="flex items-center gap-1">
+                      <Users size={12} />
+                      {checkIn.partySize !== undefined && checkIn.partySize > 0 && t.units.people(checkIn.partySize)}
+                      {checkIn.partySize !== undefined && checkIn.partySize > 0 && !!checkIn.companions?.length ? ' · ' : ''}
+                      {checkIn.companions?.join(t.common.separator)}
+                    </span>
+                  )}
+                </div>
+              )}
               
-              {checkIn.image && (
-                <div className="rounded-md overflow-hidden mt-2 max-h-40 w-full bg-gray-50">
-                   <img src={checkIn.image} alt="Check-in" className="w-full h-full object-cover" />
+              {checkIn.photos.length > 0 && (
+                <div className={`grid gap-1 mt-2 ${checkIn.photos.length === 1 ? 'grid-cols-1' : 'grid-cols-3'}`}>
+                  {checkIn.photos.map(photo => (
+                    <button
+                      key={photo.id}
+                      onClick={() => setViewingPhoto(photo)}
+                      className={`rounded-md overflow-hidden bg-gray-50 ${checkIn.photos.length === 1 ? 'max-h-40' : 'aspect-square'}`}
+                      title={photo.caption}
+                    >
+                      <img src={photo.thumbnail || photo.src} alt={photo.caption || 'Check-in'} className="w-full h-full object-cover" loading="lazy" />
+                    </button>
+                  ))}
                 </div>
               )}
             </div>
           </div>
         ))}
       </div>
+
+      {/* Full-size photo viewer */}
+      {viewingPhoto && (
+        <div
+          className="fixed inset-0 z-[60] bg-black/80 flex flex-col items-center justify-center p-4"
+          onClick={() => setViewingPhoto(null)}
+        >
+          <button className="absolute top-4 right-4 text-white p-1 rounded-full hover:bg-white/10">
+            <X size={24} />
+          </button>
+          <img src={viewingPhoto.src} alt={viewingPhoto.caption || ''} className="max-w-full max-h-[85vh] rounded-lg" />
+          {viewingPhoto.caption && <p className="text-white text-sm mt-3">{viewingPhoto.caption}</p>}
+        </div>
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,34 @@
+import React, { useEffect } from 'react';
+import { Undo2, X } from 'lucide-react';
+import { useI18n } from './I18nProvider';
+
+interface UndoToastProps {
+  id: string; // Changes for every new toast, even one with the same message
+  message: string;
+  onUndo: () => void;
+  onDismiss: () => void;
+  duration?: number; // ms before the toast hides itself
+}
+
+export const UndoToast: React.FC<UndoToastProps> = ({ id, message, onUndo, onDismiss, duration = 6000 }) => {
+  const { t } = useI18n();
+  useEffect(() => {
+    const timer = setTimeout(onDismiss, duration);
+    return () => clearTimeout(timer);
+  }, [id, onDismiss, duration]);
+
+  return (
+    <div className="fixed bottom-20 md:bottom-6 left-1/2 -translate-x-1/2 z-[70] flex items-center gap-3 bg-gray-900 text-white text-sm pl-4 pr-2 py-2 rounded-full shadow-lg animate-in fade-in slide-in-from-bottom duration-200">
+      <span>{message}</span>
+      <button
+        onClick={onUndo}
+        className="flex items-center gap-1 px-2 py-1 rounded-full font-semibold text-indigo-300 hover:bg-white/10 transition"
+      >
+        <Undo2 size={14} /> {t.undo}
+      </button>
+      <button onClick={onDismiss} className="p-1 rounded-full text-gray-400 hover:bg-white/10 transition">
+        <X size={14} />
+      </button>
+    </div>
+  );
+};
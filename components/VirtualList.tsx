@@ -0,0 +1,55 @@
+import React, { useState, useRef, useLayoutEffect } from 'react';
+
+interface VirtualListProps<T> {
+  items: T[];
+  rowHeight: number; // Every row must render at exactly this height
+  renderRow: (item: T, index: number) => React.ReactNode;
+  getKey: (item: T) => string;
+  overscan?: number; // Extra rows rendered above and below the viewport
+  className?: string;
+}
+
+// Renders only the rows in view so long lists stay fast
+export const VirtualList = <T,>({
+  items,
+  rowHeight,
+  renderRow,
+  getKey,
+  overscan = 6,
+  className = '',
+}: VirtualListProps<T>) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(() => setViewportHeight(container.clientHeight));
+    observer.observe(container);
+    setViewportHeight(container.clientHeight);
+    return () => observer.disconnect();
+  }, []);
+
+  const first = Math.max(0, Math.floor(scrollTop / rowHeight) - overscan);
+  const last = Math.min(items.length, Math.ceil((scrollTop + viewportHeight) / rowHeight) + overscan);
+
+  return (
+    <div
+      ref={containerRef}
+      className={`overflow-y-auto ${className}`}
+      onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+    >
+      <div style={{ height: items.length * rowHeight, position: 'relative' }}>
+        {items.slice(first, last).map((item, i) => (
+          <div
+            key={getKey(item)}
+            style={{ position: 'absolute', top: (first + i) * rowHeight, left: 0, right: 0, height: rowHeight }}
+          >
+            {renderRow(item, first + i)}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,69 @@
+import L from 'leaflet';
+import { SavedPlace, PlaceList } from '../types';
+import { CUISINE_CATEGORIES } from '../constants';
+
+// Custom red icon for saved places without a category
+export const redIcon = new L.Icon({
+  iconUrl: 'https://raw.githubusercontent.com/pointhi/leaflet-color-markers/master/img/marker-icon-2x-red.png',
+  shadowUrl: 'https://cdnjs.cloudflare.com/ajax/libs/leaflet/0.7.7/images/marker-shadow.png',
+  iconSize: [25, 41],
+  iconAnchor: [12, 41],
+  popupAnchor: [1, -34],
+  shadowSize: [41, 41]
+});
+
+const emojiIconCache = new Map<string, L.DivIcon>();
+
+// Leaflet sets a divIcon's html as innerHTML, and list icons and colours can come from a shared list
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+
+// Round pin with the category's emoji, the tip sitting on the coordinate
+export const emojiIcon = (emoji: string, color = '#dc2626'): L.DivIcon => {
+  const key = `${emoji}-${color}`;
+  let icon = emojiIconCache.get(key);
+  if (!icon) {
+    icon = L.divIcon({
+      html: `<div style="width:34px;height:34px;border-radius:50% 50% 50% 0;transform:rotate(-45deg);background:${escapeHtml(color)};box-shadow:0 1px 4px rgba(0,0,0,0.4);display:flex;align-items:center;justify-content:center"><div style="transform:rotate(45deg);width:26px;height:26px;border-radius:9999px;background:#fff;display:flex;align-items:center;justify-content:center;font-size:16px;line-height:1">${escapeHtml(emoji)}</div></div>`,
+      className: '',
+      iconSize: [34, 34],
+      // The rotated square's corner ends up 24px below its centre
+      iconAnchor: [17, 41],
+      popupAnchor: [0, -36],
+    });
+    emojiIconCache.set(key, icon);
+  }
+  return icon;
+};
+
+const HIGHLIGHT_COLOR = '#7c3aed'; // violet-600
+
+// Highlighted places (e.g. answers to a question) always get a pin in the highlight colour;
+// listed places take their list's colour, and its emoji when they have no category
+export const savedPlaceIcon = (
+  place: SavedPlace,
+  highlighted = false,
+  listStyle: Pick<PlaceList, 'icon' | 'color'> | null = null
+): L.Icon | L.DivIcon => {
+  const category = CUISINE_CATEGORIES.find(cat => cat.name === place.category);
+  if (highlighted) return emojiIcon(category?.icon || '⭐', HIGHLIGHT_COLOR);
+  if (listStyle) return emojiIcon(category?.icon || listStyle.icon, listStyle.color);
+  return category ? emojiIcon(category.icon) : redIcon;
+};
+
+const stopIconCache = new Map<number, L.DivIcon>();
+
+// Numbered badge for a food crawl stop, sitting above the place's own pin
+export const routeStopIcon = (number: number): L.DivIcon => {
+  let icon = stopIconCache.get(number);
+  if (!icon) {
+    icon = L.divIcon({
+      html: `<div style="width:22px;height:22px;border-radius:9999px;background:#4f46e5;border:2px solid #fff;color:#fff;font-weight:700;font-size:12px;display:flex;align-items:center;justify-content:center;box-shadow:0 1px 3px rgba(0,0,0,0.4)">${number}</div>`,
+      className: '',
+      iconSize: [22, 22],
+      iconAnchor: [11, 60],
+    });
+    stopIconCache.set(number, icon);
+  }
+  return icon;
+};
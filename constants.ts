@@ -0,0 +1,34 @@
+import { MealType } from './types';
+
+// Labels are in the message catalogs (locales/), by name
+export interface CuisineCategory {
+  name: string; // What a place's `category` stores, in Chinese whatever the app's language
+  icon: string;
+}
+
+export const CUISINE_CATEGORIES: CuisineCategory[] = [
+  { name: '台式', icon: '🍚' },
+  { name: '日式', icon: '🍣' },
+  { name: '韓式', icon: '🥘' },
+  { name: '火鍋', icon: '🍲' },
+  { name: '義式', icon: '🍝' },
+  { name: '美式', icon: '🍔' },
+  { name: '早午餐', icon: '🍳' },
+  { name: '咖啡廳', icon: '☕' },
+  { name: '甜點', icon: '🍰' },
+  { name: '酒吧', icon: '🍺' },
+];
+
+export const MEAL_TYPES: { value: MealType; icon: string }[] = [
+  { value: 'breakfast', icon: '🌅' },
+  { value: 'lunch', icon: '☀️' },
+  { value: 'dinner', icon: '🌆' },
+  { value: 'late-night', icon: '🌙' },
+];
+
+// Offered in the check-in form; the first one is the default
+export const CURRENCIES = ['TWD', 'JPY', 'KRW', 'HKD', 'USD', 'EUR'];
+
+// Marker styles handed out to new lists, in order
+export const LIST_COLORS = ['#f59e0b', '#ec4899', '#10b981', '#3b82f6', '#8b5cf6', '#ef4444'];
+export const LIST_ICONS = ['📌', '❤️', '👨‍👩‍👧', '⭐', '🎉', '🍜', '🍷', '🧋'];
@@ -1,6 +1,8 @@
+/// <reference types="vite/client" />
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { I18nProvider } from './components/I18nProvider';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -10,6 +12,18 @@ if (!rootElement) {
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    <I18nProvider>
+      <App />
+    </I18nProvider>
   </React.StrictMode>
-);
\ No newline at end of file
+);
+
+// Offline support: app shell, marker images and downloaded map tiles (see public/sw.js).
+// Builds only: under the dev server it would cache modules that change on every edit.
+if (import.meta.env.PROD && 'serviceWorker' in navigator) {
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch(error => {
+      console.error("Service worker registration failed", error);
+    });
+  });
+}
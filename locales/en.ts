@@ -0,0 +1,490 @@
+import { MealType } from '../types';
+import type { Messages } from './zh-TW';
+
+// "1 place", "2 places"
+const plural = (count: number, one: string, many = `${one}s`) => `${count} ${count === 1 ? one : many}`;
+
+export const en: Messages = {
+  common: {
+    cancel: 'Cancel',
+    save: 'Save',
+    delete: 'Delete',
+    remove: 'Remove',
+    edit: 'Edit',
+    retry: 'Retry',
+    clear: 'Clear',
+    all: 'All',
+    any: 'Any',
+    uncategorized: 'Uncategorized',
+    noAddress: 'No address',
+    saved: 'Saved',
+    myPlaces: 'My places',
+    rename: 'Rename',
+    showOnMap: 'Show on map',
+    hideOnMap: 'Hide on map',
+    language: 'Language',
+    aiQuota: 'The AI usage quota has run out. Please try again later.',
+    importFailed: 'Import failed. Please check that the file is correct.',
+    photosRejected: (failures: string[]) => `These photos couldn't be added:\n${failures.join('\n')}`,
+    photoFailure: (file: string, reason: string) => `${file}: ${reason}`,
+    visits: (count: number) => plural(count, 'visit'),
+    places: (count: number) => plural(count, 'place'),
+    times: (count: number) => plural(count, 'time'),
+    atLeastStars: (stars: string) => `${stars} & up`,
+    quoted: (text: string) => `"${text}"`,
+    separator: ', ',
+  },
+
+  categories: {
+    '台式': { name: 'Taiwanese', label: 'Taiwanese food' },
+    '日式': { name: 'Japanese', label: 'Japanese food' },
+    '韓式': { name: 'Korean', label: 'Korean food' },
+    '火鍋': { name: 'Hot pot', label: 'Hot pot' },
+    '義式': { name: 'Italian', label: 'Italian food' },
+    '美式': { name: 'American', label: 'American diner' },
+    '早午餐': { name: 'Brunch', label: 'Brunch' },
+    '咖啡廳': { name: 'Café', label: 'Café' },
+    '甜點': { name: 'Dessert', label: 'Dessert' },
+    '酒吧': { name: 'Bar', label: 'Bar' },
+  },
+
+  mealTypes: {
+    breakfast: 'Breakfast',
+    lunch: 'Lunch',
+    dinner: 'Dinner',
+    'late-night': 'Late night',
+  } as Record<MealType, string>,
+
+  units: {
+    meters: (value: string) => `${value} m`,
+    kilometers: (value: string) => `${value} km`,
+    within: (distance: string) => `Within ${distance}`,
+    minutes: (minutes: number) => `${minutes} min`,
+    hours: (hours: number) => `${hours} h`,
+    hoursMinutes: (hours: number, minutes: number) => `${hours} h ${minutes} min`,
+    people: (count: number) => plural(count, 'person', 'people'),
+  },
+
+  app: {
+    title: 'Gourmet Map',
+    documentTitle: 'Gourmet Map - AI Food Diary',
+    offlineUse: 'Offline use',
+    offlineNow: 'Offline',
+    offlineBadge: 'Offline',
+    quickCheckIn: 'Check in from a photo',
+    diary: 'Food diary',
+    stats: 'My stats',
+    lists: 'My lists',
+    manageTags: 'Manage tags',
+    sync: 'Sync devices',
+    syncSetup: 'Set up sync',
+    syncing: 'Syncing',
+    syncFailed: 'Sync failed',
+    syncedAt: (time: string) => `Synced ${time}`,
+    notSynced: 'Not synced yet',
+    storageUsed: (usage: string, quota: string) => `${usage} of ${quota} used`,
+    syncError: 'Sync failed.',
+    storageUnavailable: "Can't access the data saved on this device.",
+    sharedListUnreadable: "Can't read the shared list.",
+    importSharedTitle: 'Import shared list',
+    importSharedMessage: (list: string, count: number) =>
+      `"${list}" has ${plural(count, 'place')}.\nAdd it to the map as a read-only layer?`,
+    importSharedAction: 'Add',
+    queuedSearchDone: (query: string) =>
+      `The search for "${query}" queued while offline is done. See the results in the Offline use panel.`,
+    searchQueued: "You're offline. The search has been queued and will run once you're back online.",
+    noResults: (query: string) => `No places found for "${query}".`,
+    categoryQuery: (category: string) => `${category} nearby`,
+    maxCrawlStops: (count: number) => `A food crawl can have at most ${count} stops.`,
+    placeRemoved: (name: string) => `Removed "${name}"`,
+    checkInDeleted: 'Check-in deleted',
+    deleteCheckInTitle: 'Delete check-in',
+    deleteCheckInMessage: 'Delete this check-in?',
+    deleteLastCheckInTitle: 'Delete last check-in',
+    deleteLastCheckInMessage: (name: string) =>
+      `This is the only check-in at "${name}".\nKeep the place saved, or remove it as well?`,
+    removePlace: 'Remove place',
+    keepPlace: 'Keep saved',
+    unsaveTitle: 'Remove from saved',
+    unsaveWithCheckIns: (name: string, count: number) =>
+      `Remove "${name}" and its ${plural(count, 'check-in')}?`,
+    unsave: (name: string) => `Remove "${name}"?`,
+    exploreNearby: 'Explore food nearby',
+    noDiaryMatches: 'No matching places.',
+    searchResults: 'Search results',
+    sortByTaste: 'Sort by my taste',
+    outsideMap: 'Off the map',
+    visitedTimes: (count: number) => `Been ${plural(count, 'time')}`,
+    lastTime: 'Last time',
+    noSavedPlaces: 'No saved places yet.',
+    noSavedPlacesHint: 'Search and check in to build your map!',
+    noFilterMatches: 'No places match the filters.',
+    showMap: 'Show map',
+    showList: 'Show list',
+    yourPosition: (accuracy: string) => `You are here (within about ${accuracy})`,
+    searchThisArea: 'Search this area',
+    defaultCenter: 'The map is centred on Taipei for now.',
+    openInGoogleMaps: 'Open in Google Maps',
+    addToCrawl: 'Add to food crawl',
+    removeFromCrawl: 'Remove from food crawl',
+    checkInNow: 'Check in',
+  },
+
+  geolocationErrors: {
+    denied: 'Location access was denied. Allow it in your browser settings to see your position.',
+    unavailable: "Your position isn't available right now.",
+    timeout: 'Finding your position took too long. Try again somewhere with a better signal.',
+    unsupported: "This browser doesn't support location.",
+  },
+
+  searchErrors: {
+    quota: 'The AI search quota has run out. Please try again later.',
+    auth: 'The Gemini API key is invalid or missing, so AI search is unavailable.',
+    network: 'Network error. Check your connection and try again.',
+    unknown: 'Something went wrong while searching. Please try again later.',
+  },
+
+  searchBox: {
+    placeholder: 'Search restaurants, places...',
+    recent: 'Recent searches',
+    pin: 'Pin',
+    unpin: 'Unpin',
+    removeFromHistory: 'Remove from history',
+    clearHistory: 'Clear search history (keeps pinned)',
+    savedPlacesProvider: 'My saved places',
+  },
+
+  checkIn: {
+    editTitle: (place: string) => `Edit check-in at ${place}`,
+    newTitle: (place: string) => `Check in at ${place}`,
+    ratingRequired: 'Please give a rating!',
+    futureTime: "The check-in time can't be in the future!",
+    invalidSpend: 'Please enter a valid amount!',
+    howWasIt: 'How was it?',
+    mealTime: 'Meal',
+    photos: 'Photos',
+    dishes: 'What you ordered',
+    spend: 'Spent',
+    spendPlaceholder: 'Total',
+    partySize: 'Party size',
+    partySizePlaceholder: 'People',
+    companions: 'With',
+    companionsPlaceholder: 'Separate names with commas, e.g. Alex, Sam',
+    notes: 'Notes',
+    notesPlaceholder: 'What did you eat? How was the atmosphere?',
+    describing: 'AI is writing a description...',
+    describeLater: "You're offline. Photo descriptions will be written once you're back online.",
+    saveChanges: 'Save changes',
+    saveCheckIn: 'Save check-in',
+    fallbackDescription: 'Looks delicious!',
+  },
+
+  quickCheckIn: {
+    title: 'Check in from a photo',
+    nearbyQuery: 'restaurant',
+    noLocation: 'The photo has no location. Please search for the place.',
+    nearbySearchFailed: 'Something went wrong looking for nearby places. Please search for the place.',
+    nothingNearby: 'No restaurants found near where the photo was taken. Please search for the place.',
+    searchFailed: 'Something went wrong while searching. Please try again later.',
+    reading: 'Reading photos…',
+    pickPhotos: 'Pick photos of a meal to find the place and time',
+    changePhotos: 'Pick other photos',
+    takenAt: (time: string) => `Taken ${time}`,
+    noTime: "The photo has no time; the current time will be used",
+    isThisIt: 'Is it one of these?',
+    searchOther: 'Not here? Search for another place',
+    findingNearby: 'Looking for nearby places…',
+  },
+
+  timeline: {
+    empty: 'No check-ins yet. Be the first!',
+    history: 'History',
+    perPerson: (amount: string) => ` (${amount} per person)`,
+  },
+
+  offline: {
+    title: 'Offline use',
+    tilesFailed: (count: number) => `${plural(count, 'tile')} failed to download. You can try again later.`,
+    downloadFailed: 'Downloading the offline map failed.',
+    confirmClear: 'Delete all downloaded offline maps?',
+    searchRequest: (query: string) => `Search "${query}"`,
+    photoRequest: (place: string) => `Photo description · ${place}`,
+    deletedPlace: 'Deleted place',
+    online: 'Online',
+    offlineHint: "You're offline. AI requests are queued and retried once you're back online.",
+    pending: (count: number) => `Pending AI requests (${count})`,
+    retryNow: 'Retry now',
+    noPending: 'No pending requests.',
+    attempts: (count: number) => `Retried ${plural(count, 'time')}`,
+    viewResults: (count: number) => `View ${plural(count, 'result')}`,
+    waiting: 'Waiting for connection',
+    maps: 'Offline maps',
+    unsupported: "This browser doesn't support offline maps.",
+    mapsHint: 'Download the tiles for the area the map shows, so it stays visible offline.',
+    zoomFrom: (zoom: number) => `Zoom ${zoom} to`,
+    tileCount: (count: string) => `about ${count} tiles`,
+    tooMany: (max: string) => `Too large (limit ${max} tiles). Zoom in or lower the zoom level.`,
+    failedTiles: (count: number) => ` (${count} failed)`,
+    cancelDownload: 'Cancel download',
+    download: 'Download this area',
+    clearMaps: 'Delete offline maps',
+    downloaded: (count: string) => `${count} tiles downloaded`,
+    attribution: 'Map data © OpenStreetMap contributors',
+  },
+
+  stats: {
+    title: 'My food stats',
+    empty: 'No check-ins yet. Check in somewhere to see your stats!',
+    checkIns: 'Check-ins',
+    places: 'Places',
+    repeatVisits: 'Return visits',
+    trend: 'Check-ins over time',
+    weekly: 'Weekly',
+    monthly: 'Monthly',
+    ratings: 'Ratings',
+    newVsRepeat: 'New vs. return',
+    newPlaces: (count: number) => `🆕 New ${count}`,
+    returns: (count: number) => `🔁 Return ${count}`,
+    mostVisited: 'Most visited',
+    topRated: 'Top rated',
+    cuisines: 'Cuisines',
+    dormant: "Haven't been in a while",
+    dormantBefore: 'Places rated 4★+ on average, not visited for over',
+    months: (count: number) => plural(count, 'month'),
+    dormantAfter: '',
+    noMatches: 'No matching places.',
+    lastVisit: (date: string) => `Last ${date}`,
+  },
+
+  lists: {
+    title: 'My lists',
+    suggestedNames: ['Want to go', 'Date night', 'With the family'],
+    duplicateName: (name: string) => `There is already a list called "${name}".`,
+    linkCopied: (name: string) => `Copied the share link for "${name}".`,
+    copyLink: 'Copy this share link:',
+    confirmDeleteWithPlaces: (name: string, count: number) =>
+      `Delete "${name}"? Its ${plural(count, 'place')} will stay saved.`,
+    confirmDelete: (name: string) => `Delete "${name}"?`,
+    newListName: 'New list name',
+    create: 'Create',
+    empty: 'No lists yet. Add a place to a list from its info card.',
+    share: 'Copy share link',
+    downloadFile: 'Download list file',
+    shared: 'Shared with me (read-only)',
+    importFile: 'Import file',
+    sharedEmpty: 'Open a share link or import a list file to show it on the map as its own layer.',
+    confirmRemoveShared: (name: string) => `Remove the "${name}" layer?`,
+    list: 'Lists',
+  },
+
+  savedFilters: {
+    sortOptions: {
+      added: 'Date saved',
+      lastVisited: 'Last visited',
+      visitCount: 'Most visited',
+      averageRating: 'Average rating',
+      latestRating: 'Latest rating',
+      distance: 'Nearest',
+    },
+    placeholder: 'Search names, addresses, notes',
+    filters: 'Filters',
+    minRating: 'Minimum average rating',
+    category: 'Cuisine',
+    list: 'List',
+    visitedFrom: 'Visited from',
+    visitedTo: 'Visited until',
+    shown: (shown: number, total: number) => `Showing ${shown} of ${plural(total, 'place')}`,
+    reset: 'Clear filters',
+  },
+
+  sync: {
+    title: 'Sync devices',
+    intro: 'Connect to your own sync server to keep saved places and check-ins the same on your laptop and phone. Lists and shared layers are not synced.',
+    serverUrl: 'Server URL',
+    serverUrlPlaceholder: 'e.g. http://localhost:8787 (leave empty to turn sync off)',
+    token: 'Access token (optional)',
+    saveSettings: 'Save settings',
+    syncing: 'Syncing…',
+    done: 'Up to date',
+    syncNow: 'Sync now',
+    lastSynced: (time: string) => `Last synced: ${time}`,
+    never: 'never',
+    pending: (count: number) => `${plural(count, 'change')} waiting to upload`,
+    deviceId: (id: string) => `This device: ${id}`,
+    unreachable: "Can't reach the sync server.",
+    tokenRejected: 'The sync server rejected the access token.',
+    serverError: (status: number) => `The sync server returned an error (${status}).`,
+  },
+
+  tags: {
+    title: 'Manage tags',
+    confirmMerge: (target: string, tag: string) => `"${target}" already exists. Merge "${tag}" into it?`,
+    empty: 'No tags yet. Add them from a place\'s info card.',
+    renameOrMerge: 'Rename or merge',
+    confirmRemove: (tag: string) => `Remove "${tag}" from every place?`,
+    category: 'Type',
+    tags: 'Tags',
+    addTag: 'Add a tag…',
+  },
+
+  dataTransfer: {
+    conflicts: (count: number) =>
+      `${plural(count, 'record')} differ from your current data.\nPress OK to use the backup's version, or Cancel to keep yours.`,
+    imported: (places: number, checkIns: number, lists: number, overwritten: number) =>
+      `Import done: added ${plural(places, 'place')}, ${plural(checkIns, 'check-in')}` +
+      (lists ? `, ${plural(lists, 'list')}` : '') +
+      (overwritten ? `; replaced ${plural(overwritten, 'record')}` : '') + '.',
+    exportArchive: 'Export backup',
+    importArchive: 'Import backup',
+    exportGeoJson: 'Export GeoJSON',
+  },
+
+  summary: {
+    title: 'AI summary',
+    order: 'Order',
+    avoid: 'Avoid',
+    trend: 'Trend',
+    failed: "Couldn't write a summary.",
+    loading: 'Going through your visits…',
+  },
+
+  crawl: {
+    title: (stops: number) => `Food crawl · ${plural(stops, 'stop')}`,
+    walking: (distance: string, duration: string) => `Walk ${distance} · about ${duration}`,
+    straightLine: (distance: string, duration: string) => `Straight line ${distance} · about ${duration}`,
+    replan: 'Replan from my position',
+    clear: 'Clear route',
+    fallback: (reason: string) => `${reason}, so stops are ordered by straight-line distance and times are rough estimates.`,
+    fromStart: (distance: string, duration: string) => `From my position ${distance} · ${duration}`,
+    fromPrevious: (distance: string, duration: string) => `From previous stop ${distance} · ${duration}`,
+    removeStop: 'Remove from route',
+    noRouter: 'No routing service is set up',
+    routerUnavailable: (router: string) => `${router} is unavailable`,
+  },
+
+  photos: {
+    remove: 'Remove photo',
+    moveEarlier: 'Move earlier',
+    moveLater: 'Move later',
+    caption: 'Caption',
+    processing: 'Processing…',
+    add: 'Take or upload',
+    cantCompress: "Couldn't compress the photo.",
+    unsupportedBrowser: "This browser can't process photos.",
+    unreadable: "Can't read this photo format. Please use JPEG or PNG.",
+  },
+
+  location: {
+    nearbyPrompt: 'Remind me to check in near saved places',
+    distance: 'Distance',
+    nearbySettings: 'Nearby reminders',
+    stopWatching: 'Stop following my position',
+    startWatching: 'Follow my position',
+    recenter: 'Go to my position',
+  },
+
+  diary: {
+    title: 'Food diary',
+    feed: 'Feed',
+    calendar: 'Calendar',
+    empty: 'No check-ins yet.',
+  },
+
+  nearby: {
+    youreNear: (place: string, distance: string) => `You're near "${place}" (${distance})`,
+    firstVisit: 'You finally made it to a saved place! Check in?',
+    returnVisit: (count: number) => `You've been here ${plural(count, 'time')}. Check in?`,
+    checkIn: 'Check in',
+    later: 'Later',
+  },
+
+  dishes: {
+    name: 'Dish',
+    remove: 'Remove dish',
+    linkPhoto: 'Link this photo',
+    unlinkPhoto: 'Unlink photo',
+    add: 'Add dish',
+    liked: 'Recommended dishes',
+    ordered: (count: number) => `Ordered ${plural(count, 'time')}`,
+  },
+
+  ask: {
+    examples: ['Japanese places rated 4 stars or more last month', "The nearest café I've been to less than twice"],
+    placeholder: 'Ask my map…',
+    failed: "Couldn't understand the question. Try phrasing it differently.",
+  },
+
+  diaryQuery: {
+    minRating: (rating: number) => `★ ${rating}+`,
+    within: (distance: string) => `📍 Within ${distance}`,
+    minVisits: (count: number) => `Been ${plural(count, 'time')} or more`,
+    neverVisited: 'Never been',
+    maxVisits: (count: number) => `Been at most ${plural(count, 'time')}`,
+    sortBy: {
+      distance: 'Nearest first',
+      averageRating: 'Top rated',
+      visitCount: 'Most visited',
+      lastVisited: 'Last visited',
+    },
+    limit: (count: number) => `Top ${count}`,
+  },
+
+  taste: {
+    favourites: (categories: string) => `Likes ${categories}`,
+    spendRange: (low: string, high: string) => `${low}–${high} per person`,
+    usualRange: (distance: string) => `Usually within ${distance}`,
+    worthReturning: (average: string) => `We gave it ★${average} on average; worth going back`,
+    lowLastRating: (rating: number) => `Only ${rating} stars last time`,
+    pricier: 'Pricier than usual',
+    usualPrice: 'In your usual price range',
+    likedCategory: (category: string, average: string) => `You often go for ${category} (avg ★${average})`,
+    dislikedCategory: (category: string) => `${category} usually rates low for you`,
+    withinRange: (distance: string) => `Within your usual range (${distance})`,
+    farther: (distance: string) => `Farther than usual (${distance})`,
+    googleRating: (rating: string, reviews: number | undefined) =>
+      `Google ★${rating}${reviews ? `, ${plural(reviews, 'review')}` : ''}`,
+  },
+
+  storage: {
+    full: 'Storage is full. Delete some photos or records and try again.',
+    failed: "Couldn't save your data. Please try again later.",
+    unsupported: "This browser doesn't support a local database.",
+    unavailable: "Couldn't open the local database.",
+  },
+
+  listShare: {
+    notAList: "This isn't a Gourmet Map shared list.",
+    tooNew: 'This list comes from a newer version of Gourmet Map. Please update the app first.',
+    incomplete: 'The shared list is incomplete.',
+    brokenLink: 'The share link is broken or incomplete.',
+    unreadableFile: "Can't read the list file.",
+  },
+
+  archive: {
+    invalid: (path: string, problem: string) => `Invalid backup file: ${path} ${problem}`,
+    problems: {
+      object: 'must be an object',
+      nonEmptyString: 'must be a non-empty string',
+      string: 'must be a string',
+      number: 'must be a number',
+      positiveInteger: 'must be a whole number above 0',
+      boolean: 'must be true or false',
+      array: 'must be an array',
+      stringArray: 'must be an array of strings',
+      placeMismatch: "doesn't match its place",
+      rating: 'must be between 1 and 5',
+      spend: 'must have an amount and a currency',
+      mealType: 'is not a valid meal',
+      listIcon: 'must be a single emoji',
+      color: 'must be a colour like #RRGGBB',
+      latitude: 'is not a valid latitude',
+      longitude: 'is not a valid longitude',
+      format: 'is not a Gourmet Map backup',
+    },
+    tooNew: 'This backup comes from a newer version of Gourmet Map. Please update the app first.',
+    unreadable: "Can't read the backup file; it may be damaged.",
+    missingPhoto: (path: string) => `The backup is missing a photo: ${path}`,
+  },
+
+  undo: 'Undo',
+};
@@ -0,0 +1,486 @@
+import { MealType } from '../types';
+import type { Messages } from './zh-TW';
+
+export const ja: Messages = {
+  common: {
+    cancel: 'キャンセル',
+    save: '保存',
+    delete: '削除',
+    remove: '削除',
+    edit: '編集',
+    retry: '再試行',
+    clear: 'クリア',
+    all: 'すべて',
+    any: '指定なし',
+    uncategorized: '未分類',
+    noAddress: '住所情報なし',
+    saved: '保存済み',
+    myPlaces: 'お気に入り',
+    rename: '名前を変更',
+    showOnMap: '地図に表示',
+    hideOnMap: '地図で非表示',
+    language: '言語',
+    aiQuota: 'AI の利用上限に達しました。しばらくしてからお試しください。',
+    importFailed: '読み込みに失敗しました。ファイルが正しいか確認してください。',
+    photosRejected: (failures: string[]) => `次の写真は追加できませんでした：\n${failures.join('\n')}`,
+    photoFailure: (file: string, reason: string) => `${file}：${reason}`,
+    visits: (count: number) => `${count} 回訪問`,
+    places: (count: number) => `${count} 件`,
+    times: (count: number) => `${count} 回`,
+    atLeastStars: (stars: string) => `${stars} 以上`,
+    quoted: (text: string) => `「${text}」`,
+    separator: '、',
+  },
+
+  categories: {
+    '台式': { name: '台湾', label: '台湾料理' },
+    '日式': { name: '和食', label: '和食' },
+    '韓式': { name: '韓国', label: '韓国料理' },
+    '火鍋': { name: '火鍋', label: '火鍋' },
+    '義式': { name: 'イタリアン', label: 'イタリア料理' },
+    '美式': { name: 'アメリカン', label: 'アメリカンレストラン' },
+    '早午餐': { name: 'ブランチ', label: 'ブランチ' },
+    '咖啡廳': { name: 'カフェ', label: 'カフェ' },
+    '甜點': { name: 'スイーツ', label: 'スイーツ' },
+    '酒吧': { name: 'バー', label: 'バー' },
+  },
+
+  mealTypes: {
+    breakfast: '朝食',
+    lunch: '昼食',
+    dinner: '夕食',
+    'late-night': '夜食',
+  } as Record<MealType, string>,
+
+  units: {
+    meters: (value: string) => `${value} m`,
+    kilometers: (value: string) => `${value} km`,
+    within: (distance: string) => `${distance}以内`,
+    minutes: (minutes: number) => `${minutes} 分`,
+    hours: (hours: number) => `${hours} 時間`,
+    hoursMinutes: (hours: number, minutes: number) => `${hours} 時間 ${minutes} 分`,
+    people: (count: number) => `${count} 人`,
+  },
+
+  app: {
+    title: 'グルメマップ',
+    documentTitle: 'グルメマップ - AI グルメ日記',
+    offlineUse: 'オフライン利用',
+    offlineNow: 'オフライン',
+    offlineBadge: 'オフライン中',
+    quickCheckIn: '写真でクイックチェックイン',
+    diary: 'グルメ日記',
+    stats: 'マイ統計',
+    lists: 'マイリスト',
+    manageTags: 'タグ管理',
+    sync: 'デバイス間同期',
+    syncSetup: '同期を設定',
+    syncing: '同期中',
+    syncFailed: '同期失敗',
+    syncedAt: (time: string) => `${time} に同期済み`,
+    notSynced: '未同期',
+    storageUsed: (usage: string, quota: string) => `${usage} / ${quota} 使用中`,
+    syncError: '同期に失敗しました。',
+    storageUnavailable: 'この端末のデータにアクセスできません。',
+    sharedListUnreadable: '共有リストを読み込めません。',
+    importSharedTitle: '共有リストを読み込む',
+    importSharedMessage: (list: string, count: number) =>
+      `「${list}」には ${count} 件の場所があります。\n読み取り専用のレイヤーとして地図に追加しますか？`,
+    importSharedAction: '追加',
+    queuedSearchDone: (query: string) =>
+      `オフライン中に予約した「${query}」の検索が完了しました。オフライン利用パネルで結果を確認できます。`,
+    searchQueued: 'オフラインのため、検索を予約しました。接続が戻ると自動で再試行します。',
+    noResults: (query: string) => `「${query}」に一致する場所が見つかりません。`,
+    categoryQuery: (category: string) => `近くの${category}`,
+    maxCrawlStops: (count: number) => `食べ歩きルートは最大 ${count} か所までです。`,
+    placeRemoved: (name: string) => `「${name}」を削除しました`,
+    checkInDeleted: 'チェックインを削除しました',
+    deleteCheckInTitle: 'チェックインを削除',
+    deleteCheckInMessage: 'このチェックインを削除しますか？',
+    deleteLastCheckInTitle: '最後のチェックインを削除',
+    deleteLastCheckInMessage: (name: string) =>
+      `「${name}」のチェックインはこれだけです。\nこの場所をお気に入りに残しますか？それとも一緒に削除しますか？`,
+    removePlace: '場所を削除',
+    keepPlace: 'お気に入りに残す',
+    unsaveTitle: 'お気に入りから削除',
+    unsaveWithCheckIns: (name: string, count: number) => `「${name}」と ${count} 件のチェックインを削除しますか？`,
+    unsave: (name: string) => `「${name}」を削除しますか？`,
+    exploreNearby: '近くのグルメを探す',
+    noDiaryMatches: '一致する場所がありません。',
+    searchResults: '検索結果',
+    sortByTaste: '好みの順に並べる',
+    outsideMap: '地図の範囲外',
+    visitedTimes: (count: number) => `${count} 回訪問`,
+    lastTime: '前回',
+    noSavedPlaces: 'お気に入りの場所はまだありません。',
+    noSavedPlacesHint: '検索してチェックインし、自分の地図を作りましょう！',
+    noFilterMatches: '条件に一致する場所がありません。',
+    showMap: '地図に切り替え',
+    showList: 'リストを表示',
+    yourPosition: (accuracy: string) => `現在地（誤差 約 ${accuracy}）`,
+    searchThisArea: 'このエリアを検索',
+    defaultCenter: '地図は仮に台北市を中心にしています。',
+    openInGoogleMaps: 'Google マップで開く',
+    addToCrawl: '食べ歩きルートに追加',
+    removeFromCrawl: '食べ歩きルートから外す',
+    checkInNow: 'チェックイン',
+  },
+
+  geolocationErrors: {
+    denied: '位置情報の利用が拒否されました。現在地を表示するには、ブラウザの設定で許可してください。',
+    unavailable: '現在地を取得できません。',
+    timeout: '位置情報の取得がタイムアウトしました。電波の良い場所でもう一度お試しください。',
+    unsupported: 'このブラウザは位置情報に対応していません。',
+  },
+
+  searchErrors: {
+    quota: 'AI 検索の利用上限に達しました。しばらくしてからお試しください。',
+    auth: 'Gemini API キーが無効か未設定のため、AI 検索を利用できません。',
+    network: 'ネットワークに接続できません。接続を確認してもう一度お試しください。',
+    unknown: '検索中にエラーが発生しました。しばらくしてからお試しください。',
+  },
+
+  searchBox: {
+    placeholder: 'レストランや場所を検索...',
+    recent: '最近の検索',
+    pin: 'ピン留め',
+    unpin: 'ピン留めを解除',
+    removeFromHistory: '履歴から削除',
+    clearHistory: '検索履歴を消去（ピン留めは残す）',
+    savedPlacesProvider: '保存した場所',
+  },
+
+  checkIn: {
+    editTitle: (place: string) => `${place} のチェックインを編集`,
+    newTitle: (place: string) => `${place} にチェックイン`,
+    ratingRequired: '評価を付けてください！',
+    futureTime: 'チェックイン時刻を未来にはできません！',
+    invalidSpend: '正しい金額を入力してください！',
+    howWasIt: 'いかがでしたか？',
+    mealTime: '食事の時間帯',
+    photos: '写真',
+    dishes: '注文したもの',
+    spend: '支払金額',
+    spendPlaceholder: '合計',
+    partySize: '人数',
+    partySizePlaceholder: '何名',
+    companions: '同行者',
+    companionsPlaceholder: '読点やカンマで区切る（例：太郎、花子）',
+    notes: 'メモ',
+    notesPlaceholder: '何を食べましたか？雰囲気は？',
+    describing: 'AI が説明を作成中...',
+    describeLater: 'オフラインです。保存すると、接続が戻ったときに写真の説明を自動で作成します。',
+    saveChanges: '変更を保存',
+    saveCheckIn: 'チェックインを保存',
+    fallbackDescription: 'おいしそう！',
+  },
+
+  quickCheckIn: {
+    title: '写真でクイックチェックイン',
+    nearbyQuery: 'レストラン',
+    noLocation: '写真に位置情報がありません。場所を検索してください。',
+    nearbySearchFailed: '近くの場所を探す際にエラーが発生しました。場所を検索してください。',
+    nothingNearby: '写真の近くにレストランが見つかりません。場所を検索してください。',
+    searchFailed: '検索中にエラーが発生しました。しばらくしてからお試しください。',
+    reading: '写真を読み込み中…',
+    pickPhotos: '食事の写真を選ぶと、場所と時間を自動で見つけます',
+    changePhotos: '別の写真を選ぶ',
+    takenAt: (time: string) => `${time} に撮影`,
+    noTime: '写真に撮影日時がないため、現在時刻を使います',
+    isThisIt: 'ここですか？',
+    searchOther: '違う場合は、ほかの場所を検索',
+    findingNearby: '近くの場所を探しています…',
+  },
+
+  timeline: {
+    empty: 'チェックインはまだありません。最初の一件を記録しましょう！',
+    history: '履歴',
+    perPerson: (amount: string) => `（1人あたり ${amount}）`,
+  },
+
+  offline: {
+    title: 'オフライン利用',
+    tilesFailed: (count: number) => `${count} 枚のタイルをダウンロードできませんでした。後でもう一度お試しください。`,
+    downloadFailed: 'オフライン地図のダウンロードに失敗しました。',
+    confirmClear: 'ダウンロードしたオフライン地図をすべて削除しますか？',
+    searchRequest: (query: string) => `「${query}」を検索`,
+    photoRequest: (place: string) => `写真の説明 · ${place}`,
+    deletedPlace: '削除された場所',
+    online: 'オンライン',
+    offlineHint: 'オフラインです。AI へのリクエストは予約され、接続が戻ると自動で再試行します。',
+    pending: (count: number) => `処理待ちの AI リクエスト（${count}）`,
+    retryNow: '今すぐ再試行',
+    noPending: '処理待ちのリクエストはありません。',
+    attempts: (count: number) => `${count} 回再試行済み`,
+    viewResults: (count: number) => `${count} 件の結果を見る`,
+    waiting: '接続待ち',
+    maps: 'オフライン地図',
+    unsupported: 'このブラウザはオフライン地図に対応していません。',
+    mapsHint: '今表示している範囲の地図タイルをダウンロードし、オフラインでもこのエリアの地図を見られるようにします。',
+    zoomFrom: (zoom: number) => `ズームレベル ${zoom} から`,
+    tileCount: (count: string) => `約 ${count} 枚のタイル`,
+    tooMany: (max: string) => `範囲が広すぎます（上限 ${max} 枚）。地図を拡大するか、ズームレベルを下げてください。`,
+    failedTiles: (count: number) => `（${count} 枚失敗）`,
+    cancelDownload: 'ダウンロードを中止',
+    download: 'このエリアをダウンロード',
+    clearMaps: 'オフライン地図を削除',
+    downloaded: (count: string) => `${count} 枚のタイルをダウンロード済み`,
+    attribution: '地図データ © OpenStreetMap 貢献者',
+  },
+
+  stats: {
+    title: 'マイグルメ統計',
+    empty: 'チェックインはまだありません。チェックインすると統計が表示されます！',
+    checkIns: 'チェックイン数',
+    places: '訪れた場所',
+    repeatVisits: 'リピート回数',
+    trend: 'チェックインの推移',
+    weekly: '週ごと',
+    monthly: '月ごと',
+    ratings: '評価の分布',
+    newVsRepeat: '新規 vs. リピート',
+    newPlaces: (count: number) => `🆕 新規 ${count}`,
+    returns: (count: number) => `🔁 リピート ${count}`,
+    mostVisited: 'よく行く場所',
+    topRated: '評価の高い場所',
+    cuisines: '料理ジャンル',
+    dormant: 'しばらく行っていない',
+    dormantBefore: '',
+    months: (count: number) => `${count} か月`,
+    dormantAfter: '以上行っていない、平均★4以上の場所',
+    noMatches: '一致する場所がありません。',
+    lastVisit: (date: string) => `前回 ${date}`,
+  },
+
+  lists: {
+    title: 'マイリスト',
+    suggestedNames: ['行きたい', 'デート', '家族と'],
+    duplicateName: (name: string) => `「${name}」という名前のリストはすでにあります。`,
+    linkCopied: (name: string) => `「${name}」の共有リンクをコピーしました。`,
+    copyLink: 'この共有リンクをコピーしてください：',
+    confirmDeleteWithPlaces: (name: string, count: number) =>
+      `「${name}」を削除しますか？リスト内の ${count} 件の場所はお気に入りに残ります。`,
+    confirmDelete: (name: string) => `「${name}」を削除しますか？`,
+    newListName: '新しいリスト名',
+    create: '作成',
+    empty: 'リストはまだありません。場所の情報カードからリストに追加できます。',
+    share: '共有リンクをコピー',
+    downloadFile: 'リストファイルをダウンロード',
+    shared: '共有されたリスト（読み取り専用）',
+    importFile: 'ファイルを読み込む',
+    sharedEmpty: '共有リンクを開くかリストファイルを読み込むと、独立したレイヤーとして地図に表示されます。',
+    confirmRemoveShared: (name: string) => `「${name}」レイヤーを削除しますか？`,
+    list: 'リスト',
+  },
+
+  savedFilters: {
+    sortOptions: {
+      added: '保存順',
+      lastVisited: '最近の訪問',
+      visitCount: '訪問回数',
+      averageRating: '平均評価',
+      latestRating: '最新の評価',
+      distance: '近い順',
+    },
+    placeholder: '名前・住所・メモを検索',
+    filters: '絞り込み',
+    minRating: '平均評価の下限',
+    category: '料理ジャンル',
+    list: 'リスト',
+    visitedFrom: '訪問日（から）',
+    visitedTo: '訪問日（まで）',
+    shown: (shown: number, total: number) => `${total} 件中 ${shown} 件を表示`,
+    reset: '絞り込みを解除',
+  },
+
+  sync: {
+    title: 'デバイス間同期',
+    intro: '自分で立てた同期サーバーにつなぎ、ノート PC とスマホのお気に入りとチェックインをそろえます。リストと共有レイヤーは同期されません。',
+    serverUrl: 'サーバー URL',
+    serverUrlPlaceholder: '例：http://localhost:8787（空欄で同期オフ）',
+    token: 'アクセストークン（任意）',
+    saveSettings: '設定を保存',
+    syncing: '同期中…',
+    done: '同期完了',
+    syncNow: '今すぐ同期',
+    lastSynced: (time: string) => `前回の同期：${time}`,
+    never: '未同期',
+    pending: (count: number) => `${count} 件の変更がアップロード待ち`,
+    deviceId: (id: string) => `この端末の ID：${id}`,
+    unreachable: '同期サーバーに接続できません。',
+    tokenRejected: '同期サーバーがアクセストークンを拒否しました。',
+    serverError: (status: number) => `同期サーバーでエラーが発生しました（${status}）。`,
+  },
+
+  tags: {
+    title: 'タグ管理',
+    confirmMerge: (target: string, tag: string) => `「${target}」はすでにあります。「${tag}」を統合しますか？`,
+    empty: 'タグはまだありません。場所の情報カードから追加できます。',
+    renameOrMerge: '名前の変更・統合',
+    confirmRemove: (tag: string) => `すべての場所から「${tag}」を削除しますか？`,
+    category: '種類',
+    tags: 'タグ',
+    addTag: 'タグを追加…',
+  },
+
+  dataTransfer: {
+    conflicts: (count: number) =>
+      `${count} 件の記録が現在のデータと異なります。\n「OK」でバックアップの内容に置き換え、「キャンセル」で現在のデータを残します。`,
+    imported: (places: number, checkIns: number, lists: number, overwritten: number) =>
+      `読み込み完了：場所 ${places} 件、チェックイン ${checkIns} 件` +
+      (lists ? `、リスト ${lists} 件` : '') + 'を追加' +
+      (overwritten ? `、${overwritten} 件の記録を置き換え` : '') + 'しました。',
+    exportArchive: 'バックアップを書き出す',
+    importArchive: 'バックアップを読み込む',
+    exportGeoJson: 'GeoJSON を書き出す',
+  },
+
+  summary: {
+    title: 'AI まとめ',
+    order: 'おすすめ',
+    avoid: '避けたい',
+    trend: '傾向',
+    failed: 'まとめを作成できませんでした。',
+    loading: '食事の記録を整理しています…',
+  },
+
+  crawl: {
+    title: (stops: number) => `食べ歩きルート · ${stops} か所`,
+    walking: (distance: string, duration: string) => `徒歩 ${distance} · 約 ${duration}`,
+    straightLine: (distance: string, duration: string) => `直線 ${distance} · 約 ${duration}`,
+    replan: '現在地からルートを再計算',
+    clear: 'ルートをクリア',
+    fallback: (reason: string) => `${reason}ため、直線距離の順に並べています。時間はおおよその目安です。`,
+    fromStart: (distance: string, duration: string) => `現在地から ${distance} · ${duration}`,
+    fromPrevious: (distance: string, duration: string) => `前の場所から ${distance} · ${duration}`,
+    removeStop: 'ルートから外す',
+    noRouter: 'ルート検索サービスが設定されていない',
+    routerUnavailable: (router: string) => `${router} を利用できない`,
+  },
+
+  photos: {
+    remove: '写真を削除',
+    moveEarlier: '前へ',
+    moveLater: '後ろへ',
+    caption: '説明',
+    processing: '処理中…',
+    add: '撮影またはアップロード',
+    cantCompress: '写真を圧縮できません。',
+    unsupportedBrowser: 'このブラウザでは写真を処理できません。',
+    unreadable: 'この写真の形式は読み込めません。JPEG か PNG を使ってください。',
+  },
+
+  location: {
+    nearbyPrompt: 'お気に入りの近くでチェックインを通知',
+    distance: '距離',
+    nearbySettings: '近くの通知の設定',
+    stopWatching: '現在地の追跡をやめる',
+    startWatching: '現在地を追跡し続ける',
+    recenter: '現在地に戻る',
+  },
+
+  diary: {
+    title: 'グルメ日記',
+    feed: 'フィード',
+    calendar: 'カレンダー',
+    empty: 'チェックインはまだありません。',
+  },
+
+  nearby: {
+    youreNear: (place: string, distance: string) => `「${place}」の近くにいます（${distance}）`,
+    firstVisit: 'お気に入りの場所にやっと来ました！チェックインしますか？',
+    returnVisit: (count: number) => `${count} 回訪れています。チェックインしますか？`,
+    checkIn: 'チェックイン',
+    later: 'あとで',
+  },
+
+  dishes: {
+    name: '料理名',
+    remove: '料理を削除',
+    linkPhoto: 'この写真をひも付ける',
+    unlinkPhoto: '写真のひも付けを解除',
+    add: '料理を追加',
+    liked: 'おすすめの料理',
+    ordered: (count: number) => `${count} 回注文`,
+  },
+
+  ask: {
+    examples: ['先月行った星4つ以上の和食は？', 'ここから一番近くて、まだ2回以上行っていないカフェ'],
+    placeholder: '地図に聞いてみる…',
+    failed: '質問を理解できませんでした。言い方を変えてみてください。',
+  },
+
+  diaryQuery: {
+    minRating: (rating: number) => `★ ${rating} 以上`,
+    within: (distance: string) => `📍 ${distance}以内`,
+    minVisits: (count: number) => `${count} 回以上訪問`,
+    neverVisited: '未訪問',
+    maxVisits: (count: number) => `訪問 ${count} 回以下`,
+    sortBy: {
+      distance: '近い順',
+      averageRating: '評価の高い順',
+      visitCount: 'よく行く順',
+      lastVisited: '最近の訪問順',
+    },
+    limit: (count: number) => `上位 ${count} 件`,
+  },
+
+  taste: {
+    favourites: (categories: string) => `好み：${categories}`,
+    spendRange: (low: string, high: string) => `1人あたり ${low}–${high}`,
+    usualRange: (distance: string) => `いつもは ${distance}以内`,
+    worthReturning: (average: string) => `平均 ★${average}、また行きたい`,
+    lowLastRating: (rating: number) => `前回は星 ${rating} つ`,
+    pricier: 'いつもより高め',
+    usualPrice: 'いつもの価格帯',
+    likedCategory: (category: string, average: string) => `${category}をよく食べています（平均 ★${average}）`,
+    dislikedCategory: (category: string) => `${category}はあまり評価が高くない`,
+    withinRange: (distance: string) => `いつもの範囲内（${distance}）`,
+    farther: (distance: string) => `いつもより遠い（${distance}）`,
+    googleRating: (rating: string, reviews: number | undefined) =>
+      `Google ★${rating}${reviews ? `、${reviews} 件のレビュー` : ''}`,
+  },
+
+  storage: {
+    full: '保存容量がいっぱいです。写真や記録を削除してからもう一度お試しください。',
+    failed: 'データを保存できませんでした。しばらくしてからお試しください。',
+    unsupported: 'このブラウザはローカルデータベースに対応していません。',
+    unavailable: 'ローカルデータベースを開けません。',
+  },
+
+  listShare: {
+    notAList: 'グルメマップの共有リストではありません。',
+    tooNew: 'このリストは新しいバージョンのグルメマップで作られています。先にアプリを更新してください。',
+    incomplete: '共有リストの内容が不完全です。',
+    brokenLink: '共有リンクが壊れているか、不完全です。',
+    unreadableFile: 'リストファイルを読み込めません。',
+  },
+
+  archive: {
+    invalid: (path: string, problem: string) => `バックアップファイルの形式が正しくありません：${path} ${problem}`,
+    problems: {
+      object: 'はオブジェクトである必要があります',
+      nonEmptyString: 'は空でない文字列である必要があります',
+      string: 'は文字列である必要があります',
+      number: 'は数値である必要があります',
+      positiveInteger: 'は正の整数である必要があります',
+      boolean: 'は真偽値である必要があります',
+      array: 'は配列である必要があります',
+      stringArray: 'は文字列の配列である必要があります',
+      placeMismatch: 'が所属する場所と一致しません',
+      rating: 'は 1〜5 である必要があります',
+      spend: 'には金額と通貨が必要です',
+      mealType: 'は有効な食事の時間帯ではありません',
+      listIcon: 'は絵文字 1 文字である必要があります',
+      color: 'は #RRGGBB 形式の色である必要があります',
+      latitude: 'は有効な緯度ではありません',
+      longitude: 'は有効な経度ではありません',
+      format: 'はグルメマップのバックアップではありません',
+    },
+    tooNew: 'このバックアップは新しいバージョンのグルメマップで作られています。先にアプリを更新してください。',
+    unreadable: 'バックアップファイルを読み込めません。破損している可能性があります。',
+    missingPhoto: (path: string) => `バックアップに写真がありません：${path}`,
+  },
+
+  undo: '元に戻す',
+};
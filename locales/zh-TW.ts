@@ -0,0 +1,486 @@
+import { MealType } from '../types';
+
+// Traditional Chinese, the app's original language. Its shape is the Messages type every other
+// catalog must match; messages that take values are functions.
+
+export const zhTW = {
+  common: {
+    cancel: '取消',
+    save: '儲存',
+    delete: '刪除',
+    remove: '移除',
+    edit: '編輯',
+    retry: '重試',
+    clear: '清除',
+    all: '全部',
+    any: '不限',
+    uncategorized: '未分類',
+    noAddress: '無地址資訊',
+    saved: '已收藏',
+    myPlaces: '我的收藏',
+    rename: '重新命名',
+    showOnMap: '在地圖上顯示',
+    hideOnMap: '在地圖上隱藏',
+    language: '語言',
+    aiQuota: 'AI 使用額度已用完，請稍後再試。',
+    importFailed: '匯入失敗，請確認檔案是否正確。',
+    photosRejected: (failures: string[]) => `以下照片無法加入：\n${failures.join('\n')}`,
+    photoFailure: (file: string, reason: string) => `${file}：${reason}`,
+    visits: (count: number) => `${count} 次造訪`,
+    places: (count: number) => `${count} 個地點`,
+    times: (count: number) => `${count} 次`,
+    atLeastStars: (stars: string) => `${stars} 以上`,
+    quoted: (text: string) => `「${text}」`,
+    separator: '、',
+  },
+
+  // By the name places store, which stays in Chinese whatever the language
+  categories: {
+    '台式': { name: '台式', label: '台式料理' },
+    '日式': { name: '日式', label: '日式料理' },
+    '韓式': { name: '韓式', label: '韓式料理' },
+    '火鍋': { name: '火鍋', label: '火鍋' },
+    '義式': { name: '義式', label: '義式料理' },
+    '美式': { name: '美式', label: '美式餐廳' },
+    '早午餐': { name: '早午餐', label: '早午餐' },
+    '咖啡廳': { name: '咖啡廳', label: '咖啡廳' },
+    '甜點': { name: '甜點', label: '甜點' },
+    '酒吧': { name: '酒吧', label: '酒吧' },
+  },
+
+  mealTypes: {
+    breakfast: '早餐',
+    lunch: '午餐',
+    dinner: '晚餐',
+    'late-night': '宵夜',
+  } as Record<MealType, string>,
+
+  units: {
+    meters: (value: string) => `${value} 公尺`,
+    kilometers: (value: string) => `${value} 公里`,
+    within: (distance: string) => `${distance}以內`,
+    minutes: (minutes: number) => `${minutes} 分鐘`,
+    hours: (hours: number) => `${hours} 小時`,
+    hoursMinutes: (hours: number, minutes: number) => `${hours} 小時 ${minutes} 分`,
+    people: (count: number) => `${count} 人`,
+  },
+
+  app: {
+    title: '美食地圖',
+    documentTitle: '美食地圖 - AI 美食日記',
+    offlineUse: '離線使用',
+    offlineNow: '目前離線',
+    offlineBadge: '離線中',
+    quickCheckIn: '照片快速打卡',
+    diary: '美食日記',
+    stats: '我的統計',
+    lists: '我的清單',
+    manageTags: '管理標籤',
+    sync: '多裝置同步',
+    syncSetup: '設定同步',
+    syncing: '同步中',
+    syncFailed: '同步失敗',
+    syncedAt: (time: string) => `已同步 ${time}`,
+    notSynced: '尚未同步',
+    storageUsed: (usage: string, quota: string) => `已使用 ${usage} / ${quota}`,
+    syncError: '同步失敗。',
+    storageUnavailable: '無法存取本機資料。',
+    sharedListUnreadable: '無法讀取分享清單。',
+    importSharedTitle: '匯入分享清單',
+    importSharedMessage: (list: string, count: number) => `「${list}」包含 ${count} 個地點。\n要加入為地圖上的唯讀圖層嗎？`,
+    importSharedAction: '加入',
+    queuedSearchDone: (query: string) => `離線時排入的搜尋「${query}」已完成，可在離線使用面板查看結果。`,
+    searchQueued: '目前離線，已將搜尋排入佇列，恢復連線後會自動重試。',
+    noResults: (query: string) => `找不到符合「${query}」的地點。`,
+    categoryQuery: (category: string) => `附近的${category}`,
+    maxCrawlStops: (count: number) => `美食路線最多 ${count} 站。`,
+    placeRemoved: (name: string) => `已移除「${name}」`,
+    checkInDeleted: '已刪除打卡',
+    deleteCheckInTitle: '刪除打卡',
+    deleteCheckInMessage: '確定要刪除這筆打卡紀錄嗎？',
+    deleteLastCheckInTitle: '刪除最後一筆打卡',
+    deleteLastCheckInMessage: (name: string) => `這是「${name}」唯一的打卡紀錄。\n要保留這個地點作為收藏，還是一併移除？`,
+    removePlace: '移除地點',
+    keepPlace: '保留收藏',
+    unsaveTitle: '取消收藏',
+    unsaveWithCheckIns: (name: string, count: number) => `確定要移除「${name}」及其 ${count} 筆打卡紀錄嗎？`,
+    unsave: (name: string) => `確定要移除「${name}」嗎？`,
+    exploreNearby: '探索附近美食',
+    noDiaryMatches: '沒有符合的地點。',
+    searchResults: '搜尋結果',
+    sortByTaste: '依我的口味排序',
+    outsideMap: '不在地圖範圍內',
+    visitedTimes: (count: number) => `去過 ${count} 次`,
+    lastTime: '上次',
+    noSavedPlaces: '尚未收藏地點。',
+    noSavedPlacesHint: '搜尋並打卡以建立您的地圖！',
+    noFilterMatches: '沒有符合篩選條件的地點。',
+    showMap: '切換至地圖',
+    showList: '顯示列表',
+    yourPosition: (accuracy: string) => `您的位置（誤差約 ${accuracy}）`,
+    searchThisArea: '搜尋此區域',
+    defaultCenter: '地圖暫以台北市為中心。',
+    openInGoogleMaps: '在 Google 地圖中開啟',
+    addToCrawl: '加入美食路線',
+    removeFromCrawl: '移出美食路線',
+    checkInNow: '立即打卡',
+  },
+
+  geolocationErrors: {
+    denied: '已拒絕定位權限。請在瀏覽器設定中允許定位，才能顯示您的位置。',
+    unavailable: '目前無法取得您的位置。',
+    timeout: '定位逾時，請移到訊號較好的地方再試一次。',
+    unsupported: '此瀏覽器不支援定位。',
+  },
+
+  searchErrors: {
+    quota: 'AI 搜尋的使用額度已用完，請稍後再試。',
+    auth: 'Gemini API 金鑰無效或未設定，無法使用 AI 搜尋。',
+    network: '網路連線失敗，請檢查連線後再試。',
+    unknown: '搜尋時發生錯誤，請稍後再試。',
+  },
+
+  searchBox: {
+    placeholder: '搜尋餐廳、地點...',
+    recent: '最近搜尋',
+    pin: '釘選',
+    unpin: '取消釘選',
+    removeFromHistory: '從紀錄中移除',
+    clearHistory: '清除搜尋紀錄（保留釘選）',
+    savedPlacesProvider: '我的收藏',
+  },
+
+  checkIn: {
+    editTitle: (place: string) => `編輯 ${place} 的打卡`,
+    newTitle: (place: string) => `在 ${place} 打卡`,
+    ratingRequired: '請給予評分！',
+    futureTime: '打卡時間不能晚於現在！',
+    invalidSpend: '請輸入有效的消費金額！',
+    howWasIt: '體驗如何？',
+    mealTime: '用餐時間',
+    photos: '照片',
+    dishes: '點了什麼',
+    spend: '消費金額',
+    spendPlaceholder: '總計',
+    partySize: '人數',
+    partySizePlaceholder: '幾位',
+    companions: '同行者',
+    companionsPlaceholder: '以逗號或頓號分隔，例如：小明、阿華',
+    notes: '筆記',
+    notesPlaceholder: '吃了什麼？氣氛如何？',
+    describing: 'AI 正在生成描述...',
+    describeLater: '目前離線，儲存後會在恢復連線時自動產生照片描述。',
+    saveChanges: '儲存變更',
+    saveCheckIn: '儲存打卡',
+    fallbackDescription: '看起來很美味！',
+  },
+
+  quickCheckIn: {
+    title: '照片快速打卡',
+    nearbyQuery: '餐廳',
+    noLocation: '照片沒有位置資訊，請手動搜尋地點。',
+    nearbySearchFailed: '搜尋附近地點時發生錯誤，請手動搜尋。',
+    nothingNearby: '照片附近找不到餐廳，請手動搜尋。',
+    searchFailed: '搜尋時發生錯誤，請稍後再試。',
+    reading: '讀取照片中…',
+    pickPhotos: '選擇用餐照片，自動找出地點與時間',
+    changePhotos: '換一組照片',
+    takenAt: (time: string) => `拍攝於 ${time}`,
+    noTime: '照片沒有拍攝時間，將使用現在時間',
+    isThisIt: '是這裡嗎？',
+    searchOther: '不是這些？搜尋其他地點',
+    findingNearby: '尋找附近地點…',
+  },
+
+  timeline: {
+    empty: '尚未有打卡紀錄。成為第一個吧！',
+    history: '歷史紀錄',
+    perPerson: (amount: string) => `（每人 ${amount}）`,
+  },
+
+  offline: {
+    title: '離線使用',
+    tilesFailed: (count: number) => `有 ${count} 張圖磚下載失敗，可稍後再試一次。`,
+    downloadFailed: '下載離線地圖失敗。',
+    confirmClear: '要刪除所有已下載的離線地圖嗎？',
+    searchRequest: (query: string) => `搜尋「${query}」`,
+    photoRequest: (place: string) => `照片描述 · ${place}`,
+    deletedPlace: '已刪除的地點',
+    online: '已連線',
+    offlineHint: '目前離線，AI 請求會排入佇列，恢復連線後自動重試。',
+    pending: (count: number) => `待處理的 AI 請求（${count}）`,
+    retryNow: '立即重試',
+    noPending: '沒有待處理的請求。',
+    attempts: (count: number) => `已重試 ${count} 次`,
+    viewResults: (count: number) => `查看 ${count} 筆結果`,
+    waiting: '等待連線',
+    maps: '離線地圖',
+    unsupported: '此瀏覽器不支援離線地圖。',
+    mapsHint: '下載目前地圖畫面範圍內的圖磚，離線時也能看到這一區的地圖。',
+    zoomFrom: (zoom: number) => `縮放層級 ${zoom} 到`,
+    tileCount: (count: string) => `約 ${count} 張圖磚`,
+    tooMany: (max: string) => `範圍太大（上限 ${max} 張），請放大地圖或降低縮放層級。`,
+    failedTiles: (count: number) => `（${count} 張失敗）`,
+    cancelDownload: '取消下載',
+    download: '下載此區域',
+    clearMaps: '刪除離線地圖',
+    downloaded: (count: string) => `已下載 ${count} 張圖磚`,
+    attribution: '地圖資料 © OpenStreetMap 貢獻者',
+  },
+
+  stats: {
+    title: '我的美食統計',
+    empty: '還沒有打卡紀錄，打卡後就能看到統計囉！',
+    checkIns: '打卡次數',
+    places: '造訪地點',
+    repeatVisits: '回訪次數',
+    trend: '打卡趨勢',
+    weekly: '每週',
+    monthly: '每月',
+    ratings: '評分分布',
+    newVsRepeat: '新店 vs. 回訪',
+    newPlaces: (count: number) => `🆕 新店 ${count}`,
+    returns: (count: number) => `🔁 回訪 ${count}`,
+    mostVisited: '最常造訪',
+    topRated: '最高評分',
+    cuisines: '料理類型',
+    dormant: '好久沒去了',
+    dormantBefore: '超過',
+    months: (count: number) => `${count} 個月`,
+    dormantAfter: '沒去、平均四星以上的地點',
+    noMatches: '沒有符合的地點。',
+    lastVisit: (date: string) => `上次 ${date}`,
+  },
+
+  lists: {
+    title: '我的清單',
+    suggestedNames: ['想去', '約會', '帶爸媽'],
+    duplicateName: (name: string) => `已有名為「${name}」的清單。`,
+    linkCopied: (name: string) => `已複製「${name}」的分享連結。`,
+    copyLink: '複製這個分享連結：',
+    confirmDeleteWithPlaces: (name: string, count: number) => `確定要刪除「${name}」嗎？清單中的 ${count} 個地點仍會保留在收藏中。`,
+    confirmDelete: (name: string) => `確定要刪除「${name}」嗎？`,
+    newListName: '新清單名稱',
+    create: '建立',
+    empty: '尚未建立清單。可在地點資訊卡中把地點加入清單。',
+    share: '複製分享連結',
+    downloadFile: '下載清單檔案',
+    shared: '別人分享的清單（唯讀）',
+    importFile: '匯入檔案',
+    sharedEmpty: '開啟別人的分享連結，或匯入清單檔案，就會以獨立圖層顯示在地圖上。',
+    confirmRemoveShared: (name: string) => `要移除「${name}」圖層嗎？`,
+    list: '清單',
+  },
+
+  savedFilters: {
+    sortOptions: {
+      added: '收藏順序',
+      lastVisited: '最近造訪',
+      visitCount: '造訪次數',
+      averageRating: '平均評分',
+      latestRating: '最新評分',
+      distance: '距離最近',
+    },
+    placeholder: '搜尋名稱、地址、筆記',
+    filters: '篩選',
+    minRating: '最低平均評分',
+    category: '料理類型',
+    list: '清單',
+    visitedFrom: '造訪日期（起）',
+    visitedTo: '造訪日期（迄）',
+    shown: (shown: number, total: number) => `顯示 ${shown} / ${total} 個地點`,
+    reset: '清除篩選',
+  },
+
+  sync: {
+    title: '多裝置同步',
+    intro: '連到自架的同步伺服器，讓筆電和手機上的收藏與打卡保持一致。清單與分享圖層不會同步。',
+    serverUrl: '伺服器網址',
+    serverUrlPlaceholder: '例如 http://localhost:8787（留空即關閉同步）',
+    token: '存取權杖（選填）',
+    saveSettings: '儲存設定',
+    syncing: '同步中…',
+    done: '同步完成',
+    syncNow: '立即同步',
+    lastSynced: (time: string) => `上次同步：${time}`,
+    never: '尚未同步',
+    pending: (count: number) => `${count} 筆變更待上傳`,
+    deviceId: (id: string) => `本裝置代號：${id}`,
+    unreachable: '無法連線到同步伺服器。',
+    tokenRejected: '同步伺服器拒絕了存取權杖。',
+    serverError: (status: number) => `同步伺服器發生錯誤（${status}）。`,
+  },
+
+  tags: {
+    title: '管理標籤',
+    confirmMerge: (target: string, tag: string) => `「${target}」已存在，要將「${tag}」合併進去嗎？`,
+    empty: '尚未建立任何標籤。可在地點資訊卡中新增。',
+    renameOrMerge: '重新命名或合併',
+    confirmRemove: (tag: string) => `要從所有地點移除「${tag}」嗎？`,
+    category: '類型',
+    tags: '標籤',
+    addTag: '新增標籤…',
+  },
+
+  dataTransfer: {
+    conflicts: (count: number) => `有 ${count} 筆紀錄與現有資料不同。\n按「確定」以備份檔覆蓋，按「取消」保留現有資料。`,
+    imported: (places: number, checkIns: number, lists: number, overwritten: number) =>
+      `匯入完成：新增 ${places} 個地點、${checkIns} 筆打卡` +
+      (lists ? `、${lists} 個清單` : '') +
+      (overwritten ? `，覆蓋 ${overwritten} 筆紀錄` : '') + '。',
+    exportArchive: '匯出備份',
+    importArchive: '匯入備份',
+    exportGeoJson: '匯出 GeoJSON',
+  },
+
+  summary: {
+    title: 'AI 摘要',
+    order: '推薦',
+    avoid: '避開',
+    trend: '趨勢',
+    failed: '無法產生摘要。',
+    loading: '正在整理你們的用餐紀錄…',
+  },
+
+  crawl: {
+    title: (stops: number) => `美食路線 · ${stops} 站`,
+    walking: (distance: string, duration: string) => `步行 ${distance} · 約 ${duration}`,
+    straightLine: (distance: string, duration: string) => `直線 ${distance} · 約 ${duration}`,
+    replan: '從目前位置重新規劃',
+    clear: '清除路線',
+    fallback: (reason: string) => `${reason}，路線依直線距離排序，時間為粗略估計。`,
+    fromStart: (distance: string, duration: string) => `從目前位置 ${distance} · ${duration}`,
+    fromPrevious: (distance: string, duration: string) => `從上一站 ${distance} · ${duration}`,
+    removeStop: '移出路線',
+    noRouter: '未設定路線規劃服務',
+    routerUnavailable: (router: string) => `${router} 無法使用`,
+  },
+
+  photos: {
+    remove: '移除照片',
+    moveEarlier: '往前移',
+    moveLater: '往後移',
+    caption: '說明',
+    processing: '處理中…',
+    add: '拍照或上傳',
+    cantCompress: '無法壓縮照片。',
+    unsupportedBrowser: '此瀏覽器無法處理照片。',
+    unreadable: '無法讀取此照片格式，請改用 JPEG 或 PNG。',
+  },
+
+  location: {
+    nearbyPrompt: '靠近收藏地點時提醒打卡',
+    distance: '距離',
+    nearbySettings: '附近提醒設定',
+    stopWatching: '停止追蹤位置',
+    startWatching: '持續追蹤位置',
+    recenter: '回到我的位置',
+  },
+
+  diary: {
+    title: '美食日記',
+    feed: '動態',
+    calendar: '月曆',
+    empty: '尚未有打卡紀錄。',
+  },
+
+  nearby: {
+    youreNear: (place: string, distance: string) => `你在「${place}」附近（${distance}）`,
+    firstVisit: '終於來到收藏的地點了！要打卡嗎？',
+    returnVisit: (count: number) => `已造訪 ${count} 次，要打卡嗎？`,
+    checkIn: '打卡',
+    later: '稍後',
+  },
+
+  dishes: {
+    name: '菜名',
+    remove: '移除菜色',
+    linkPhoto: '連結這張照片',
+    unlinkPhoto: '取消連結照片',
+    add: '新增菜色',
+    liked: '推薦菜色',
+    ordered: (count: number) => `點過 ${count} 次`,
+  },
+
+  ask: {
+    examples: ['上個月吃過哪些四星以上的日式料理？', '離這裡最近、還沒去過兩次以上的咖啡廳'],
+    placeholder: '問問我的地圖…',
+    failed: '無法理解這個問題，請換個說法。',
+  },
+
+  diaryQuery: {
+    minRating: (rating: number) => `★ ${rating} 以上`,
+    within: (distance: string) => `📍 ${distance}內`,
+    minVisits: (count: number) => `去過 ${count} 次以上`,
+    neverVisited: '還沒去過',
+    maxVisits: (count: number) => `去過不超過 ${count} 次`,
+    sortBy: {
+      distance: '由近到遠',
+      averageRating: '評分最高',
+      visitCount: '最常去',
+      lastVisited: '最近造訪',
+    },
+    limit: (count: number) => `前 ${count} 名`,
+  },
+
+  taste: {
+    favourites: (categories: string) => `偏好 ${categories}`,
+    spendRange: (low: string, high: string) => `人均 ${low}–${high}`,
+    usualRange: (distance: string) => `常去 ${distance}內`,
+    worthReturning: (average: string) => `我們平均給 ★${average}，值得回訪`,
+    lowLastRating: (rating: number) => `上次只給 ${rating} 星`,
+    pricier: '比平常吃的貴',
+    usualPrice: '在平常的價位內',
+    likedCategory: (category: string, average: string) => `你常吃${category}（平均 ★${average}）`,
+    dislikedCategory: (category: string) => `${category}通常評分不高`,
+    withinRange: (distance: string) => `在常去範圍內（${distance}）`,
+    farther: (distance: string) => `比平常遠（${distance}）`,
+    googleRating: (rating: string, reviews: number | undefined) =>
+      `Google ★${rating}${reviews ? `，${reviews} 則評論` : ''}`,
+  },
+
+  storage: {
+    full: '儲存空間已滿，請刪除部分照片或紀錄後再試。',
+    failed: '無法儲存資料，請稍後再試。',
+    unsupported: '此瀏覽器不支援本機資料庫。',
+    unavailable: '無法開啟本機資料庫。',
+  },
+
+  listShare: {
+    notAList: '這不是美食地圖的分享清單。',
+    tooNew: '此清單來自較新版本的美食地圖，請先更新應用程式。',
+    incomplete: '分享清單的內容不完整。',
+    brokenLink: '分享連結已損壞或不完整。',
+    unreadableFile: '無法讀取清單檔案。',
+  },
+
+  archive: {
+    invalid: (path: string, problem: string) => `備份檔格式錯誤：${path} ${problem}`,
+    problems: {
+      object: '必須是物件',
+      nonEmptyString: '必須是非空字串',
+      string: '必須是字串',
+      number: '必須是數字',
+      positiveInteger: '必須是正整數',
+      boolean: '必須是布林值',
+      array: '必須是陣列',
+      stringArray: '必須是字串陣列',
+      placeMismatch: '與所屬地點不符',
+      rating: '必須介於 1 到 5',
+      spend: '必須包含金額與幣別',
+      mealType: '不是有效的用餐時段',
+      listIcon: '必須是單一表情符號',
+      color: '必須是 #RRGGBB 格式的顏色',
+      latitude: '不是有效的緯度',
+      longitude: '不是有效的經度',
+      format: '不是美食地圖備份檔',
+    },
+    tooNew: '此備份檔來自較新版本的美食地圖，請先更新應用程式。',
+    unreadable: '無法讀取備份檔，檔案可能已損壞。',
+    missingPhoto: (path: string) => `備份檔缺少照片：${path}`,
+  },
+
+  undo: '復原',
+};
+
+export type Messages = typeof zhTW;
@@ -0,0 +1,125 @@
+// Service worker: keeps the app shell, marker images and downloaded map tiles
+// available offline. Gemini, Nominatim, AI proxy and sync requests are never
+// intercepted; the page queues the AI ones itself (services/requestQueue.ts).
+
+// v2: runtime caching limited to shell assets; activating drops what v1 picked up
+const SHELL_CACHE = 'gourmet-map-shell-v2';
+// Keep in sync with TILE_CACHE in services/offlineTiles.ts
+const TILE_CACHE = 'gourmet-map-tiles-v1';
+// Tiles seen while browsing, so the last area looked at also works offline
+const RECENT_TILE_CACHE = 'gourmet-map-recent-tiles-v1';
+const MAX_RECENT_TILES = 600;
+// Old hashed build files pile up across deploys; the least recently fetched go first
+const MAX_SHELL_ENTRIES = 150;
+
+const TILE_HOST = 'tile.openstreetmap.org';
+
+// Hosts serving the app's modules, styles and marker images
+const ASSET_HOSTS = [
+  'aistudiocdn.com',
+  'cdn.tailwindcss.com',
+  'unpkg.com',
+  'cdnjs.cloudflare.com',
+  'raw.githubusercontent.com',
+];
+
+// Same-origin files the shell is made of: these plus the hashed build output under /assets/.
+// Anything else on this origin (the AI proxy's /api/, a sync server behind the same host)
+// goes straight to the network.
+const SHELL_PATHS = ['/', '/index.html', '/manifest.webmanifest', '/icon.svg', '/icon-192.png', '/icon-512.png'];
+const BUILD_ASSETS_PATH = '/assets/';
+
+const PRECACHE_URLS = [
+  ...SHELL_PATHS,
+  'https://cdn.tailwindcss.com',
+  'https://unpkg.com/leaflet@1.9.4/dist/leaflet.css',
+  'https://unpkg.com/leaflet@1.9.4/dist/images/marker-icon.png',
+  'https://unpkg.com/leaflet@1.9.4/dist/images/marker-icon-2x.png',
+  'https://unpkg.com/leaflet@1.9.4/dist/images/marker-shadow.png',
+  'https://raw.githubusercontent.com/pointhi/leaflet-color-markers/master/img/marker-icon-2x-red.png',
+  'https://cdnjs.cloudflare.com/ajax/libs/leaflet/0.7.7/images/marker-shadow.png',
+];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil((async () => {
+    const cache = await caches.open(SHELL_CACHE);
+    // One unreachable CDN shouldn't stop the rest from being cached
+    await Promise.allSettled(PRECACHE_URLS.map(url => cache.add(url)));
+    await self.skipWaiting();
+  })());
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    const current = [SHELL_CACHE, TILE_CACHE, RECENT_TILE_CACHE];
+    const names = await caches.keys();
+    await Promise.all(names
+      .filter(name => name.startsWith('gourmet-map-') && !current.includes(name))
+      .map(name => caches.delete(name)));
+    await self.clients.claim();
+  })());
+});
+
+const isCacheable = (response) => response.ok || response.type === 'opaque';
+
+const isShellAsset = (url) =>
+  url.origin === self.location.origin
+    ? SHELL_PATHS.includes(url.pathname) || url.pathname.startsWith(BUILD_ASSETS_PATH)
+    : ASSET_HOSTS.includes(url.hostname);
+
+const trimCache = async (cacheName, maxEntries) => {
+  const cache = await caches.open(cacheName);
+  const keys = await cache.keys();
+  // Keys come back in insertion order, oldest first
+  await Promise.all(keys.slice(0, Math.max(0, keys.length - maxEntries)).map(key => cache.delete(key)));
+};
+
+// Online the network wins so deploys show up; offline the last copy is served.
+// `cacheKey` stores every navigation as the one page the app has.
+const networkFirst = async (request, event, cacheKey = request) => {
+  try {
+    const response = await fetch(request);
+    if (isCacheable(response)) {
+      const copy = response.clone();
+      event.waitUntil((async () => {
+        const cache = await caches.open(SHELL_CACHE);
+        await cache.put(cacheKey, copy);
+        await trimCache(SHELL_CACHE, MAX_SHELL_ENTRIES);
+      })());
+    }
+    return response;
+  } catch (error) {
+    const cached = await caches.match(cacheKey);
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+const tileResponse = async (request, event) => {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) {
+    const copy = response.clone();
+    event.waitUntil((async () => {
+      const cache = await caches.open(RECENT_TILE_CACHE);
+      await cache.put(request, copy);
+      await trimCache(RECENT_TILE_CACHE, MAX_RECENT_TILES);
+    })());
+  }
+  return response;
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (url.hostname === TILE_HOST) {
+    event.respondWith(tileResponse(request, event));
+  } else if (request.mode === 'navigate' && isShellAsset(url)) {
+    event.respondWith(networkFirst(request, event, '/index.html'));
+  } else if (isShellAsset(url)) {
+    event.respondWith(networkFirst(request, event));
+  }
+});
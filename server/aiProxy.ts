@@ -0,0 +1,242 @@
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { Coordinates, SavedPlace, CheckIn } from '../types';
+import { SearchErrorKind, PlaceSearchError, classifySearchError } from '../services/placeSearch';
+import {
+  createGeminiClient,
+  searchPlacesWithGemini,
+  analyzeFoodPhoto,
+  summarizePlace,
+  parseDiaryQuestion,
+} from '../services/geminiService';
+import {
+  SearchRequest,
+  SearchResponse,
+  AnalyzePhotoRequest,
+  SummarizePlaceRequest,
+  ParseQuestionRequest,
+  MAX_PHOTO_BYTES,
+  MAX_QUERY_LENGTH,
+  withoutPhotos,
+} from '../services/aiProtocol';
+import { searchCacheKey, createTtlCache, SEARCH_CACHE_TTL_MS as DEFAULT_SEARCH_CACHE_TTL_MS } from '../services/searchCache';
+import { Locale, DEFAULT_LOCALE, isLocale } from '../services/i18n';
+import { MEAL_TYPES } from '../constants';
+import { HttpError, readJsonBody, sendJson, sendError, corsHeaders } from './http';
+
+// Holds the Gemini API key and runs the app's AI requests for it (see README.md next to this file)
+
+const PORT = Number(process.env.AI_PROXY_PORT || 8788);
+const API_KEY = process.env.GEMINI_API_KEY;
+// Only needed when the app is served from another origin
+const ALLOWED_ORIGIN = process.env.AI_ALLOWED_ORIGIN || '';
+// Behind a reverse proxy every request comes from the proxy; trust its X-Forwarded-For instead
+const TRUST_PROXY = process.env.AI_TRUST_PROXY === 'true';
+const RATE_LIMIT = Number(process.env.AI_RATE_LIMIT || 20); // Requests per client per minute
+const SEARCH_CACHE_TTL_MS = Number(process.env.AI_SEARCH_CACHE_TTL_MS || DEFAULT_SEARCH_CACHE_TTL_MS);
+
+const RATE_WINDOW_MS = 60 * 1000;
+const SEARCH_CACHE_SIZE = 500;
+// Base64 is 4/3 of the bytes it encodes, plus room for the rest of the JSON
+const MAX_PHOTO_BODY_BYTES = Math.ceil(MAX_PHOTO_BYTES * 4 / 3) + 1024;
+const MAX_BODY_BYTES = 256 * 1024;
+
+if (!API_KEY) {
+  console.error('GEMINI_API_KEY is not set');
+  process.exit(1);
+}
+const client = createGeminiClient(API_KEY);
+
+// --- Rate limiting ---
+
+// Request times per client within the last window
+const recentRequests = new Map<string, number[]>();
+
+const clientId = (request: IncomingMessage): string => {
+  const forwarded = request.headers['x-forwarded-for'];
+  if (TRUST_PROXY && typeof forwarded === 'string') return forwarded.split(',')[0].trim();
+  return request.socket.remoteAddress || 'unknown';
+};
+
+const checkRateLimit = (id: string, now = Date.now()) => {
+  const times = (recentRequests.get(id) || []).filter(time => now - time < RATE_WINDOW_MS);
+  if (times.length >= RATE_LIMIT) {
+    const retryAfter = Math.ceil((times[0] + RATE_WINDOW_MS - now) / 1000);
+    throw new HttpError(429, 'Too many requests, try again shortly', { 'Retry-After': String(retryAfter) });
+  }
+  times.push(now);
+  recentRequests.set(id, times);
+};
+
+// Forget clients that have gone quiet
+setInterval(() => {
+  const now = Date.now();
+  recentRequests.forEach((times, id) => {
+    if (times.every(time => now - time >= RATE_WINDOW_MS)) recentRequests.delete(id);
+  });
+}, RATE_WINDOW_MS).unref();
+
+// --- Search cache ---
+
+const searchCache = createTtlCache<SearchResponse>({ ttlMs: SEARCH_CACHE_TTL_MS, maxEntries: SEARCH_CACHE_SIZE });
+
+// --- Validation ---
+
+const isCoordinates = (value: unknown): value is Coordinates => {
+  const location = value as Partial<Coordinates> | null;
+  return !!location && Number.isFinite(location.latitude) && Number.isFinite(location.longitude) &&
+    Math.abs(location.latitude!) <= 90 && Math.abs(location.longitude!) <= 180;
+};
+
+const requireText = (value: unknown, name: string): string => {
+  if (typeof value !== 'string' || !value.trim()) throw new HttpError(400, `${name} is required`);
+  if (value.length > MAX_QUERY_LENGTH) throw new HttpError(400, `${name} is too long`);
+  return value.trim();
+};
+
+const requireLanguage = (value: unknown): Locale => {
+  if (value === undefined) return DEFAULT_LOCALE;
+  if (!isLocale(value)) throw new HttpError(400, 'language is not supported');
+  return value;
+};
+
+// Whole stars, as the app hands them out
+const isRating = (value: unknown) => Number.isInteger(value) && (value as number) >= 1 && (value as number) <= 5;
+
+// Only the fields a summary prompt reads; photos are stripped before sending
+const isCheckIn = (value: unknown): value is CheckIn => {
+  const checkIn = value as Partial<CheckIn> | null;
+  if (!checkIn || typeof checkIn !== 'object') return false;
+  return typeof checkIn.id === 'string' && checkIn.id !== '' &&
+    Number.isFinite(checkIn.timestamp) &&
+    isRating(checkIn.rating) &&
+    typeof checkIn.text === 'string' &&
+    (checkIn.dishes === undefined || (Array.isArray(checkIn.dishes) && checkIn.dishes.every(dish =>
+      !!dish && typeof dish.name === 'string' && (dish.rating === undefined || isRating(dish.rating))))) &&
+    (checkIn.spend === undefined ||
+      (!!checkIn.spend && Number.isFinite(checkIn.spend.amount) && typeof checkIn.spend.currency === 'string')) &&
+    (checkIn.mealType === undefined || MEAL_TYPES.some(type => type.value === checkIn.mealType));
+};
+
+// --- Endpoints ---
+
+// What the app is told about each kind; Gemini's own wording can carry request details, so it stays in our log
+const UPSTREAM_MESSAGES: Record<SearchErrorKind, string> = {
+  quota: 'The AI service is over its quota, try again later',
+  auth: 'The AI service refused the proxy\'s credentials',
+  network: 'The AI service could not be reached',
+  unknown: 'The AI service could not answer',
+};
+
+// Gemini's own failures, passed on with a kind the app knows how to explain
+class UpstreamError extends HttpError {
+  kind: SearchErrorKind;
+  detail: string;
+
+  constructor(kind: SearchErrorKind, detail: string) {
+    super(kind === 'quota' ? 429 : 502, UPSTREAM_MESSAGES[kind]);
+    this.name = 'UpstreamError';
+    this.kind = kind;
+    this.detail = detail;
+  }
+}
+
+// Bugs on our side aren't Gemini's to answer for; they end up as a plain 500 (fetch failures are Gemini being unreachable)
+const isInternalError = (error: unknown) =>
+  (error instanceof TypeError && error.message !== 'fetch failed') || error instanceof RangeError || error instanceof ReferenceError;
+
+// A network failure here is ours, not the app's; it mustn't look like the app is offline
+const upstreamError = (error: unknown) => {
+  const kind = classifySearchError(error);
+  return new UpstreamError(kind === 'network' ? 'unknown' : kind, error instanceof Error ? error.message : String(error));
+};
+
+const callGemini = async <T>(request: () => Promise<T>): Promise<T> => {
+  try {
+    return await request();
+  } catch (error) {
+    throw isInternalError(error) ? error : upstreamError(error);
+  }
+};
+
+const search = async (body: unknown): Promise<SearchResponse> => {
+  const { query, location, language } = (body || {}) as Partial<SearchRequest>;
+  const text = requireText(query, 'query');
+  if (location !== undefined && !isCoordinates(location)) throw new HttpError(400, 'location is not valid');
+  const answerLanguage = requireLanguage(language);
+
+  const key = `${answerLanguage}|${searchCacheKey(text, location)}`;
+  const cached = searchCache.get(key);
+  if (cached) return cached;
+
+  const result = await searchPlacesWithGemini(text, location, client, answerLanguage);
+  if (result.status === 'error') throw upstreamError(new PlaceSearchError(result.kind, result.message));
+  const response = result.status === 'ok'
+    ? { places: result.places, skipped: result.skipped }
+    : { places: [], skipped: result.skipped };
+  searchCache.set(key, response);
+  return response;
+};
+
+const analyzePhoto = async (body: unknown) => {
+  const { image, mimeType, language } = (body || {}) as Partial<AnalyzePhotoRequest>;
+  if (typeof image !== 'string' || !/^[A-Za-z0-9+/]+=*$/.test(image)) throw new HttpError(400, 'image must be base64');
+  if (image.length * 3 / 4 > MAX_PHOTO_BYTES) throw new HttpError(413, 'Photo is too large');
+  if (typeof mimeType !== 'string' || !/^image\/[a-z0-9.+-]+$/i.test(mimeType)) throw new HttpError(400, 'mimeType must be an image type');
+  const answerLanguage = requireLanguage(language);
+  return { description: await callGemini(() => analyzeFoodPhoto(image, mimeType, client, answerLanguage)) };
+};
+
+const summarize = async (body: unknown) => {
+  const { place, language } = (body || {}) as Partial<SummarizePlaceRequest>;
+  if (!place || typeof place.name !== 'string' || !Array.isArray(place.myCheckIns)) {
+    throw new HttpError(400, 'place must be a saved place');
+  }
+  const invalid = place.myCheckIns.findIndex(checkIn => !isCheckIn(checkIn));
+  if (invalid !== -1) throw new HttpError(400, `place.myCheckIns[${invalid}] is not a valid check-in`);
+  const answerLanguage = requireLanguage(language);
+  return callGemini(() => summarizePlace(withoutPhotos(place as SavedPlace), client, answerLanguage));
+};
+
+const parseQuestion = async (body: unknown) => {
+  const { question } = (body || {}) as Partial<ParseQuestionRequest>;
+  const text = requireText(question, 'question');
+  return callGemini(() => parseDiaryQuestion(text, client));
+};
+
+const ENDPOINTS: Record<string, { handle: (body: unknown) => Promise<unknown>; maxBytes: number }> = {
+  '/api/search': { handle: search, maxBytes: MAX_BODY_BYTES },
+  '/api/analyze-photo': { handle: analyzePhoto, maxBytes: MAX_PHOTO_BODY_BYTES },
+  '/api/summarize-place': { handle: summarize, maxBytes: MAX_BODY_BYTES },
+  '/api/parse-question': { handle: parseQuestion, maxBytes: MAX_BODY_BYTES },
+};
+
+const CORS_HEADERS = ALLOWED_ORIGIN ? corsHeaders(ALLOWED_ORIGIN, 'POST, OPTIONS') : {};
+
+const handle = async (request: IncomingMessage, response: ServerResponse) => {
+  if (request.method === 'OPTIONS') return sendJson(response, 204, undefined, CORS_HEADERS);
+
+  const endpoint = ENDPOINTS[new URL(request.url || '/', 'http://localhost').pathname];
+  if (!endpoint) throw new HttpError(404, 'Not found');
+  if (request.method !== 'POST') throw new HttpError(405, 'Method not allowed');
+
+  checkRateLimit(clientId(request));
+  const body = await readJsonBody(request, endpoint.maxBytes);
+  sendJson(response, 200, await endpoint.handle(body), CORS_HEADERS);
+};
+
+createServer((request, response) => {
+  handle(request, response).catch(error => {
+    if (error instanceof UpstreamError) {
+      console.error('Gemini request failed', error.kind, error.detail);
+      return sendJson(response, error.status, { error: error.message, kind: error.kind }, CORS_HEADERS);
+    }
+    // Our own refusals, so the app can tell a rate limit from a broken request
+    if (error instanceof HttpError) {
+      return sendJson(response, error.status, { error: error.message, kind: error.status === 429 ? 'quota' : 'unknown' },
+        { ...CORS_HEADERS, ...error.headers });
+    }
+    sendError(response, error, CORS_HEADERS);
+  });
+}).listen(PORT, () => {
+  console.log(`AI proxy listening on http://localhost:${PORT}`);
+});
@@ -0,0 +1,55 @@
+import { IncomingMessage, ServerResponse } from 'node:http';
+
+// Small helpers shared by the servers in this directory
+
+export class HttpError extends Error {
+  status: number;
+  headers?: Record<string, string>;
+
+  constructor(status: number, message: string, headers?: Record<string, string>) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+    this.headers = headers;
+  }
+}
+
+export const readJsonBody = async (request: IncomingMessage, maxBytes: number): Promise<unknown> => {
+  // Refuse early when the client says up front that it's too big
+  if (Number(request.headers['content-length'] || 0) > maxBytes) throw new HttpError(413, 'Request body too large');
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of request) {
+    size += chunk.length;
+    if (size > maxBytes) throw new HttpError(413, 'Request body too large');
+    chunks.push(chunk);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new HttpError(400, 'Request body is not valid JSON');
+  }
+};
+
+export const sendJson = (response: ServerResponse, status: number, body?: unknown, headers: Record<string, string> = {}) => {
+  response.writeHead(status, {
+    ...headers,
+    ...(body === undefined ? {} : { 'Content-Type': 'application/json' }),
+  });
+  response.end(body === undefined ? undefined : JSON.stringify(body));
+};
+
+export const corsHeaders = (allowedOrigin: string, methods: string): Record<string, string> => ({
+  'Access-Control-Allow-Origin': allowedOrigin,
+  'Access-Control-Allow-Methods': methods,
+  'Access-Control-Allow-Headers': 'Authorization, Content-Type',
+});
+
+// Answers a failed request: HttpErrors as they are, anything else as a logged 500
+export const sendError = (response: ServerResponse, error: unknown, headers: Record<string, string> = {}) => {
+  if (error instanceof HttpError) {
+    return sendJson(response, error.status, { error: error.message }, { ...headers, ...error.headers });
+  }
+  console.error('Request failed', error);
+  sendJson(response, 500, { error: 'Internal error' }, headers);
+};
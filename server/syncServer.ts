@@ -0,0 +1,124 @@
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { readFile, writeFile, rename, mkdir } from 'node:fs/promises';
+import path from 'node:path';
+import {
+  SyncRecord, PullResponse, PushRequest, PushResponse,
+  PULL_PAGE_SIZE, recordKey, compareVersions, isSyncRecord,
+} from '../services/syncProtocol';
+import { HttpError, readJsonBody, sendJson, sendError, corsHeaders } from './http';
+
+// Reference sync server: keeps the winning version of every record in one JSON file.
+// Fine for a household or a small team; see README.md next to this file.
+
+const PORT = Number(process.env.SYNC_PORT || 8787);
+const DATA_FILE = process.env.SYNC_DATA_FILE || path.join(process.cwd(), 'sync-data', 'records.json');
+const TOKEN = process.env.SYNC_TOKEN || '';
+const ALLOWED_ORIGIN = process.env.SYNC_ALLOWED_ORIGIN || '*';
+// Check-ins carry their photos inline; the app keeps each push well under this
+const MAX_BODY_BYTES = 32 * 1024 * 1024;
+
+interface StoredEntry {
+  record: SyncRecord;
+  seq: number; // Position in the change feed; cursors are these numbers
+  origin: string; // Device that wrote this version, which doesn't need it back
+}
+
+interface Store {
+  seq: number;
+  entries: Record<string, StoredEntry>;
+}
+
+const loadStore = async (): Promise<Store> => {
+  try {
+    return JSON.parse(await readFile(DATA_FILE, 'utf8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return { seq: 0, entries: {} };
+    throw error;
+  }
+};
+
+const store = await loadStore();
+
+// Writes go through one chain, each to a temporary file renamed over the old one,
+// so a crash never leaves half a file behind
+let writing: Promise<void> = Promise.resolve();
+const persist = () => {
+  writing = writing.then(async () => {
+    await mkdir(path.dirname(DATA_FILE), { recursive: true });
+    const temporary = `${DATA_FILE}.tmp`;
+    await writeFile(temporary, JSON.stringify(store));
+    await rename(temporary, DATA_FILE);
+  });
+  return writing;
+};
+
+const pull = (since: number, deviceId: string): PullResponse => {
+  const newer = Object.values(store.entries)
+    .filter(entry => entry.seq > since)
+    .sort((a, b) => a.seq - b.seq);
+  const records: SyncRecord[] = [];
+  let cursor = since;
+  for (const entry of newer) {
+    if (records.length >= PULL_PAGE_SIZE) break;
+    cursor = entry.seq;
+    if (entry.origin !== deviceId) records.push(entry.record);
+  }
+  return { records, cursor: String(cursor), hasMore: cursor < (newer[newer.length - 1]?.seq ?? since) };
+};
+
+const push = async ({ deviceId, records }: PushRequest): Promise<PushResponse> => {
+  const conflicts: SyncRecord[] = [];
+  let changed = false;
+  records.forEach(record => {
+    const key = recordKey(record);
+    const existing = store.entries[key];
+    const order = existing ? compareVersions(record, existing.record) : 1;
+    if (order > 0) {
+      store.entries[key] = { record, seq: ++store.seq, origin: deviceId };
+      changed = true;
+    } else if (order < 0) {
+      conflicts.push(existing.record);
+    }
+  });
+  if (changed) await persist();
+  return { conflicts };
+};
+
+const parsePushRequest = (body: unknown): PushRequest => {
+  const request = body as Partial<PushRequest> | null;
+  if (!request || typeof request.deviceId !== 'string' || !request.deviceId) {
+    throw new HttpError(400, 'deviceId is required');
+  }
+  if (!Array.isArray(request.records) || !request.records.every(isSyncRecord)) {
+    throw new HttpError(400, 'records must be a list of sync records');
+  }
+  return { deviceId: request.deviceId, records: request.records };
+};
+
+const CORS_HEADERS = corsHeaders(ALLOWED_ORIGIN, 'GET, POST, OPTIONS');
+
+const send = (response: ServerResponse, status: number, body?: unknown) => sendJson(response, status, body, CORS_HEADERS);
+
+const handle = async (request: IncomingMessage, response: ServerResponse) => {
+  if (request.method === 'OPTIONS') return send(response, 204);
+
+  const url = new URL(request.url || '/', 'http://localhost');
+  if (url.pathname !== '/v1/changes') throw new HttpError(404, 'Not found');
+  if (TOKEN && request.headers.authorization !== `Bearer ${TOKEN}`) throw new HttpError(401, 'Missing or wrong token');
+
+  if (request.method === 'GET') {
+    const since = Number(url.searchParams.get('since') || 0);
+    if (!Number.isInteger(since) || since < 0) throw new HttpError(400, 'since must be a cursor from an earlier pull');
+    return send(response, 200, pull(since, url.searchParams.get('device') || ''));
+  }
+  if (request.method === 'POST') {
+    return send(response, 200, await push(parsePushRequest(await readJsonBody(request, MAX_BODY_BYTES))));
+  }
+  throw new HttpError(405, 'Method not allowed');
+};
+
+createServer((request, response) => {
+  handle(request, response).catch(error => sendError(response, error, CORS_HEADERS));
+}).listen(PORT, () => {
+  console.log(`Sync server listening on http://localhost:${PORT}, storing records in ${DATA_FILE}`);
+});
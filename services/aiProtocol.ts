@@ -0,0 +1,63 @@
+import type { Place, Coordinates, SavedPlace, PlaceSummary } from '../types';
+import type { SearchErrorKind } from './placeSearch';
+import type { DiaryQuery } from './diaryQuery';
+import type { Locale } from './i18n';
+
+// Request and response bodies of the AI proxy (server/aiProxy.ts). Every endpoint is a
+// POST under /api; failures answer with an AiErrorResponse and a 4xx/5xx status.
+
+// `language` is what Gemini answers in (place names, descriptions, summaries); zh-TW when left out
+
+// POST /api/search
+export interface SearchRequest {
+  query: string;
+  location?: Coordinates;
+  language?: Locale;
+}
+
+export interface SearchResponse {
+  places: Place[];
+  skipped: number; // Grounding results that couldn't be read
+}
+
+// POST /api/analyze-photo
+export interface AnalyzePhotoRequest {
+  image: string; // Base64, without the data: URL prefix
+  mimeType: string;
+  language?: Locale;
+}
+
+export interface AnalyzePhotoResponse {
+  description: string;
+}
+
+// POST /api/summarize-place; photos are left out, the summary doesn't use them
+export interface SummarizePlaceRequest {
+  place: SavedPlace;
+  language?: Locale;
+}
+
+export type SummarizePlaceResponse = PlaceSummary;
+
+// POST /api/parse-question
+export interface ParseQuestionRequest {
+  question: string;
+}
+
+export type ParseQuestionResponse = DiaryQuery;
+
+export interface AiErrorResponse {
+  error: string;
+  kind: SearchErrorKind;
+}
+
+// Photos are compressed before they're stored, so real ones are well under this
+export const MAX_PHOTO_BYTES = 4 * 1024 * 1024;
+export const MAX_QUERY_LENGTH = 500;
+
+// The summary is written from the check-ins' text and ratings; photos would only bloat the request
+export const withoutPhotos = (place: SavedPlace): SavedPlace => ({
+  ...place,
+  summary: undefined,
+  myCheckIns: place.myCheckIns.map(checkIn => ({ ...checkIn, photos: [] })),
+});
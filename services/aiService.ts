@@ -0,0 +1,107 @@
+import { SavedPlace, PlaceSummary } from '../types';
+import { PlaceSearchProvider, PlaceSearchError, SearchErrorKind } from './placeSearch';
+import { DiaryQuery } from './diaryQuery';
+import { Locale, getLocale } from './i18n';
+import {
+  GeminiClient,
+  createGeminiClient,
+  searchPlacesWithGemini,
+  analyzeFoodPhoto as analyzeFoodPhotoWithGemini,
+  summarizePlace as summarizePlaceWithGemini,
+  parseDiaryQuestion as parseDiaryQuestionWithGemini,
+} from './geminiService';
+import {
+  SearchRequest,
+  SearchResponse,
+  AnalyzePhotoRequest,
+  AnalyzePhotoResponse,
+  SummarizePlaceRequest,
+  SummarizePlaceResponse,
+  ParseQuestionRequest,
+  ParseQuestionResponse,
+  AiErrorResponse,
+  withoutPhotos,
+} from './aiProtocol';
+
+// What the app asks of Gemini. Requests go through the AI proxy so the API key never reaches
+// the browser. Only the dev server may hand us a key (see vite.config.ts), to call Gemini directly.
+
+const DIRECT_API_KEY = process.env.GEMINI_API_KEY;
+const PROXY_URL = (process.env.AI_PROXY_URL || '').replace(/\/$/, '');
+
+let directClient: GeminiClient | null = null;
+const getDirectClient = (): GeminiClient | null => {
+  if (!DIRECT_API_KEY) return null;
+  directClient ??= createGeminiClient(DIRECT_API_KEY);
+  return directClient;
+};
+
+const kindForStatus = (status: number): SearchErrorKind =>
+  status === 429 ? 'quota' : status === 401 || status === 403 ? 'auth' : 'unknown';
+
+// Errors come back as PlaceSearchErrors, so classifySearchError and isOfflineError keep working
+const callProxy = async <Request, Response>(endpoint: string, body: Request, signal?: AbortSignal): Promise<Response> => {
+  let response: globalThis.Response;
+  try {
+    response = await fetch(`${PROXY_URL}/api/${endpoint}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal,
+    });
+  } catch (error) {
+    throw new PlaceSearchError('network', 'AI proxy is unreachable', { cause: error });
+  }
+  const data = await response.json().catch(() => null);
+  if (!response.ok) {
+    const failure = data as Partial<AiErrorResponse> | null;
+    throw new PlaceSearchError(
+      failure?.kind || kindForStatus(response.status),
+      failure?.error || `AI proxy responded with ${response.status}`
+    );
+  }
+  return data as Response;
+};
+
+export const GEMINI_SEARCH_PROVIDER_ID = 'gemini';
+
+// Place names come back in `language`
+export const createGeminiSearchProvider = (language: Locale): PlaceSearchProvider => ({
+  id: GEMINI_SEARCH_PROVIDER_ID,
+  name: 'Google 地圖 (Gemini)',
+  search: async (query, near, signal) => {
+    const client = getDirectClient();
+    if (!client) {
+      const { places } = await callProxy<SearchRequest, SearchResponse>('search', { query, location: near, language }, signal);
+      return places;
+    }
+    const result = await searchPlacesWithGemini(query, near, client, language, signal);
+    if (result.status === 'error') throw new PlaceSearchError(result.kind, result.message);
+    return result.status === 'ok' ? result.places : [];
+  },
+});
+
+// Descriptions and summaries are written in the app's current language.
+// Errors are thrown so an offline failure can be queued instead of losing the description.
+export const analyzeFoodPhoto = async (base64Image: string, mimeType: string): Promise<string> => {
+  const client = getDirectClient();
+  const language = getLocale();
+  if (client) return analyzeFoodPhotoWithGemini(base64Image, mimeType, client, language);
+  const { description } = await callProxy<AnalyzePhotoRequest, AnalyzePhotoResponse>(
+    'analyze-photo', { image: base64Image, mimeType, language }
+  );
+  return description;
+};
+
+export const summarizePlace = async (place: SavedPlace): Promise<PlaceSummary> => {
+  const client = getDirectClient();
+  const language = getLocale();
+  if (client) return summarizePlaceWithGemini(place, client, language);
+  return callProxy<SummarizePlaceRequest, SummarizePlaceResponse>('summarize-place', { place: withoutPhotos(place), language });
+};
+
+export const parseDiaryQuestion = async (question: string): Promise<DiaryQuery> => {
+  const client = getDirectClient();
+  if (client) return parseDiaryQuestionWithGemini(question, client);
+  return callProxy<ParseQuestionRequest, ParseQuestionResponse>('parse-question', { question });
+};
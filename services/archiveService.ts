@@ -0,0 +1,381 @@
+import { zipSync, unzipSync, strToU8, strFromU8 } from 'fflate';
+import { SavedPlace, CheckIn, PlaceList } from '../types';
+import { photoSourceToBlob, bytesToDataUrl } from './dataUrl';
+import { MEAL_TYPES } from '../constants';
+import { Messages, getMessages } from './i18n';
+import { stableStringify, comparableContent } from './syncProtocol';
+import { isListIcon, isListColor } from './placeLists';
+
+export const ARCHIVE_FORMAT = 'gourmet-map-archive';
+// v1: `photo` path per check-in; v2: `photos` list with captions and thumbnails; v3: place lists
+export const ARCHIVE_VERSION = 3;
+
+const MANIFEST_FILE = 'manifest.json';
+const PHOTOS_DIR = 'photos/';
+const THUMBNAILS_DIR = 'thumbnails/';
+
+interface ArchivePhoto {
+  id: string;
+  path: string; // Inside the zip
+  thumbnail?: string; // Inside the zip
+  caption?: string;
+}
+
+// Check-in as written to the manifest; image data lives in separate zip entries
+interface ArchiveCheckIn extends Omit<CheckIn, 'photos'> {
+  photos?: ArchivePhoto[];
+  photo?: string; // v1 only
+}
+
+interface ArchivePlace extends Omit<SavedPlace, 'myCheckIns'> {
+  myCheckIns: ArchiveCheckIn[];
+}
+
+export interface ArchiveManifest {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: string; // ISO 8601
+  places: ArchivePlace[];
+  lists?: PlaceList[]; // v3+
+}
+
+export interface ArchiveContents {
+  places: SavedPlace[];
+  lists: PlaceList[];
+}
+
+export class ArchiveError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'ArchiveError';
+  }
+}
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'image/heic': 'heic',
+};
+
+const MIME_TYPES: Record<string, string> = Object.fromEntries(
+  Object.entries(EXTENSIONS).map(([mimeType, extension]) => [extension, mimeType])
+);
+
+// --- Export ---
+
+export const exportArchive = async (places: SavedPlace[], lists: PlaceList[] = []): Promise<Blob> => {
+  const files: Record<string, Uint8Array> = {};
+
+  // Adds one image to the zip and returns its path there
+  const addImage = async (dir: string, id: string, src: string): Promise<string> => {
+    const blob = photoSourceToBlob(src);
+    const path = `${dir}${id}.${EXTENSIONS[blob.type] || 'bin'}`;
+    files[path] = new Uint8Array(await blob.arrayBuffer());
+    return path;
+  };
+
+  const archivePlaces: ArchivePlace[] = await Promise.all(places.map(async ({ myCheckIns, ...place }) => ({
+    ...place,
+    myCheckIns: await Promise.all(myCheckIns.map(async ({ photos, ...checkIn }) => ({
+      ...checkIn,
+      photos: await Promise.all(photos.map(async photo => {
+        const entry: ArchivePhoto = { id: photo.id, path: await addImage(PHOTOS_DIR, photo.id, photo.src) };
+        if (photo.thumbnail) entry.thumbnail = await addImage(THUMBNAILS_DIR, photo.id, photo.thumbnail);
+        if (photo.caption) entry.caption = photo.caption;
+        return entry;
+      })),
+    }))),
+  })));
+
+  const manifest: ArchiveManifest = {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    places: archivePlaces,
+    lists,
+  };
+  files[MANIFEST_FILE] = strToU8(JSON.stringify(manifest, null, 2));
+
+  // Photos are already compressed, so store them as-is
+  const zipped = zipSync(files, { level: 0 });
+  return new Blob([zipped], { type: 'application/zip' });
+};
+
+export const exportGeoJson = (places: SavedPlace[]): Blob => {
+  const featureCollection = {
+    type: 'FeatureCollection',
+    features: places.map(place => {
+      const ratings = place.myCheckIns.map(c => c.rating);
+      const lastVisit = Math.max(0, ...place.myCheckIns.map(c => c.timestamp));
+      return {
+        type: 'Feature',
+        id: place.id,
+        // GeoJSON positions are [longitude, latitude]
+        geometry: { type: 'Point', coordinates: [place.location.longitude, place.location.latitude] },
+        properties: {
+          name: place.name,
+          address: place.address ?? null,
+          googleMapsUri: place.googleMapsUri ?? null,
+          category: place.category ?? null,
+          tags: place.tags ?? [],
+          visitCount: ratings.length,
+          averageRating: ratings.length
+            ? Math.round((ratings.reduce((sum, r) => sum + r, 0) / ratings.length) * 10) / 10
+            : null,
+          lastVisited: lastVisit ? new Date(lastVisit).toISOString() : null,
+        },
+      };
+    }),
+  };
+  return new Blob([JSON.stringify(featureCollection, null, 2)], { type: 'application/geo+json' });
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+// --- Validation ---
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+type ArchiveProblem = keyof Messages['archive']['problems'];
+
+const expect = (condition: boolean, path: string, problem: ArchiveProblem) => {
+  if (!condition) {
+    const { archive } = getMessages();
+    throw new ArchiveError(archive.invalid(path, archive.problems[problem]));
+  }
+};
+
+const validateCheckIn = (value: unknown, path: string, placeId: string) => {
+  expect(isObject(value), path, 'object');
+  const checkIn = value as Record<string, unknown>;
+  expect(typeof checkIn.id === 'string' && checkIn.id !== '', `${path}.id`, 'nonEmptyString');
+  expect(checkIn.placeId === placeId, `${path}.placeId`, 'placeMismatch');
+  expect(isFiniteNumber(checkIn.timestamp), `${path}.timestamp`, 'number');
+  expect(isFiniteNumber(checkIn.rating) && (checkIn.rating as number) >= 1 && (checkIn.rating as number) <= 5,
+    `${path}.rating`, 'rating');
+  expect(typeof checkIn.text === 'string', `${path}.text`, 'string');
+  expect(checkIn.photo === undefined || typeof checkIn.photo === 'string', `${path}.photo`, 'string');
+  expect(checkIn.photos === undefined || Array.isArray(checkIn.photos), `${path}.photos`, 'array');
+  ((checkIn.photos as unknown[]) || []).forEach((photo, i) => {
+    const photoPath = `${path}.photos[${i}]`;
+    expect(isObject(photo), photoPath, 'object');
+    const entry = photo as Record<string, unknown>;
+    expect(typeof entry.id === 'string' && entry.id !== '', `${photoPath}.id`, 'nonEmptyString');
+    expect(typeof entry.path === 'string', `${photoPath}.path`, 'string');
+    expect(entry.thumbnail === undefined || typeof entry.thumbnail === 'string', `${photoPath}.thumbnail`, 'string');
+    expect(entry.caption === undefined || typeof entry.caption === 'string', `${photoPath}.caption`, 'string');
+  });
+  expect(checkIn.dishes === undefined || Array.isArray(checkIn.dishes), `${path}.dishes`, 'array');
+  ((checkIn.dishes as unknown[]) || []).forEach((dish, i) => {
+    const dishPath = `${path}.dishes[${i}]`;
+    expect(isObject(dish), dishPath, 'object');
+    const entry = dish as Record<string, unknown>;
+    expect(typeof entry.id === 'string' && entry.id !== '', `${dishPath}.id`, 'nonEmptyString');
+    expect(typeof entry.name === 'string', `${dishPath}.name`, 'string');
+    expect(entry.rating === undefined || (isFiniteNumber(entry.rating) && entry.rating >= 1 && entry.rating <= 5),
+      `${dishPath}.rating`, 'rating');
+    expect(entry.photoId === undefined || typeof entry.photoId === 'string', `${dishPath}.photoId`, 'string');
+  });
+  if (checkIn.spend !== undefined) {
+    const spend = checkIn.spend as Record<string, unknown>;
+    expect(isObject(spend) && isFiniteNumber(spend.amount) && typeof spend.currency === 'string',
+      `${path}.spend`, 'spend');
+  }
+  expect(checkIn.partySize === undefined || (Number.isInteger(checkIn.partySize) && (checkIn.partySize as number) > 0),
+    `${path}.partySize`, 'positiveInteger');
+  expect(checkIn.companions === undefined || (Array.isArray(checkIn.companions) && checkIn.companions.every(c => typeof c === 'string')),
+    `${path}.companions`, 'stringArray');
+  expect(checkIn.mealType === undefined || MEAL_TYPES.some(type => type.value === checkIn.mealType),
+    `${path}.mealType`, 'mealType');
+};
+
+const validatePlace = (value: unknown, path: string) => {
+  expect(isObject(value), path, 'object');
+  const place = value as Record<string, unknown>;
+  expect(typeof place.id === 'string' && place.id !== '', `${path}.id`, 'nonEmptyString');
+  expect(typeof place.name === 'string', `${path}.name`, 'string');
+  expect(isObject(place.location), `${path}.location`, 'object');
+  const location = place.location as Record<string, unknown>;
+  expect(isFiniteNumber(location.latitude) && Math.abs(location.latitude as number) <= 90,
+    `${path}.location.latitude`, 'latitude');
+  expect(isFiniteNumber(location.longitude) && Math.abs(location.longitude as number) <= 180,
+    `${path}.location.longitude`, 'longitude');
+  expect(place.category === undefined || typeof place.category === 'string', `${path}.category`, 'string');
+  expect(place.tags === undefined || (Array.isArray(place.tags) && place.tags.every(tag => typeof tag === 'string')),
+    `${path}.tags`, 'stringArray');
+  expect(place.listIds === undefined || (Array.isArray(place.listIds) && place.listIds.every(id => typeof id === 'string')),
+    `${path}.listIds`, 'stringArray');
+  expect(Array.isArray(place.myCheckIns), `${path}.myCheckIns`, 'array');
+  (place.myCheckIns as unknown[]).forEach((checkIn, i) =>
+    validateCheckIn(checkIn, `${path}.myCheckIns[${i}]`, place.id as string));
+};
+
+const validateList = (value: unknown, path: string) => {
+  expect(isObject(value), path, 'object');
+  const list = value as Record<string, unknown>;
+  expect(typeof list.id === 'string' && list.id !== '', `${path}.id`, 'nonEmptyString');
+  expect(typeof list.name === 'string', `${path}.name`, 'string');
+  expect(isListIcon(list.icon), `${path}.icon`, 'listIcon');
+  expect(isListColor(list.color), `${path}.color`, 'color');
+  expect(typeof list.visible === 'boolean', `${path}.visible`, 'boolean');
+  expect(isFiniteNumber(list.createdAt), `${path}.createdAt`, 'number');
+};
+
+export const validateManifest = (value: unknown): ArchiveManifest => {
+  expect(isObject(value), 'manifest', 'object');
+  const manifest = value as Record<string, unknown>;
+  expect(manifest.format === ARCHIVE_FORMAT, 'format', 'format');
+  expect(isFiniteNumber(manifest.version), 'version', 'number');
+  if ((manifest.version as number) > ARCHIVE_VERSION) {
+    throw new ArchiveError(getMessages().archive.tooNew);
+  }
+  expect(Array.isArray(manifest.places), 'places', 'array');
+  (manifest.places as unknown[]).forEach((place, i) => validatePlace(place, `places[${i}]`));
+  expect(manifest.lists === undefined || Array.isArray(manifest.lists), 'lists', 'array');
+  ((manifest.lists as unknown[]) || []).forEach((list, i) => validateList(list, `lists[${i}]`));
+  return value as ArchiveManifest;
+};
+
+// --- Import ---
+
+export const parseArchive = async (file: Blob): Promise<ArchiveContents> => {
+  let files: Record<string, Uint8Array>;
+  let manifestData: unknown;
+  try {
+    files = unzipSync(new Uint8Array(await file.arrayBuffer()));
+    manifestData = JSON.parse(strFromU8(files[MANIFEST_FILE]));
+  } catch (error) {
+    throw new ArchiveError(getMessages().archive.unreadable, { cause: error });
+  }
+
+  const manifest = validateManifest(manifestData);
+
+  const readImage = (path: string) => {
+    const bytes = files[path];
+    if (!bytes) throw new ArchiveError(getMessages().archive.missingPhoto(path));
+    const extension = path.split('.').pop() || '';
+    return bytesToDataUrl(bytes, MIME_TYPES[extension] || 'image/jpeg');
+  };
+
+  const places = await Promise.all(manifest.places.map(async ({ myCheckIns, ...place }) => ({
+    ...place,
+    myCheckIns: await Promise.all(myCheckIns.map(async ({ photo, photos, ...checkIn }) => {
+      // v1 archives carry a single `photo` path
+      const entries: ArchivePhoto[] = photos || (photo ? [{ id: `${checkIn.id}-photo`, path: photo }] : []);
+      return {
+        ...checkIn,
+        photos: await Promise.all(entries.map(async entry => ({
+          id: entry.id,
+          src: await readImage(entry.path),
+          thumbnail: entry.thumbnail ? await readImage(entry.thumbnail) : undefined,
+          caption: entry.caption,
+        }))),
+      };
+    })),
+  })));
+  return { places, lists: manifest.lists || [] };
+};
+
+// --- Merge ---
+
+// How to resolve a record that exists on both sides with different content
+export type MergeStrategy = 'keep-existing' | 'overwrite';
+
+export interface MergeSummary {
+  addedPlaces: number;
+  addedCheckIns: number;
+  conflicts: number; // same id, different content
+  overwritten: number; // conflicts resolved in favour of the import
+}
+
+// Key order differs between a backup and records edited in the app, and so does how photos are held
+const sameRecord = (a: unknown, b: unknown) =>
+  stableStringify(comparableContent(a)) === stableStringify(comparableContent(b));
+
+// Merges imported places into the existing list keyed on Place.id and CheckIn.id.
+// Untouched records keep their object identity so only real changes are persisted.
+export const mergeSavedPlaces = (
+  existing: SavedPlace[],
+  imported: SavedPlace[],
+  strategy: MergeStrategy
+): { places: SavedPlace[]; summary: MergeSummary } => {
+  const summary: MergeSummary = { addedPlaces: 0, addedCheckIns: 0, conflicts: 0, overwritten: 0 };
+  const importedById = new Map(imported.map(place => [place.id, place]));
+  const existingIds = new Set(existing.map(place => place.id));
+
+  const merged = existing.map(place => {
+    const incoming = importedById.get(place.id);
+    if (!incoming) return place;
+
+    const { myCheckIns: currentCheckIns, ...currentFields } = place;
+    const { myCheckIns: incomingCheckIns, ...incomingFields } = incoming;
+    let changed = false;
+
+    let fields = currentFields;
+    if (!sameRecord(currentFields, incomingFields)) {
+      summary.conflicts++;
+      if (strategy === 'overwrite') {
+        fields = incomingFields;
+        summary.overwritten++;
+        changed = true;
+      }
+    }
+
+    const incomingById = new Map(incomingCheckIns.map(c => [c.id, c]));
+    const checkIns = currentCheckIns.map(checkIn => {
+      const other = incomingById.get(checkIn.id);
+      incomingById.delete(checkIn.id);
+      if (!other || sameRecord(checkIn, other)) return checkIn;
+      summary.conflicts++;
+      if (strategy !== 'overwrite') return checkIn;
+      summary.overwritten++;
+      changed = true;
+      return other;
+    });
+
+    const added = [...incomingById.values()];
+    if (added.length) {
+      summary.addedCheckIns += added.length;
+      changed = true;
+    }
+
+    if (!changed) return place;
+    return {
+      ...fields,
+      myCheckIns: [...checkIns, ...added].sort((a, b) => a.timestamp - b.timestamp),
+    };
+  });
+
+  imported.forEach(place => {
+    if (existingIds.has(place.id)) return;
+    merged.push(place);
+    summary.addedPlaces++;
+    summary.addedCheckIns += place.myCheckIns.length;
+  });
+
+  return { places: merged, summary };
+};
+
+
+// Lists are matched on id and the existing name and style win; `added` are the ones to persist
+export const mergePlaceLists = (
+  existing: PlaceList[],
+  imported: PlaceList[]
+): { lists: PlaceList[]; added: PlaceList[] } => {
+  const existingIds = new Set(existing.map(list => list.id));
+  const added = imported.filter(list => !existingIds.has(list.id));
+  return { lists: [...existing, ...added], added };
+};
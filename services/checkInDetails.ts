@@ -0,0 +1,72 @@
+import { CheckIn, CheckInPhoto, MealType, Spend } from '../types';
+import { Locale, getLocale } from './i18n';
+
+// Helpers for the structured parts of a check-in: dishes, spend and meal type
+
+export interface DishSummary {
+  name: string; // Spelling from the most recent visit
+  timesOrdered: number;
+  averageRating: number | null; // Over the times it was rated
+  lastOrdered: number;
+  photo?: CheckInPhoto; // Most recent photo of the dish
+}
+
+const dishKey = (name: string) => name.normalize('NFKC').trim().toLowerCase().replace(/\s+/g, ' ');
+
+// Groups the dishes of all visits by name, best rated first
+export const summarizeDishes = (checkIns: CheckIn[]): DishSummary[] => {
+  const groups = new Map<string, DishSummary & { ratingSum: number; ratingCount: number }>();
+  [...checkIns]
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .forEach(checkIn => (checkIn.dishes || []).forEach(dish => {
+      const key = dishKey(dish.name);
+      if (!key) return;
+      const group = groups.get(key) || {
+        name: dish.name, timesOrdered: 0, averageRating: null, lastOrdered: 0, ratingSum: 0, ratingCount: 0,
+      };
+      group.name = dish.name.trim();
+      group.timesOrdered++;
+      group.lastOrdered = checkIn.timestamp;
+      if (dish.rating) {
+        group.ratingSum += dish.rating;
+        group.ratingCount++;
+      }
+      const photo = dish.photoId && checkIn.photos.find(p => p.id === dish.photoId);
+      if (photo) group.photo = photo;
+      groups.set(key, group);
+    }));
+
+  return [...groups.values()]
+    .map(({ ratingSum, ratingCount, ...summary }) => ({
+      ...summary,
+      averageRating: ratingCount ? ratingSum / ratingCount : null,
+    }))
+    .sort((a, b) => (b.averageRating ?? 0) - (a.averageRating ?? 0) || b.timesOrdered - a.timesOrdered);
+};
+
+// Dishes worth ordering again
+export const likedDishes = (checkIns: CheckIn[], minRating = 4): DishSummary[] =>
+  summarizeDishes(checkIns).filter(dish => dish.averageRating !== null && dish.averageRating >= minRating);
+
+// A sensible default for the meal type from the time of the visit
+export const mealTypeForTime = (timestamp: number): MealType => {
+  const hour = new Date(timestamp).getHours();
+  if (hour < 5) return 'late-night';
+  if (hour < 11) return 'breakfast';
+  if (hour < 16) return 'lunch';
+  if (hour < 22) return 'dinner';
+  return 'late-night';
+};
+
+export const formatSpend = ({ amount, currency }: Spend, locale: Locale = getLocale()): string => {
+  try {
+    return new Intl.NumberFormat(locale, { style: 'currency', currency, minimumFractionDigits: 0, maximumFractionDigits: 2 }).format(amount);
+  } catch {
+    // Unknown currency code
+    return `${amount} ${currency}`;
+  }
+};
+
+// Drops dish photo references to photos that are no longer part of the check-in
+export const pruneDishPhotos = (dishes: CheckIn['dishes'], photos: CheckInPhoto[]): CheckIn['dishes'] =>
+  dishes?.map(dish => (dish.photoId && !photos.some(p => p.id === dish.photoId) ? { ...dish, photoId: undefined } : dish));
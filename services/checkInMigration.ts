@@ -0,0 +1,27 @@
+import { CheckIn, SavedPlace } from '../types';
+
+// Shape written before check-ins supported several photos
+type LegacyCheckIn = Omit<CheckIn, 'photos'> & {
+  photos?: CheckIn['photos'];
+  image?: string; // Single base64 data URL
+};
+
+type LegacySavedPlace = Omit<SavedPlace, 'myCheckIns'> & {
+  myCheckIns: LegacyCheckIn[];
+};
+
+// Moves a single inline `image` into the `photos` list
+export const migrateCheckIn = (checkIn: LegacyCheckIn): CheckIn => {
+  const { image, photos, ...rest } = checkIn;
+  if (photos) return { ...rest, photos };
+  return {
+    ...rest,
+    // Reuse the check-in id so migrating twice yields the same photo
+    photos: image ? [{ id: `${checkIn.id}-photo`, src: image }] : [],
+  };
+};
+
+export const migrateSavedPlace = (place: LegacySavedPlace): SavedPlace => ({
+  ...place,
+  myCheckIns: place.myCheckIns.map(migrateCheckIn),
+});
@@ -0,0 +1,46 @@
+// Conversions between base64 data URLs (what new photos and the wire formats use) and binary data
+// (what we store and export)
+
+export const dataUrlMimeType = (dataUrl: string): string =>
+  dataUrl.match(/^data:([^;,]+)/)?.[1] || 'application/octet-stream';
+
+export const dataUrlToBytes = (dataUrl: string): Uint8Array => {
+  const binary = atob(dataUrl.slice(dataUrl.indexOf(',') + 1));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+export const dataUrlToBlob = (dataUrl: string): Blob =>
+  new Blob([dataUrlToBytes(dataUrl)], { type: dataUrlMimeType(dataUrl) });
+
+export const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+export const bytesToDataUrl = (bytes: Uint8Array, mimeType: string): Promise<string> =>
+  blobToDataUrl(new Blob([bytes], { type: mimeType }));
+
+// Photos loaded from storage are shown through object URLs, so their bytes stay in the Blobs
+// IndexedDB handed us instead of being copied into base64 strings. A photo's `src` is either
+// kind; these read the image back from whichever it is.
+const blobsByObjectUrl = new Map<string, Blob>();
+
+export const blobToObjectUrl = (blob: Blob): string => {
+  const url = URL.createObjectURL(blob);
+  blobsByObjectUrl.set(url, blob);
+  return url;
+};
+
+export const photoSourceToBlob = (src: string): Blob => blobsByObjectUrl.get(src) || dataUrlToBlob(src);
+
+export const photoSourceToDataUrl = (src: string): Promise<string> => {
+  const blob = blobsByObjectUrl.get(src);
+  return blob ? blobToDataUrl(blob) : Promise.resolve(src);
+};
@@ -0,0 +1,39 @@
+import { SavedPlace, CheckIn } from '../types';
+
+// A check-in together with the place it belongs to, for views across all places
+export interface DiaryEntry {
+  checkIn: CheckIn;
+  place: SavedPlace;
+}
+
+// Newest first
+export const collectDiaryEntries = (places: SavedPlace[]): DiaryEntry[] =>
+  places
+    .flatMap(place => place.myCheckIns.map(checkIn => ({ checkIn, place })))
+    .sort((a, b) => b.checkIn.timestamp - a.checkIn.timestamp);
+
+// Local calendar day, e.g. "2026-10-19"
+export const dayKey = (time: number): string => {
+  const date = new Date(time);
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+export const groupByDay = (entries: DiaryEntry[]): Map<string, DiaryEntry[]> => {
+  const days = new Map<string, DiaryEntry[]>();
+  entries.forEach(entry => {
+    const key = dayKey(entry.checkIn.timestamp);
+    const list = days.get(key) || [];
+    list.push(entry);
+    days.set(key, list);
+  });
+  return days;
+};
+
+// The 6x7 grid of days shown for a month, starting on Monday
+export const monthGrid = (year: number, month: number): Date[] => {
+  const first = new Date(year, month, 1);
+  const offset = (first.getDay() + 6) % 7;
+  return Array.from({ length: 42 }, (_, i) => new Date(year, month, 1 - offset + i));
+};
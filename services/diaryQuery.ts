@@ -0,0 +1,156 @@
+import { SavedPlace, Coordinates } from '../types';
+import { CUISINE_CATEGORIES } from '../constants';
+import { distanceInMeters, formatDistance } from './geo';
+import { averageRating, lastVisitedAt } from './placeMetrics';
+import { getMessages, categoryText } from './i18n';
+
+// A natural-language question about the diary, as structured filters.
+// Gemini only sees the question; the filters run locally against our places.
+
+export type DiaryQuerySort = 'distance' | 'averageRating' | 'visitCount' | 'lastVisited';
+
+export interface DiaryQuery {
+  category?: string; // One of CUISINE_CATEGORIES' names
+  minRating?: number; // Average over the visits in the date range (or all visits)
+  visitedFrom?: string; // YYYY-MM-DD (local), inclusive
+  visitedTo?: string; // YYYY-MM-DD (local), inclusive
+  maxDistanceMeters?: number; // From the current location
+  minVisits?: number; // Lifetime visit count
+  maxVisits?: number;
+  keyword?: string; // Matches name, address, tags, notes and dishes
+  sortBy?: DiaryQuerySort;
+  limit?: number;
+}
+
+export interface DiaryQueryMatch {
+  place: SavedPlace;
+  distance: number;
+}
+
+const SORTS: DiaryQuerySort[] = ['distance', 'averageRating', 'visitCount', 'lastVisited'];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const positiveNumber = (value: unknown): number | undefined =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : undefined;
+
+const nonNegativeInteger = (value: unknown): number | undefined =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0 ? value : undefined;
+
+// Keeps only the fields we understand, in the ranges we expect; model output is not trusted
+export const sanitizeDiaryQuery = (value: unknown): DiaryQuery => {
+  if (typeof value !== 'object' || value === null) return {};
+  const raw = value as Record<string, unknown>;
+  const query: DiaryQuery = {};
+  if (typeof raw.category === 'string' && CUISINE_CATEGORIES.some(c => c.name === raw.category)) query.category = raw.category;
+  const minRating = positiveNumber(raw.minRating);
+  if (minRating !== undefined) query.minRating = Math.min(minRating, 5);
+  if (typeof raw.visitedFrom === 'string' && DATE_PATTERN.test(raw.visitedFrom)) query.visitedFrom = raw.visitedFrom;
+  if (typeof raw.visitedTo === 'string' && DATE_PATTERN.test(raw.visitedTo)) query.visitedTo = raw.visitedTo;
+  const maxDistance = positiveNumber(raw.maxDistanceMeters);
+  if (maxDistance !== undefined) query.maxDistanceMeters = maxDistance;
+  const minVisits = nonNegativeInteger(raw.minVisits);
+  if (minVisits) query.minVisits = minVisits;
+  const maxVisits = nonNegativeInteger(raw.maxVisits);
+  if (maxVisits !== undefined) query.maxVisits = maxVisits;
+  if (typeof raw.keyword === 'string' && raw.keyword.trim()) query.keyword = raw.keyword.trim();
+  if (SORTS.includes(raw.sortBy as DiaryQuerySort)) query.sortBy = raw.sortBy as DiaryQuerySort;
+  const limit = nonNegativeInteger(raw.limit);
+  if (limit) query.limit = limit;
+  return query;
+};
+
+const parseLocalDate = (value: string | undefined): number | null => {
+  if (!value) return null;
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day).getTime();
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const matchesKeyword = (place: SavedPlace, keyword: string): boolean => {
+  const needle = keyword.toLowerCase();
+  return [
+    place.name,
+    place.address || '',
+    ...(place.tags || []),
+    ...place.myCheckIns.flatMap(c => [c.text, ...(c.dishes || []).map(d => d.name)]),
+  ].some(value => value.toLowerCase().includes(needle));
+};
+
+export const runDiaryQuery = (
+  places: SavedPlace[],
+  query: DiaryQuery,
+  currentLocation: Coordinates
+): DiaryQueryMatch[] => {
+  const from = parseLocalDate(query.visitedFrom);
+  const toDay = parseLocalDate(query.visitedTo);
+  const to = toDay === null ? null : toDay + DAY_MS; // Inclusive of the whole end day
+  const hasDateRange = from !== null || to !== null;
+
+  const matches = places
+    .map(place => ({ place, distance: distanceInMeters(currentLocation, place.location) }))
+    .filter(({ place, distance }) => {
+      if (query.category && place.category !== query.category) return false;
+      if (query.maxDistanceMeters !== undefined && distance > query.maxDistanceMeters) return false;
+      const visits = place.myCheckIns.length;
+      if (query.minVisits !== undefined && visits < query.minVisits) return false;
+      if (query.maxVisits !== undefined && visits > query.maxVisits) return false;
+      if (query.keyword && !matchesKeyword(place, query.keyword)) return false;
+
+      const inRange = place.myCheckIns.filter(c =>
+        (from === null || c.timestamp >= from) && (to === null || c.timestamp < to));
+      if (hasDateRange && inRange.length === 0) return false;
+      if (query.minRating !== undefined) {
+        if (inRange.length === 0) return false;
+        const average = inRange.reduce((sum, c) => sum + c.rating, 0) / inRange.length;
+        if (average < query.minRating) return false;
+      }
+      return true;
+    });
+
+  const sortValue = ({ place, distance }: DiaryQueryMatch): number => {
+    switch (query.sortBy) {
+      case 'distance': return distance;
+      case 'averageRating': return -(averageRating(place) ?? 0);
+      case 'visitCount': return -place.myCheckIns.length;
+      case 'lastVisited': return -(lastVisitedAt(place) ?? 0);
+      default: return 0;
+    }
+  };
+  const sorted = query.sortBy ? [...matches].sort((a, b) => sortValue(a) - sortValue(b)) : matches;
+  return query.limit ? sorted.slice(0, query.limit) : sorted;
+};
+
+// Short human-readable chips, so it's visible how the question was understood
+export const describeDiaryQuery = (query: DiaryQuery): string[] => {
+  const t = getMessages();
+  const parts: string[] = [];
+  if (query.category) {
+    const category = CUISINE_CATEGORIES.find(c => c.name === query.category);
+    parts.push(category ? `${category.icon} ${categoryText(category.name, t).name}` : query.category);
+  }
+  if (query.visitedFrom || query.visitedTo) parts.push(`📅 ${query.visitedFrom || '…'} ~ ${query.visitedTo || '…'}`);
+  if (query.minRating !== undefined) parts.push(t.diaryQuery.minRating(query.minRating));
+  if (query.maxDistanceMeters !== undefined) parts.push(t.diaryQuery.within(formatDistance(query.maxDistanceMeters)));
+  if (query.minVisits !== undefined) parts.push(t.diaryQuery.minVisits(query.minVisits));
+  if (query.maxVisits !== undefined) parts.push(query.maxVisits === 0 ? t.diaryQuery.neverVisited : t.diaryQuery.maxVisits(query.maxVisits));
+  if (query.keyword) parts.push(t.common.quoted(query.keyword));
+  if (query.sortBy) parts.push(t.diaryQuery.sortBy[query.sortBy]);
+  if (query.limit) parts.push(t.diaryQuery.limit(query.limit));
+  return parts;
+};
+
+const toDateString = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+export const buildDiaryQueryPrompt = (question: string, now = new Date()): string => [
+  '把使用者關於自己美食日記的問題轉換成篩選條件。只填問題中明確提到的條件，其他欄位省略。',
+  `今天是 ${toDateString(now)}（星期${'日一二三四五六'[now.getDay()]}）。日期請用 YYYY-MM-DD，「上個月」指上個月的第一天到最後一天。`,
+  `category 只能是以下之一：${CUISINE_CATEGORIES.map(c => c.name).join('、')}。`,
+  'minRating 是 1 到 5 的評分下限；maxDistanceMeters 是與使用者目前位置的距離上限（公尺），「附近」約 1000 公尺。',
+  'minVisits / maxVisits 是造訪次數的上下限，例如「還沒去過兩次以上」是 maxVisits 1，「沒去過」是 maxVisits 0。',
+  'sortBy 可為 distance（最近）、averageRating（最好吃）、visitCount（最常去）、lastVisited（最近去過）；limit 是結果數量上限。',
+  'keyword 只用於店名、菜名等無法用其他欄位表達的關鍵字。',
+  '',
+  `問題：${question}`,
+].join('\n');
@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import { SavedPlace, CheckIn } from '../types';
+import { computeDiaryStats, countByPeriod } from './diaryStats';
+
+// Dates are built in local time, like the module's periods, so the tests pass in any time zone
+const at = (year: number, month: number, day: number, hour = 12, minute = 0) =>
+  new Date(year, month - 1, day, hour, minute).getTime();
+
+// Wednesday 14 January 2026
+const NOW = at(2026, 1, 14);
+
+let nextId = 0;
+const checkIn = (timestamp: number, rating: number): CheckIn => ({
+  id: `c${++nextId}`,
+  placeId: '',
+  timestamp,
+  rating,
+  text: '',
+  photos: [],
+});
+
+const place = (id: string, checkIns: CheckIn[], category?: string): SavedPlace => ({
+  id,
+  name: id,
+  location: { latitude: 25.04, longitude: 121.55 },
+  category,
+  myCheckIns: checkIns.map(c => ({ ...c, placeId: id })),
+});
+
+describe('computeDiaryStats', () => {
+  it('returns empty stats for no places', () => {
+    const stats = computeDiaryStats([], { now: NOW, periodCount: 4 });
+
+    expect(stats.totalCheckIns).toBe(0);
+    expect(stats.totalPlaces).toBe(0);
+    expect(stats.newVisits).toBe(0);
+    expect(stats.repeatVisits).toBe(0);
+    expect(stats.ratingDistribution).toEqual([0, 0, 0, 0, 0]);
+    expect(stats.topByVisits).toEqual([]);
+    expect(stats.topByRating).toEqual([]);
+    expect(stats.categories).toEqual([]);
+    expect(stats.dormant).toEqual([]);
+    expect(stats.checkInsByPeriod.map(p => p.count)).toEqual([0, 0, 0, 0]);
+  });
+
+  it('counts totals, first and repeat visits, and categories', () => {
+    const places = [
+      place('ramen', [checkIn(at(2026, 1, 2), 5), checkIn(at(2026, 1, 9), 4), checkIn(at(2026, 1, 12), 5)], '日式'),
+      place('sushi', [checkIn(at(2025, 12, 20), 3)], '日式'),
+      place('cafe', [checkIn(at(2026, 1, 10), 2)]),
+      place('bookmark', []),
+    ];
+    const stats = computeDiaryStats(places, { now: NOW });
+
+    expect(stats.totalCheckIns).toBe(5);
+    expect(stats.totalPlaces).toBe(3);
+    expect(stats.newVisits).toBe(3);
+    expect(stats.repeatVisits).toBe(2);
+    expect(stats.ratingDistribution).toEqual([0, 1, 1, 1, 2]);
+    expect(stats.topByVisits.map(r => [r.place.id, r.visits])).toEqual([['ramen', 3], ['sushi', 1], ['cafe', 1]]);
+    expect(stats.categories).toEqual([
+      { category: '日式', checkIns: 4, places: 2 },
+      { category: null, checkIns: 1, places: 1 },
+    ]);
+  });
+
+  it('leaves unrated check-ins out of averages and the rating distribution', () => {
+    const places = [
+      place('mixed', [checkIn(at(2026, 1, 2), 4), checkIn(at(2026, 1, 3), 0), checkIn(at(2026, 1, 4), 5)]),
+      place('unrated', [checkIn(at(2026, 1, 5), 0)]),
+    ];
+    const stats = computeDiaryStats(places, { now: NOW });
+
+    expect(stats.totalCheckIns).toBe(4);
+    expect(stats.ratingDistribution).toEqual([0, 0, 0, 1, 1]);
+    expect(stats.topByRating.map(r => [r.place.id, r.average])).toEqual([['mixed', 4.5], ['unrated', 0]]);
+  });
+
+  it('lists well-liked places not visited for a while', () => {
+    const places = [
+      place('old-favourite', [checkIn(at(2025, 9, 1), 5)]),
+      place('recent-favourite', [checkIn(at(2025, 12, 1), 5)]),
+      place('old-disappointment', [checkIn(at(2025, 6, 1), 2)]),
+    ];
+    const stats = computeDiaryStats(places, { now: NOW, dormantMonths: 3 });
+
+    expect(stats.dormant.map(d => d.place.id)).toEqual(['old-favourite']);
+  });
+});
+
+describe('countByPeriod', () => {
+  it('counts months across a year boundary', () => {
+    const timestamps = [
+      at(2025, 10, 31, 23, 59), // Before the first bucket
+      at(2025, 11, 30, 23, 59),
+      at(2025, 12, 1, 0, 0),
+      at(2025, 12, 31, 23, 59),
+      at(2026, 1, 1, 0, 0),
+      at(2026, 2, 1), // After now's month
+    ];
+    const buckets = countByPeriod(timestamps, 'month', 3, NOW);
+
+    expect(buckets.map(b => b.start)).toEqual([at(2025, 11, 1, 0), at(2025, 12, 1, 0), at(2026, 1, 1, 0)]);
+    expect(buckets.map(b => b.count)).toEqual([1, 2, 1]);
+  });
+
+  it('counts Monday-to-Sunday weeks, including one that spans New Year', () => {
+    const timestamps = [
+      at(2025, 12, 28, 23, 59), // Sunday, the week before the first bucket
+      at(2025, 12, 29, 0, 0), // Monday
+      at(2025, 12, 31),
+      at(2026, 1, 4, 23, 59), // Sunday of the same week
+      at(2026, 1, 5),
+      at(2026, 1, 14),
+    ];
+    const buckets = countByPeriod(timestamps, 'week', 3, NOW);
+
+    expect(buckets.map(b => b.start)).toEqual([at(2025, 12, 29, 0), at(2026, 1, 5, 0), at(2026, 1, 12, 0)]);
+    expect(buckets.map(b => b.count)).toEqual([3, 1, 1]);
+  });
+});
@@ -0,0 +1,161 @@
+import { SavedPlace } from '../types';
+import { averageRating, lastVisitedAt, isRated } from './placeMetrics';
+
+// Pure aggregations over the check-in history. Everything is computed locally
+// from `savedPlaces`; `now` is injectable so results are deterministic.
+
+export type StatsPeriod = 'week' | 'month';
+
+export interface PeriodCount {
+  start: number; // Local start of the period, ms
+  count: number;
+}
+
+export interface RankedPlace {
+  place: SavedPlace;
+  visits: number;
+  average: number;
+}
+
+export interface CategoryCount {
+  category: string | null; // null for uncategorised places
+  checkIns: number;
+  places: number;
+}
+
+export interface DormantPlace {
+  place: SavedPlace;
+  lastVisited: number;
+  average: number;
+}
+
+export interface DiaryStats {
+  totalCheckIns: number;
+  totalPlaces: number; // Places with at least one check-in
+  checkInsByPeriod: PeriodCount[]; // Oldest first, ending with the current period
+  ratingDistribution: number[]; // Index 0 is one star, index 4 is five stars; unrated check-ins aren't counted
+  topByVisits: RankedPlace[];
+  topByRating: RankedPlace[];
+  categories: CategoryCount[];
+  newVisits: number; // First check-in at a place
+  repeatVisits: number;
+  dormant: DormantPlace[]; // Well-liked places not visited for `dormantMonths`
+}
+
+export interface DiaryStatsOptions {
+  now?: number;
+  period?: StatsPeriod;
+  periodCount?: number; // How many periods back to chart
+  topCount?: number;
+  dormantMonths?: number;
+  dormantMinRating?: number;
+}
+
+// Monday 00:00 local time of the week containing `time`
+export const startOfWeek = (time: number): number => {
+  const date = new Date(time);
+  const daysSinceMonday = (date.getDay() + 6) % 7;
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() - daysSinceMonday).getTime();
+};
+
+export const startOfMonth = (time: number): number => {
+  const date = new Date(time);
+  return new Date(date.getFullYear(), date.getMonth(), 1).getTime();
+};
+
+const shiftPeriod = (start: number, period: StatsPeriod, amount: number): number => {
+  const date = new Date(start);
+  return period === 'week'
+    ? new Date(date.getFullYear(), date.getMonth(), date.getDate() + amount * 7).getTime()
+    : new Date(date.getFullYear(), date.getMonth() + amount, 1).getTime();
+};
+
+export const countByPeriod = (
+  timestamps: number[],
+  period: StatsPeriod,
+  periodCount: number,
+  now: number
+): PeriodCount[] => {
+  const periodStart = period === 'week' ? startOfWeek : startOfMonth;
+  const current = periodStart(now);
+  const buckets: PeriodCount[] = Array.from({ length: periodCount }, (_, i) => ({
+    start: shiftPeriod(current, period, i - periodCount + 1),
+    count: 0,
+  }));
+  const indexByStart = new Map(buckets.map((bucket, i) => [bucket.start, i]));
+
+  timestamps.forEach(timestamp => {
+    const index = indexByStart.get(periodStart(timestamp));
+    if (index !== undefined) buckets[index].count++;
+  });
+  return buckets;
+};
+
+export const monthsBetween = (from: number, to: number): number => {
+  const a = new Date(from);
+  const b = new Date(to);
+  const months = (b.getFullYear() - a.getFullYear()) * 12 + (b.getMonth() - a.getMonth());
+  // Not a full month yet if the day of month hasn't been reached
+  return b.getDate() < a.getDate() ? months - 1 : months;
+};
+
+export const computeDiaryStats = (places: SavedPlace[], options: DiaryStatsOptions = {}): DiaryStats => {
+  const {
+    now = Date.now(),
+    period = 'week',
+    periodCount = 12,
+    topCount = 5,
+    dormantMonths = 3,
+    dormantMinRating = 4,
+  } = options;
+
+  const visited = places.filter(place => place.myCheckIns.length > 0);
+  const checkIns = visited.flatMap(place => place.myCheckIns);
+
+  const ratingDistribution = [0, 0, 0, 0, 0];
+  checkIns.filter(isRated).forEach(checkIn => {
+    ratingDistribution[Math.round(checkIn.rating) - 1]++;
+  });
+
+  const ranked: RankedPlace[] = visited.map(place => ({
+    place,
+    visits: place.myCheckIns.length,
+    average: averageRating(place) ?? 0,
+  }));
+
+  const topByVisits = [...ranked]
+    .sort((a, b) => b.visits - a.visits || b.average - a.average)
+    .slice(0, topCount);
+  const topByRating = [...ranked]
+    .sort((a, b) => b.average - a.average || b.visits - a.visits)
+    .slice(0, topCount);
+
+  const categoryMap = new Map<string | null, CategoryCount>();
+  visited.forEach(place => {
+    const category = place.category || null;
+    const entry = categoryMap.get(category) || { category, checkIns: 0, places: 0 };
+    entry.checkIns += place.myCheckIns.length;
+    entry.places++;
+    categoryMap.set(category, entry);
+  });
+
+  const dormant: DormantPlace[] = ranked
+    .filter(({ average }) => average >= dormantMinRating)
+    .map(({ place, average }) => ({ place, average, lastVisited: lastVisitedAt(place) as number }))
+    .filter(({ lastVisited }) => monthsBetween(lastVisited, now) >= dormantMonths)
+    .sort((a, b) => b.average - a.average || a.lastVisited - b.lastVisited);
+
+  return {
+    totalCheckIns: checkIns.length,
+    totalPlaces: visited.length,
+    checkInsByPeriod: countByPeriod(checkIns.map(c => c.timestamp), period, periodCount, now),
+    ratingDistribution,
+    topByVisits,
+    topByRating,
+    categories: [...categoryMap.values()].sort((a, b) => b.checkIns - a.checkIns),
+    // Every visited place has exactly one first visit
+    newVisits: visited.length,
+    repeatVisits: checkIns.length - visited.length,
+    dormant,
+  };
+};
@@ -0,0 +1,145 @@
+import { Coordinates } from '../types';
+
+// Minimal EXIF reader for JPEG photos: just the GPS position and capture time.
+// Must run on the original file; the image pipeline strips all metadata.
+
+export interface PhotoMetadata {
+  location?: Coordinates;
+  takenAt?: number; // ms since epoch
+}
+
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+const TAG_DATETIME_ORIGINAL = 0x9003;
+const TAG_OFFSET_TIME_ORIGINAL = 0x9011;
+const TAG_GPS_LATITUDE_REF = 0x0001;
+const TAG_GPS_LATITUDE = 0x0002;
+const TAG_GPS_LONGITUDE_REF = 0x0003;
+const TAG_GPS_LONGITUDE = 0x0004;
+
+// Bytes per component for each TIFF field type
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+
+interface IfdEntry {
+  type: number;
+  count: number;
+  valueOffset: number; // Absolute offset of the value within the view
+}
+
+class TiffReader {
+  constructor(private view: DataView, private start: number, private littleEndian: boolean) {}
+
+  uint16 = (offset: number) => this.view.getUint16(this.start + offset, this.littleEndian);
+  uint32 = (offset: number) => this.view.getUint32(this.start + offset, this.littleEndian);
+
+  readIfd(offset: number): Map<number, IfdEntry> {
+    const entries = new Map<number, IfdEntry>();
+    const count = this.uint16(offset);
+    for (let i = 0; i < count; i++) {
+      const entry = offset + 2 + i * 12;
+      const type = this.uint16(entry + 2);
+      const components = this.uint32(entry + 4);
+      const size = (TYPE_SIZES[type] || 1) * components;
+      // Values of four bytes or less are stored inline
+      const valueOffset = size <= 4 ? entry + 8 : this.uint32(entry + 8);
+      entries.set(this.uint16(entry), { type, count: components, valueOffset });
+    }
+    return entries;
+  }
+
+  ascii(entry: IfdEntry): string {
+    let result = '';
+    for (let i = 0; i < entry.count; i++) {
+      const code = this.view.getUint8(this.start + entry.valueOffset + i);
+      if (code === 0) break;
+      result += String.fromCharCode(code);
+    }
+    return result;
+  }
+
+  rationals(entry: IfdEntry): number[] {
+    return Array.from({ length: entry.count }, (_, i) => {
+      const numerator = this.uint32(entry.valueOffset + i * 8);
+      const denominator = this.uint32(entry.valueOffset + i * 8 + 4);
+      return denominator ? numerator / denominator : 0;
+    });
+  }
+}
+
+// Finds the TIFF block inside the APP1 "Exif" segment of a JPEG
+const findTiffStart = (view: DataView): number | null => {
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return null;
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    if ((marker & 0xff00) !== 0xff00) return null;
+    const length = view.getUint16(offset + 2);
+    if (marker === 0xffe1 && view.getUint32(offset + 4) === 0x45786966) { // "Exif"
+      return offset + 10;
+    }
+    if (marker === 0xffda) return null; // Start of scan: no more metadata
+    offset += 2 + length;
+  }
+  return null;
+};
+
+const toDegrees = ([degrees = 0, minutes = 0, seconds = 0]: number[]) => degrees + minutes / 60 + seconds / 3600;
+
+// "2026:10:19 12:30:05" plus an optional "+08:00"
+const parseExifDate = (value: string, offset?: string): number | undefined => {
+  const match = value.match(/^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/);
+  if (!match) return undefined;
+  const [, y, mo, d, h, mi, s] = match.map(Number);
+  if (offset && /^[+-]\d{2}:\d{2}$/.test(offset)) {
+    const sign = offset[0] === '-' ? -1 : 1;
+    const offsetMinutes = sign * (Number(offset.slice(1, 3)) * 60 + Number(offset.slice(4, 6)));
+    return Date.UTC(y, mo - 1, d, h, mi, s) - offsetMinutes * 60 * 1000;
+  }
+  // No zone recorded: assume the photo was taken in the device's time zone
+  const time = new Date(y, mo - 1, d, h, mi, s).getTime();
+  return Number.isNaN(time) ? undefined : time;
+};
+
+export const readPhotoMetadata = async (file: Blob): Promise<PhotoMetadata> => {
+  try {
+    // The APP1 segment is capped at 64 KB and comes right after the file header
+    const view = new DataView(await file.slice(0, 128 * 1024).arrayBuffer());
+    const tiffStart = findTiffStart(view);
+    if (tiffStart === null) return {};
+
+    const byteOrder = view.getUint16(tiffStart);
+    if (byteOrder !== 0x4949 && byteOrder !== 0x4d4d) return {};
+    const reader = new TiffReader(view, tiffStart, byteOrder === 0x4949);
+    const ifd0 = reader.readIfd(reader.uint32(4));
+
+    const metadata: PhotoMetadata = {};
+
+    const exifPointer = ifd0.get(TAG_EXIF_IFD);
+    if (exifPointer) {
+      const exif = reader.readIfd(reader.uint32(exifPointer.valueOffset));
+      const taken = exif.get(TAG_DATETIME_ORIGINAL);
+      const offset = exif.get(TAG_OFFSET_TIME_ORIGINAL);
+      if (taken) metadata.takenAt = parseExifDate(reader.ascii(taken), offset && reader.ascii(offset));
+    }
+
+    const gpsPointer = ifd0.get(TAG_GPS_IFD);
+    if (gpsPointer) {
+      const gps = reader.readIfd(reader.uint32(gpsPointer.valueOffset));
+      const lat = gps.get(TAG_GPS_LATITUDE);
+      const lng = gps.get(TAG_GPS_LONGITUDE);
+      if (lat && lng) {
+        const latRef = gps.get(TAG_GPS_LATITUDE_REF);
+        const lngRef = gps.get(TAG_GPS_LONGITUDE_REF);
+        const latitude = toDegrees(reader.rationals(lat)) * (latRef && reader.ascii(latRef) === 'S' ? -1 : 1);
+        const longitude = toDegrees(reader.rationals(lng)) * (lngRef && reader.ascii(lngRef) === 'W' ? -1 : 1);
+        if (latitude !== 0 || longitude !== 0) metadata.location = { latitude, longitude };
+      }
+    }
+
+    return metadata;
+  } catch (error) {
+    // Truncated or malformed metadata is common; treat it as absent
+    console.warn("Could not read photo metadata", error);
+    return {};
+  }
+};
@@ -1,21 +1,35 @@
-import { GoogleGenAI } from "@google/genai";
-import { Place, Coordinates } from '../types';
+import { GoogleGenAI, ToolConfig, Type } from "@google/genai";
+import { Coordinates, SavedPlace, PlaceSummary } from '../types';
+import { PlaceSearchResult, classifySearchError } from './placeSearch';
+import { parseGroundingChunks } from './groundingParser';
+import { buildSummaryPrompt, parseSummaryResponse, checkInsHash } from './placeSummary';
+import { buildDiaryQueryPrompt, sanitizeDiaryQuery, DiaryQuery } from './diaryQuery';
+import { Locale, PROMPT_LANGUAGES, getMessages } from './i18n';
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+// The Gemini requests themselves. They run on the AI proxy (server/aiProxy.ts), which holds
+// the API key; the app reaches them through aiService, or calls them directly in local dev.
+
+// The part of the SDK we call. Every request takes the client, so a local fake can stand in.
+export type GeminiClient = Pick<GoogleGenAI['models'], 'generateContent'>;
+
+export const createGeminiClient = (apiKey: string): GeminiClient => new GoogleGenAI({ apiKey }).models;
 
 // Using generic text model for search with grounding tools
 const MODEL_NAME = 'gemini-2.5-flash';
 
 export const searchPlacesWithGemini = async (
   query: string, 
-  userLocation?: Coordinates
-): Promise<Place[]> => {
+  userLocation: Coordinates | undefined,
+  client: GeminiClient,
+  language: Locale,
+  signal?: AbortSignal
+): Promise<PlaceSearchResult> => {
   try {
     // Enhanced prompt to strictly prioritize location if provided
     const locationPrompt = userLocation ? `Search near the provided location (lat: ${userLocation.latitude}, lng: ${userLocation.longitude}).` : '';
-    const prompt = `Find places matching "${query}". ${locationPrompt} Return a list of specific locations. Provide the place name in Traditional Chinese (繁體中文).`;
+    const prompt = `Find places matching "${query}". ${locationPrompt} Return a list of specific locations. Provide the place name in ${PROMPT_LANGUAGES[language]}.`;
 
-    const toolConfig: any = {};
+    const toolConfig: ToolConfig = {};
     
     // Add location context if available
     if (userLocation) {
@@ -27,66 +41,115 @@ export const searchPlacesWithGemini = async (
       };
     }
 
-    const response = await ai.models.generateContent({
+    const response = await client.generateContent({
       model: MODEL_NAME,
       contents: prompt,
       config: {
         tools: [{ googleMaps: {} }],
         toolConfig: toolConfig,
+        abortSignal: signal,
       },
     });
 
-    const candidates = response.candidates;
-    if (!candidates || candidates.length === 0) return [];
-
-    const groundingChunks = candidates[0].groundingMetadata?.groundingChunks;
-    
-    if (!groundingChunks) return [];
-
-    const places: Place[] = [];
+    const groundingChunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks;
+    const { places, skipped } = parseGroundingChunks(groundingChunks);
 
-    // Parse grounding chunks to extract map data
-    groundingChunks.forEach((chunk: any) => {
-        if (chunk.maps) {
-            const mapData = chunk.maps;
-             
-             if (mapData.title) {
-                 places.push({
-                     id: mapData.placeId || Math.random().toString(36).substr(2, 9),
-                     name: mapData.title,
-                     googleMapsUri: mapData.uri,
-                     address: mapData.address, 
-                     location: {
-                         latitude: mapData.center?.latitude || userLocation?.latitude || 0,
-                         longitude: mapData.center?.longitude || userLocation?.longitude || 0,
-                     }
-                 });
-             }
-        }
-    });
+    if (skipped.length > 0) {
+      console.warn(`Skipped ${skipped.length} grounding result(s):`, skipped);
+    }
 
-    return places;
+    return places.length > 0
+      ? { status: 'ok', places, skipped: skipped.length }
+      : { status: 'empty', skipped: skipped.length };
 
   } catch (error) {
     console.error("Error searching places:", error);
-    return [];
+    return {
+      status: 'error',
+      kind: classifySearchError(error),
+      message: error instanceof Error ? error.message : String(error),
+    };
   }
 };
 
-// Helper to analyze a photo using Gemini (Bonus feature)
-export const analyzeFoodPhoto = async (base64Image: string): Promise<string> => {
-    try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: {
-                parts: [
-                    { inlineData: { mimeType: 'image/jpeg', data: base64Image } },
-                    { text: "請用一句簡短、令人垂涎的繁體中文描述這道食物。" }
-                ]
-            }
-        });
-        return response.text || "看起來很美味！";
-    } catch (e) {
-        return "看起來很美味！";
-    }
-}
\ No newline at end of file
+// Helper to analyze a photo using Gemini (Bonus feature).
+// Errors are thrown so an offline failure can be queued instead of losing the description.
+export const analyzeFoodPhoto = async (
+  base64Image: string,
+  mimeType: string,
+  client: GeminiClient,
+  language: Locale
+): Promise<string> => {
+    const response = await client.generateContent({
+        model: 'gemini-2.5-flash',
+        contents: {
+            parts: [
+                { inlineData: { mimeType, data: base64Image } },
+                { text: `Describe this food in one short, mouth-watering sentence in ${PROMPT_LANGUAGES[language]}.` }
+            ]
+        }
+    });
+    // The model had nothing to say about the photo
+    return response.text || getMessages(language).checkIn.fallbackDescription;
+}
+
+// Summarizes a place from our own check-ins: what to order, what to avoid, how it's trending.
+// Errors are thrown as-is; callers can classify them with classifySearchError.
+export const summarizePlace = async (
+  place: SavedPlace,
+  client: GeminiClient,
+  language: Locale
+): Promise<PlaceSummary> => {
+  const response = await client.generateContent({
+    model: MODEL_NAME,
+    contents: buildSummaryPrompt(place, PROMPT_LANGUAGES[language]),
+    config: {
+      responseMimeType: 'application/json',
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: {
+          order: { type: Type.STRING },
+          avoid: { type: Type.STRING },
+          trend: { type: Type.STRING },
+        },
+        required: ['order', 'avoid', 'trend'],
+      },
+    },
+  });
+  return {
+    ...parseSummaryResponse(response.text),
+    checkInsHash: checkInsHash(place.myCheckIns),
+    language,
+    generatedAt: Date.now(),
+  };
+};
+
+// Turns a question about our diary into filters. Only the question is sent; the diary stays local.
+export const parseDiaryQuestion = async (
+  question: string,
+  client: GeminiClient
+): Promise<DiaryQuery> => {
+  const response = await client.generateContent({
+    model: MODEL_NAME,
+    contents: buildDiaryQueryPrompt(question),
+    config: {
+      responseMimeType: 'application/json',
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: {
+          category: { type: Type.STRING },
+          minRating: { type: Type.NUMBER },
+          visitedFrom: { type: Type.STRING },
+          visitedTo: { type: Type.STRING },
+          maxDistanceMeters: { type: Type.NUMBER },
+          minVisits: { type: Type.INTEGER },
+          maxVisits: { type: Type.INTEGER },
+          keyword: { type: Type.STRING },
+          sortBy: { type: Type.STRING, enum: ['distance', 'averageRating', 'visitCount', 'lastVisited'] },
+          limit: { type: Type.INTEGER },
+        },
+      },
+    },
+  });
+  return sanitizeDiaryQuery(JSON.parse(response.text || '{}'));
+};
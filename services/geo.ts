@@ -0,0 +1,26 @@
+import { Coordinates } from '../types';
+import { TileBounds } from './offlineTiles';
+import { getMessages, formatNumber } from './i18n';
+
+const EARTH_RADIUS_METERS = 6371000;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+// Great-circle distance using the haversine formula
+export const distanceInMeters = (a: Coordinates, b: Coordinates): number => {
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLng = toRadians(b.longitude - a.longitude);
+  const h = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.sqrt(h));
+};
+
+export const formatDistance = (meters: number): string => {
+  const { units } = getMessages();
+  return meters < 1000
+    ? units.meters(formatNumber(Math.round(meters)))
+    : units.kilometers(formatNumber(meters / 1000, { minimumFractionDigits: 1, maximumFractionDigits: 1 }));
+};
+
+export const isWithinBounds = ({ latitude, longitude }: Coordinates, bounds: TileBounds): boolean =>
+  latitude <= bounds.north && latitude >= bounds.south && longitude >= bounds.west && longitude <= bounds.east;
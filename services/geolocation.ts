@@ -0,0 +1,128 @@
+import { Coordinates } from '../types';
+
+// Where our position comes from. The browser is the real source; the simulated
+// one replays positions so tracking and proximity prompts can be exercised without moving.
+
+export interface GeoPosition {
+  location: Coordinates;
+  accuracy: number; // meters, radius of 68% confidence
+  timestamp: number;
+}
+
+export type GeolocationErrorKind = 'denied' | 'unavailable' | 'timeout' | 'unsupported';
+
+export class GeolocationError extends Error {
+  kind: GeolocationErrorKind;
+
+  constructor(kind: GeolocationErrorKind, message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'GeolocationError';
+    this.kind = kind;
+  }
+}
+
+export interface GeolocationSource {
+  getCurrentPosition: () => Promise<GeoPosition>;
+  // Returns a function that stops watching
+  watchPosition: (onPosition: (position: GeoPosition) => void, onError: (error: GeolocationError) => void) => () => void;
+}
+
+const ERROR_KINDS: Record<number, GeolocationErrorKind> = {
+  1: 'denied', // PERMISSION_DENIED
+  2: 'unavailable', // POSITION_UNAVAILABLE
+  3: 'timeout', // TIMEOUT
+};
+
+const toGeolocationError = (error: GeolocationPositionError) =>
+  new GeolocationError(ERROR_KINDS[error.code] || 'unavailable', error.message, { cause: error });
+
+const toGeoPosition = (position: GeolocationPosition): GeoPosition => ({
+  location: { latitude: position.coords.latitude, longitude: position.coords.longitude },
+  accuracy: position.coords.accuracy,
+  timestamp: position.timestamp,
+});
+
+export const createBrowserGeolocationSource = (options: PositionOptions = {
+  enableHighAccuracy: true,
+  timeout: 15000,
+  maximumAge: 30000,
+}): GeolocationSource => {
+  const unsupported = () => new GeolocationError('unsupported', 'Geolocation is not available');
+  return {
+    getCurrentPosition: () => new Promise((resolve, reject) => {
+      if (!navigator.geolocation) return reject(unsupported());
+      navigator.geolocation.getCurrentPosition(
+        position => resolve(toGeoPosition(position)),
+        error => reject(toGeolocationError(error)),
+        options
+      );
+    }),
+    watchPosition: (onPosition, onError) => {
+      if (!navigator.geolocation) {
+        onError(unsupported());
+        return () => {};
+      }
+      const id = navigator.geolocation.watchPosition(
+        position => onPosition(toGeoPosition(position)),
+        error => onError(toGeolocationError(error)),
+        options
+      );
+      return () => navigator.geolocation.clearWatch(id);
+    },
+  };
+};
+
+export interface SimulatedGeolocationSource extends GeolocationSource {
+  // Moves to the position and tells every watcher
+  emit: (location: Coordinates, accuracy?: number) => void;
+  fail: (kind: GeolocationErrorKind) => void;
+}
+
+// Starts at `initial` (or with no fix, so getCurrentPosition times out) and walks along
+// `route`, one point every `intervalMs`, when a route is given
+export const createSimulatedGeolocationSource = ({
+  initial,
+  route = [],
+  intervalMs = 3000,
+  accuracy = 15,
+}: { initial?: Coordinates; route?: Coordinates[]; intervalMs?: number; accuracy?: number } = {}): SimulatedGeolocationSource => {
+  let current: GeoPosition | null = initial ? { location: initial, accuracy, timestamp: Date.now() } : null;
+  const watchers = new Set<{ onPosition: (position: GeoPosition) => void; onError: (error: GeolocationError) => void }>();
+
+  const emit = (location: Coordinates, positionAccuracy = accuracy) => {
+    current = { location, accuracy: positionAccuracy, timestamp: Date.now() };
+    watchers.forEach(watcher => watcher.onPosition(current!));
+  };
+
+  return {
+    emit,
+    fail: (kind) => watchers.forEach(watcher => watcher.onError(new GeolocationError(kind, `Simulated ${kind}`))),
+    getCurrentPosition: async () => {
+      if (!current) throw new GeolocationError('timeout', 'No simulated position yet');
+      return current;
+    },
+    watchPosition: (onPosition, onError) => {
+      const watcher = { onPosition, onError };
+      watchers.add(watcher);
+      if (current) onPosition(current);
+      let step = 0;
+      const timer = route.length
+        ? setInterval(() => emit(route[step++ % route.length]), intervalMs)
+        : undefined;
+      return () => {
+        watchers.delete(watcher);
+        clearInterval(timer);
+      };
+    },
+  };
+};
+
+// `?simulate-location=25.033,121.565` starts a simulated source there, for trying things out at a desk
+export const geolocationSourceFromUrl = (search: string): GeolocationSource => {
+  const value = new URLSearchParams(search).get('simulate-location');
+  const [latitude, longitude] = (value || '').split(',').map(Number);
+  if (value && Number.isFinite(latitude) && Number.isFinite(longitude)) {
+    return createSimulatedGeolocationSource({ initial: { latitude, longitude } });
+  }
+  return createBrowserGeolocationSource();
+};
@@ -0,0 +1,89 @@
+import { readFileSync } from 'fs';
+import { describe, expect, it } from 'vitest';
+import { parseGroundingChunks, stablePlaceId } from './groundingParser';
+
+// Recorded generateContent responses; the parser only ever sees their grounding chunks
+const loadChunks = (name: string): unknown => {
+  const response = JSON.parse(readFileSync(new URL(`./__fixtures__/${name}.json`, import.meta.url), 'utf8'));
+  return response.candidates[0].groundingMetadata.groundingChunks;
+};
+
+describe('parseGroundingChunks', () => {
+  it('turns Maps chunks into places and ignores web chunks', () => {
+    const { places, skipped } = parseGroundingChunks(loadChunks('grounding-valid'));
+
+    expect(skipped).toEqual([]);
+    expect(places).toEqual([
+      {
+        id: 'places/ChIJ4xSmJ6SpQjQRqQEu0n-tVbE',
+        name: '一蘭 台灣台北本店',
+        address: '106台北市大安區忠孝東路四段181巷6號',
+        googleMapsUri: 'https://maps.google.com/?cid=11894529475326012521',
+        location: { latitude: 25.0413, longitude: 121.5535 },
+        rating: 4.3,
+        reviews: 21873,
+      },
+      {
+        id: 'places/ChIJ0c3G0CmpQjQRRfuLJ3NcLzA',
+        name: '麵屋武藏 本店',
+        address: undefined,
+        googleMapsUri: 'https://maps.google.com/?cid=3471652911307446853',
+        location: { latitude: 25.0446, longitude: 121.5318 },
+        rating: undefined,
+        reviews: undefined,
+      },
+    ]);
+  });
+
+  it('skips chunks without a title or usable coordinates, and keeps ones without a URI', () => {
+    const { places, skipped } = parseGroundingChunks(loadChunks('grounding-incomplete'));
+
+    expect(places).toHaveLength(1);
+    expect(places[0].name).toBe('鼎泰豐 信義店');
+    expect(places[0].googleMapsUri).toBeUndefined();
+    expect(places[0].id).toMatch(/^geo-[0-9a-f]{8}$/);
+
+    expect(skipped).toEqual([
+      { reason: 'missing-title' },
+      { reason: 'missing-title' },
+      { title: '阜杭豆漿', reason: 'missing-coordinates' },
+      { title: '金峰滷肉飯', reason: 'missing-coordinates' },
+      { title: '永康牛肉麵', reason: 'missing-coordinates' },
+    ]);
+  });
+
+  it('keeps the first of several chunks for the same place', () => {
+    const { places, skipped } = parseGroundingChunks(loadChunks('grounding-duplicates'));
+
+    expect(places.map(p => p.name)).toEqual(['一蘭 台灣台北本店', '林東芳牛肉麵']);
+    expect(skipped).toEqual([
+      { title: '一蘭 台北本店', reason: 'duplicate' },
+      { title: '林東芳牛肉麵', reason: 'duplicate' },
+    ]);
+  });
+
+  it('returns nothing for a response without grounding', () => {
+    expect(parseGroundingChunks(undefined)).toEqual({ places: [], skipped: [] });
+    expect(parseGroundingChunks({})).toEqual({ places: [], skipped: [] });
+  });
+});
+
+describe('stablePlaceId', () => {
+  const location = { latitude: 25.0413, longitude: 121.5535 };
+
+  it('prefers the Maps place ID, then the URI, then name and position', () => {
+    expect(stablePlaceId('places/abc', 'https://maps.google.com/?cid=1', '一蘭', location)).toBe('places/abc');
+    expect(stablePlaceId(undefined, 'https://maps.google.com/?cid=1', '一蘭', location)).toMatch(/^uri-[0-9a-f]{8}$/);
+    expect(stablePlaceId(undefined, undefined, '一蘭', location)).toMatch(/^geo-[0-9a-f]{8}$/);
+  });
+
+  it('gives the same place the same id across searches', () => {
+    const uri = 'https://maps.google.com/?cid=42';
+    expect(stablePlaceId(undefined, uri, 'a', location)).toBe(stablePlaceId(undefined, uri, 'b', location));
+    // Positions are compared to about a metre
+    expect(stablePlaceId(undefined, undefined, '一蘭', location))
+      .toBe(stablePlaceId(undefined, undefined, '一蘭', { latitude: 25.041300001, longitude: 121.553500001 }));
+    expect(stablePlaceId(undefined, undefined, '一蘭', location))
+      .not.toBe(stablePlaceId(undefined, undefined, '一蘭 2', location));
+  });
+});
@@ -0,0 +1,117 @@
+import { Place } from '../types';
+
+// Why a grounding chunk could not be turned into a place
+export type SkipReason = 'missing-title' | 'missing-coordinates' | 'duplicate';
+
+export interface SkippedChunk {
+  title?: string;
+  reason: SkipReason;
+}
+
+export interface GroundingParseResult {
+  places: Place[];
+  skipped: SkippedChunk[];
+}
+
+// The fields we read from `chunk.maps`. The SDK types are incomplete (no
+// `center` or `address`), so every field is checked at runtime.
+interface MapsChunkFields {
+  title?: unknown;
+  uri?: unknown;
+  placeId?: unknown;
+  address?: unknown;
+  center?: unknown;
+  rating?: unknown;
+  userRatingCount?: unknown;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null;
+
+const nonEmptyString = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() !== '' ? value.trim() : undefined;
+
+// Google ratings are 1-5; anything else is dropped
+const parseRating = (value: unknown): number | undefined =>
+  typeof value === 'number' && value >= 1 && value <= 5 ? value : undefined;
+
+const parseCount = (value: unknown): number | undefined => {
+  const count = typeof value === 'string' ? Number(value) : value; // int64 may arrive as a string
+  return typeof count === 'number' && Number.isInteger(count) && count >= 0 ? count : undefined;
+};
+
+const parseCoordinates = (value: unknown): Place['location'] | null => {
+  if (!isObject(value)) return null;
+  const { latitude, longitude } = value;
+  if (typeof latitude !== 'number' || typeof longitude !== 'number') return null;
+  if (!Number.isFinite(latitude) || !Number.isFinite(longitude)) return null;
+  if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) return null;
+  // 0,0 is what a missing protobuf message decodes to, not a real restaurant
+  if (latitude === 0 && longitude === 0) return null;
+  return { latitude, longitude };
+};
+
+// 32-bit FNV-1a, enough to turn a URI into a short stable key
+export const hashString = (value: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+// Same place, same id, across searches: the Maps place ID when present,
+// otherwise derived from the Maps URI, otherwise from name and position.
+export const stablePlaceId = (placeId: string | undefined, uri: string | undefined, title: string, location: Place['location']): string => {
+  if (placeId) return placeId;
+  if (uri) return `uri-${hashString(uri)}`;
+  return `geo-${hashString(`${title}@${location.latitude.toFixed(5)},${location.longitude.toFixed(5)}`)}`;
+};
+
+export const parseGroundingChunks = (chunks: unknown): GroundingParseResult => {
+  const result: GroundingParseResult = { places: [], skipped: [] };
+  if (!Array.isArray(chunks)) return result;
+
+  const seen = new Set<string>();
+
+  chunks.forEach((chunk: unknown) => {
+    if (!isObject(chunk) || !isObject(chunk.maps)) {
+      // Web grounding chunks and the like are expected; not worth reporting
+      return;
+    }
+    const maps = chunk.maps as MapsChunkFields;
+
+    const title = nonEmptyString(maps.title);
+    if (!title) {
+      result.skipped.push({ reason: 'missing-title' });
+      return;
+    }
+
+    const location = parseCoordinates(maps.center);
+    if (!location) {
+      result.skipped.push({ title, reason: 'missing-coordinates' });
+      return;
+    }
+
+    const uri = nonEmptyString(maps.uri);
+    const id = stablePlaceId(nonEmptyString(maps.placeId), uri, title, location);
+    if (seen.has(id)) {
+      result.skipped.push({ title, reason: 'duplicate' });
+      return;
+    }
+    seen.add(id);
+
+    result.places.push({
+      id,
+      name: title,
+      address: nonEmptyString(maps.address),
+      googleMapsUri: uri,
+      location,
+      rating: parseRating(maps.rating),
+      reviews: parseCount(maps.userRatingCount),
+    });
+  });
+
+  return result;
+};
@@ -0,0 +1,87 @@
+import { zhTW, Messages } from '../locales/zh-TW';
+import { en } from '../locales/en';
+import { ja } from '../locales/ja';
+
+// The app's languages and their message catalogs (locales/), plus locale-aware formatting.
+// Components read messages through useI18n (components/I18nProvider.tsx); services that build
+// text outside React use getMessages, which follows the language picked in the app.
+
+export type Locale = 'zh-TW' | 'en' | 'ja';
+
+export type { Messages };
+
+export const LOCALES: { value: Locale; label: string }[] = [
+  { value: 'zh-TW', label: '繁體中文' },
+  { value: 'en', label: 'English' },
+  { value: 'ja', label: '日本語' },
+];
+
+export const DEFAULT_LOCALE: Locale = 'zh-TW';
+
+const CATALOGS: Record<Locale, Messages> = { 'zh-TW': zhTW, en, ja };
+
+// How Gemini is told which language to answer in
+export const PROMPT_LANGUAGES: Record<Locale, string> = {
+  'zh-TW': 'Traditional Chinese (繁體中文)',
+  en: 'English',
+  ja: 'Japanese (日本語)',
+};
+
+const LOCALE_STORAGE_KEY = 'gourmet_map_locale';
+
+export const isLocale = (value: unknown): value is Locale => LOCALES.some(locale => locale.value === value);
+
+// The first of the browser's languages we have, e.g. "ja-JP" → ja; any Chinese → zh-TW
+export const detectLocale = (languages: readonly string[]): Locale => {
+  for (const language of languages) {
+    const base = language.toLowerCase().split('-')[0];
+    if (base === 'zh') return 'zh-TW';
+    if (isLocale(base)) return base;
+  }
+  return DEFAULT_LOCALE;
+};
+
+export const loadLocale = (): Locale => {
+  try {
+    const stored = localStorage.getItem(LOCALE_STORAGE_KEY);
+    if (isLocale(stored)) return stored;
+  } catch {
+    // Storage blocked; fall back to the browser's languages
+  }
+  return detectLocale(typeof navigator === 'undefined' ? [] : navigator.languages || [navigator.language]);
+};
+
+export const saveLocale = (locale: Locale) => {
+  localStorage.setItem(LOCALE_STORAGE_KEY, locale);
+};
+
+// The language the app currently shows, set by I18nProvider
+let currentLocale: Locale = DEFAULT_LOCALE;
+
+export const getLocale = (): Locale => currentLocale;
+
+export const setLocale = (locale: Locale) => {
+  currentLocale = locale;
+};
+
+export const getMessages = (locale: Locale = currentLocale): Messages => CATALOGS[locale];
+
+// A cuisine category's short name and longer label. Places store the zh-TW name, which
+// categories we don't know (e.g. from an older version) show as is.
+export const categoryText = (name: string, t: Messages = getMessages()): { name: string; label: string } =>
+  (t.categories as Record<string, { name: string; label: string }>)[name] ?? { name, label: name };
+
+// --- Formatting ---
+
+export const formatDate = (value: number | Date, options?: Intl.DateTimeFormatOptions, locale: Locale = currentLocale) =>
+  new Date(value).toLocaleDateString(locale, options);
+
+export const formatDateTime = (value: number | Date, options?: Intl.DateTimeFormatOptions, locale: Locale = currentLocale) =>
+  new Date(value).toLocaleString(locale, options);
+
+export const formatNumber = (value: number, options?: Intl.NumberFormatOptions, locale: Locale = currentLocale) =>
+  new Intl.NumberFormat(locale, options).format(value);
+
+// Joins a few words as a list: "a, b, and c", 「a、b 和 c」
+export const formatList = (items: string[], locale: Locale = currentLocale) =>
+  new Intl.ListFormat(locale, { style: 'short', type: 'conjunction' }).format(items);
@@ -0,0 +1,110 @@
+import { CheckInPhoto } from '../types';
+import { blobToDataUrl } from './dataUrl';
+import { getMessages } from './i18n';
+
+export interface ImagePipelineOptions {
+  maxDimension: number; // Longest edge of the stored photo, px
+  thumbnailDimension: number; // Longest edge of the thumbnail, px
+  quality: number; // 0-1, for lossy output formats
+}
+
+export const DEFAULT_IMAGE_OPTIONS: ImagePipelineOptions = {
+  maxDimension: 1600,
+  thumbnailDimension: 320,
+  quality: 0.82,
+};
+
+export class ImageProcessingError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'ImageProcessingError';
+  }
+}
+
+// Decodes with EXIF orientation applied, so portrait phone photos stay upright
+const decodeImage = async (file: Blob): Promise<ImageBitmap | HTMLImageElement> => {
+  if (typeof createImageBitmap === 'function') {
+    try {
+      return await createImageBitmap(file, { imageOrientation: 'from-image' });
+    } catch {
+      // Fall through to <img>, which some browsers can decode when ImageBitmap can't
+    }
+  }
+  const url = URL.createObjectURL(file);
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+    return image;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality: number): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(
+      blob => (blob ? resolve(blob) : reject(new ImageProcessingError(getMessages().photos.cantCompress))),
+      type,
+      quality
+    );
+  });
+
+// Draws the image scaled so its longest edge is at most `maxDimension`.
+// Re-encoding through a canvas drops every metadata block, EXIF GPS included.
+const renderScaled = (
+  source: ImageBitmap | HTMLImageElement,
+  maxDimension: number,
+  type: string,
+  quality: number
+): Promise<Blob> => {
+  const width = source.width;
+  const height = source.height;
+  const scale = Math.min(1, maxDimension / Math.max(width, height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width * scale));
+  canvas.height = Math.max(1, Math.round(height * scale));
+
+  const context = canvas.getContext('2d');
+  if (!context) throw new ImageProcessingError(getMessages().photos.unsupportedBrowser);
+  if (type === 'image/jpeg') {
+    // JPEG has no alpha channel; transparent areas would turn black
+    context.fillStyle = '#fff';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+  }
+  context.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return canvasToBlob(canvas, type, quality);
+};
+
+// PNG keeps transparency (stickers, screenshots); everything else becomes JPEG
+const outputTypeFor = (inputType: string) => (inputType === 'image/png' ? 'image/png' : 'image/jpeg');
+
+// Resizes, recompresses and strips metadata from a picked file, and makes a thumbnail
+export const processPhoto = async (
+  file: Blob,
+  options: Partial<ImagePipelineOptions> = {}
+): Promise<CheckInPhoto> => {
+  const { maxDimension, thumbnailDimension, quality } = { ...DEFAULT_IMAGE_OPTIONS, ...options };
+
+  let source: ImageBitmap | HTMLImageElement;
+  try {
+    source = await decodeImage(file);
+  } catch (error) {
+    throw new ImageProcessingError(getMessages().photos.unreadable, { cause: error });
+  }
+
+  try {
+    const type = outputTypeFor(file.type);
+    const [full, thumbnail] = await Promise.all([
+      renderScaled(source, maxDimension, type, quality),
+      renderScaled(source, thumbnailDimension, 'image/jpeg', quality),
+    ]);
+    return {
+      id: crypto.randomUUID(),
+      src: await blobToDataUrl(full),
+      thumbnail: await blobToDataUrl(thumbnail),
+    };
+  } finally {
+    if ('close' in source) source.close();
+  }
+};
@@ -0,0 +1,137 @@
+import { deflateSync, inflateSync, strToU8, strFromU8 } from 'fflate';
+import { Place, SavedPlace, PlaceList, SharedList } from '../types';
+import { getMessages } from './i18n';
+import { isListIcon, isListColor } from './placeLists';
+
+// Self-contained snapshots of a list that another copy of the app can import.
+// Only public place details travel; check-ins, notes and photos stay private.
+
+export const SHARED_LIST_FORMAT = 'gourmet-map-list';
+export const SHARED_LIST_VERSION = 1;
+const LINK_PARAM = 'list';
+
+type SharedPlace = Pick<Place, 'id' | 'name' | 'address' | 'location' | 'category' | 'googleMapsUri'>;
+
+interface SharedListPayload {
+  format: typeof SHARED_LIST_FORMAT;
+  version: number;
+  name: string;
+  icon: string;
+  color: string;
+  places: SharedPlace[];
+}
+
+export class ListShareError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'ListShareError';
+  }
+}
+
+const toPayload = (list: PlaceList, places: SavedPlace[]): SharedListPayload => ({
+  format: SHARED_LIST_FORMAT,
+  version: SHARED_LIST_VERSION,
+  name: list.name,
+  icon: list.icon,
+  color: list.color,
+  places: places
+    .filter(place => place.listIds?.includes(list.id))
+    .map(({ id, name, address, location, category, googleMapsUri }) => ({ id, name, address, location, category, googleMapsUri })),
+});
+
+// --- Encoding ---
+
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (value: string): Uint8Array => {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+};
+
+// The whole list lives in the URL fragment, which never reaches a server
+export const createShareLink = (list: PlaceList, places: SavedPlace[], base = `${location.origin}${location.pathname}`): string => {
+  const compressed = deflateSync(strToU8(JSON.stringify(toPayload(list, places))), { level: 9 });
+  return `${base}#${LINK_PARAM}=${toBase64Url(compressed)}`;
+};
+
+export const exportListFile = (list: PlaceList, places: SavedPlace[]): Blob =>
+  new Blob([JSON.stringify(toPayload(list, places), null, 2)], { type: 'application/json' });
+
+// --- Decoding ---
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// The app links to it, so nothing like javascript: may come through
+const isHttpsUrl = (value: unknown): value is string => {
+  if (typeof value !== 'string') return false;
+  try {
+    return new URL(value).protocol === 'https:';
+  } catch {
+    return false;
+  }
+};
+
+const validPlace = (value: unknown): value is SharedPlace => {
+  if (!isObject(value) || typeof value.id !== 'string' || typeof value.name !== 'string') return false;
+  const location = value.location;
+  return isObject(location)
+    && typeof location.latitude === 'number' && Math.abs(location.latitude) <= 90
+    && typeof location.longitude === 'number' && Math.abs(location.longitude) <= 180;
+};
+
+const toSharedList = (value: unknown): SharedList => {
+  if (!isObject(value) || value.format !== SHARED_LIST_FORMAT) {
+    throw new ListShareError(getMessages().listShare.notAList);
+  }
+  if (typeof value.version !== 'number' || value.version > SHARED_LIST_VERSION) {
+    throw new ListShareError(getMessages().listShare.tooNew);
+  }
+  if (typeof value.name !== 'string' || !Array.isArray(value.places)) {
+    throw new ListShareError(getMessages().listShare.incomplete);
+  }
+  const places = value.places.filter(validPlace).map(({ id, name, address, location, category, googleMapsUri }) => ({
+    id,
+    name,
+    address: typeof address === 'string' ? address : undefined,
+    location: { latitude: location.latitude, longitude: location.longitude },
+    category: typeof category === 'string' ? category : undefined,
+    googleMapsUri: isHttpsUrl(googleMapsUri) ? googleMapsUri : undefined,
+  }));
+  return {
+    id: crypto.randomUUID(),
+    name: value.name,
+    icon: isListIcon(value.icon) ? value.icon : '📌',
+    color: isListColor(value.color) ? value.color : '#f59e0b',
+    visible: true,
+    places,
+    importedAt: Date.now(),
+  };
+};
+
+// Reads a shared list from a URL fragment like "#list=…"; null when there is none
+export const parseShareHash = (hash: string): SharedList | null => {
+  const encoded = new URLSearchParams(hash.replace(/^#/, '')).get(LINK_PARAM);
+  if (!encoded) return null;
+  let payload: unknown;
+  try {
+    payload = JSON.parse(strFromU8(inflateSync(fromBase64Url(encoded))));
+  } catch (error) {
+    throw new ListShareError(getMessages().listShare.brokenLink, { cause: error });
+  }
+  return toSharedList(payload);
+};
+
+export const parseListFile = async (file: Blob): Promise<SharedList> => {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(await file.text());
+  } catch (error) {
+    throw new ListShareError(getMessages().listShare.unreadableFile, { cause: error });
+  }
+  return toSharedList(payload);
+};
@@ -0,0 +1,35 @@
+// Grid-based marker clustering in screen space. Callers project coordinates to
+// pixels at the current zoom, so the same module works for any map library.
+
+export interface PixelPoint {
+  x: number;
+  y: number;
+}
+
+export interface Cluster<T> {
+  items: T[];
+  center: PixelPoint; // Mean position of the members, in pixels
+}
+
+export const clusterPoints = <T>(
+  items: T[],
+  project: (item: T) => PixelPoint,
+  cellSize: number
+): Cluster<T>[] => {
+  const cells = new Map<string, { items: T[]; sumX: number; sumY: number }>();
+
+  items.forEach(item => {
+    const point = project(item);
+    const key = `${Math.floor(point.x / cellSize)}:${Math.floor(point.y / cellSize)}`;
+    const cell = cells.get(key) || { items: [], sumX: 0, sumY: 0 };
+    cell.items.push(item);
+    cell.sumX += point.x;
+    cell.sumY += point.y;
+    cells.set(key, cell);
+  });
+
+  return [...cells.values()].map(cell => ({
+    items: cell.items,
+    center: { x: cell.sumX / cell.items.length, y: cell.sumY / cell.items.length },
+  }));
+};
@@ -0,0 +1,78 @@
+import { Place, Coordinates } from '../types';
+import { PlaceSearchProvider, PlaceSearchError, classifySearchError } from './placeSearch';
+
+interface NominatimOptions {
+  baseUrl: string; // e.g. https://nominatim.openstreetmap.org or a local stand-in
+  limit?: number;
+  language?: string;
+  viewboxDegrees?: number; // Half-size of the biasing box around `near`
+}
+
+// Subset of the jsonv2 response fields we use
+interface NominatimResult {
+  osm_type?: string;
+  osm_id?: number;
+  place_id?: number;
+  lat: string;
+  lon: string;
+  name?: string;
+  display_name: string;
+}
+
+const toPlace = (result: NominatimResult): Place | null => {
+  const latitude = parseFloat(result.lat);
+  const longitude = parseFloat(result.lon);
+  if (!Number.isFinite(latitude) || !Number.isFinite(longitude)) return null;
+
+  const id = result.osm_type && result.osm_id
+    ? `osm:${result.osm_type}/${result.osm_id}`
+    : `osm:place/${result.place_id}`;
+
+  return {
+    id,
+    name: result.name || result.display_name.split(',')[0].trim(),
+    address: result.display_name,
+    location: { latitude, longitude },
+  };
+};
+
+// Place search against any Nominatim-compatible `/search` endpoint
+export const createNominatimSearchProvider = ({
+  baseUrl,
+  limit = 10,
+  language = 'zh-TW',
+  viewboxDegrees = 0.05,
+}: NominatimOptions): PlaceSearchProvider => ({
+  id: 'nominatim',
+  name: 'OpenStreetMap',
+  search: async (query: string, near?: Coordinates, signal?: AbortSignal) => {
+    const params = new URLSearchParams({
+      q: query,
+      format: 'jsonv2',
+      limit: String(limit),
+      'accept-language': language,
+    });
+    if (near) {
+      // left,top,right,bottom; not bounded so far-away exact matches still show up
+      params.set('viewbox', [
+        near.longitude - viewboxDegrees,
+        near.latitude + viewboxDegrees,
+        near.longitude + viewboxDegrees,
+        near.latitude - viewboxDegrees,
+      ].join(','));
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl.replace(/\/$/, '')}/search?${params}`, { signal });
+    } catch (error) {
+      throw new PlaceSearchError('network', 'Nominatim is unreachable', { cause: error });
+    }
+    if (!response.ok) {
+      const error = { status: response.status, message: `Nominatim responded with ${response.status}` };
+      throw new PlaceSearchError(classifySearchError(error), error.message);
+    }
+    const results: NominatimResult[] = await response.json();
+    return results.map(toPlace).filter((place): place is Place => place !== null);
+  },
+});
@@ -0,0 +1,117 @@
+// OSM tiles saved for offline use. The page downloads them into a Cache Storage
+// cache that the service worker (public/sw.js) serves from when the network is gone.
+
+// Keep in sync with TILE_CACHE in public/sw.js
+export const TILE_CACHE = 'gourmet-map-tiles-v1';
+export const TILE_URL_TEMPLATE = 'https://tile.openstreetmap.org/{z}/{x}/{y}.png';
+
+// The OSM tile usage policy discourages bulk downloads, so areas are kept small
+export const MAX_DOWNLOAD_TILES = 2000;
+export const MAX_DOWNLOAD_ZOOM = 17;
+const CONCURRENCY = 2;
+
+export interface TileBounds {
+  north: number;
+  south: number;
+  east: number;
+  west: number;
+}
+
+export interface TileCoordinate {
+  z: number;
+  x: number;
+  y: number;
+}
+
+export interface TileDownloadProgress {
+  done: number;
+  total: number;
+  failed: number;
+}
+
+const clampLatitude = (latitude: number) => Math.max(-85.0511, Math.min(85.0511, latitude));
+
+// Standard Web Mercator tile indices
+const longitudeToTileX = (longitude: number, zoom: number) =>
+  Math.floor(((longitude + 180) / 360) * 2 ** zoom);
+
+const latitudeToTileY = (latitude: number, zoom: number) => {
+  const radians = (clampLatitude(latitude) * Math.PI) / 180;
+  return Math.floor(((1 - Math.log(Math.tan(radians) + 1 / Math.cos(radians)) / Math.PI) / 2) * 2 ** zoom);
+};
+
+const tileRange = (bounds: TileBounds, zoom: number) => {
+  const max = 2 ** zoom - 1;
+  const clamp = (value: number) => Math.max(0, Math.min(max, value));
+  return {
+    minX: clamp(longitudeToTileX(bounds.west, zoom)),
+    maxX: clamp(longitudeToTileX(bounds.east, zoom)),
+    // Tile y grows southwards
+    minY: clamp(latitudeToTileY(bounds.north, zoom)),
+    maxY: clamp(latitudeToTileY(bounds.south, zoom)),
+  };
+};
+
+export const countTiles = (bounds: TileBounds, minZoom: number, maxZoom: number): number => {
+  let count = 0;
+  for (let z = minZoom; z <= maxZoom; z++) {
+    const { minX, maxX, minY, maxY } = tileRange(bounds, z);
+    count += (maxX - minX + 1) * (maxY - minY + 1);
+  }
+  return count;
+};
+
+export const tilesInBounds = (bounds: TileBounds, minZoom: number, maxZoom: number): TileCoordinate[] => {
+  const tiles: TileCoordinate[] = [];
+  for (let z = minZoom; z <= maxZoom; z++) {
+    const { minX, maxX, minY, maxY } = tileRange(bounds, z);
+    for (let x = minX; x <= maxX; x++) {
+      for (let y = minY; y <= maxY; y++) tiles.push({ z, x, y });
+    }
+  }
+  return tiles;
+};
+
+export const tileUrl = ({ z, x, y }: TileCoordinate) =>
+  TILE_URL_TEMPLATE.replace('{z}', String(z)).replace('{x}', String(x)).replace('{y}', String(y));
+
+export const isTileCacheSupported = () => typeof caches !== 'undefined';
+
+// Downloads the tiles that aren't cached yet, a couple at a time to stay polite to the tile server
+export const downloadTiles = async (
+  tiles: TileCoordinate[],
+  onProgress: (progress: TileDownloadProgress) => void,
+  signal?: AbortSignal
+): Promise<TileDownloadProgress> => {
+  const cache = await caches.open(TILE_CACHE);
+  const progress: TileDownloadProgress = { done: 0, total: tiles.length, failed: 0 };
+  let next = 0;
+
+  const worker = async () => {
+    while (next < tiles.length && !signal?.aborted) {
+      const url = tileUrl(tiles[next++]);
+      try {
+        if (!(await cache.match(url))) {
+          const response = await fetch(url, { signal });
+          if (!response.ok) throw new Error(`HTTP ${response.status}`);
+          await cache.put(url, response);
+        }
+      } catch (error) {
+        if (signal?.aborted) return;
+        progress.failed++;
+      }
+      progress.done++;
+      onProgress({ ...progress });
+    }
+  };
+
+  await Promise.all(Array.from({ length: CONCURRENCY }, worker));
+  return progress;
+};
+
+export const cachedTileCount = async (): Promise<number> =>
+  isTileCacheSupported() ? (await (await caches.open(TILE_CACHE)).keys()).length : 0;
+
+export const clearTileCache = async (): Promise<void> => {
+  if (isTileCacheSupported()) await caches.delete(TILE_CACHE);
+};
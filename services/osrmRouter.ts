@@ -0,0 +1,79 @@
+import { Coordinates } from '../types';
+import { RoutingProvider, RoutingError } from './routePlanner';
+
+interface OsrmOptions {
+  baseUrl: string; // e.g. https://routing.openstreetmap.de/routed-foot or a local osrm-routed
+  profile?: string; // Single-profile servers ignore it, but it has to be in the path
+  timeoutMs?: number;
+}
+
+// Subset of the /trip response fields we use
+interface OsrmTripResponse {
+  code: string;
+  message?: string;
+  waypoints?: { waypoint_index: number }[]; // In input order
+  trips?: {
+    distance: number;
+    duration: number;
+    legs: { distance: number; duration: number }[];
+    geometry: { coordinates: [number, number][] }; // GeoJSON [longitude, latitude]
+  }[];
+}
+
+const toOsrmCoordinate = ({ latitude, longitude }: Coordinates) => `${longitude.toFixed(6)},${latitude.toFixed(6)}`;
+
+// Route planning against any OSRM-compatible `/trip` endpoint, which also solves the visiting order
+export const createOsrmRouter = ({ baseUrl, profile = 'foot', timeoutMs = 10000 }: OsrmOptions): RoutingProvider => ({
+  id: 'osrm',
+  name: 'OSRM',
+  planTrip: async (start, stops, signal) => {
+    const coordinates = [start, ...stops.map(stop => stop.location)].map(toOsrmCoordinate).join(';');
+    const params = new URLSearchParams({
+      source: 'first',
+      destination: 'any',
+      roundtrip: 'false',
+      geometries: 'geojson',
+      overview: 'full',
+    });
+
+    // Give up on a slow server; the straight-line fallback is better than waiting
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    const abort = () => controller.abort();
+    signal?.addEventListener('abort', abort);
+
+    let data: OsrmTripResponse;
+    try {
+      const response = await fetch(`${baseUrl.replace(/\/$/, '')}/trip/v1/${profile}/${coordinates}?${params}`, {
+        signal: controller.signal,
+      });
+      data = await response.json();
+    } catch (error) {
+      throw new RoutingError('OSRM is unreachable', { cause: error });
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', abort);
+    }
+
+    const trip = data.trips?.[0];
+    if (data.code !== 'Ok' || !trip || !data.waypoints || data.waypoints.length !== stops.length + 1) {
+      throw new RoutingError(`OSRM responded with ${data.code}${data.message ? `: ${data.message}` : ''}`);
+    }
+
+    // waypoints[0] is the start; the rest map our stops onto their position in the trip
+    const ordered = stops
+      .map((stop, i) => ({ stop, position: data.waypoints![i + 1].waypoint_index }))
+      .sort((a, b) => a.position - b.position)
+      .map(({ stop }) => stop);
+
+    return {
+      start,
+      stops: ordered,
+      legs: trip.legs.map(({ distance, duration }) => ({ distance, duration })),
+      geometry: trip.geometry.coordinates.map(([longitude, latitude]) => ({ latitude, longitude })),
+      distance: trip.distance,
+      duration: trip.duration,
+      source: 'router',
+    };
+  },
+});
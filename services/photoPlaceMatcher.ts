@@ -0,0 +1,59 @@
+import { Place, SavedPlace, Coordinates } from '../types';
+import { PlaceSearchProvider, ProviderFailure, searchWithProviders } from './placeSearch';
+import { distanceInMeters } from './geo';
+
+// Guesses where a photo was taken from its GPS position
+
+export interface PlaceSuggestion {
+  place: Place | SavedPlace;
+  distance: number; // meters from the photo's position
+  saved: boolean;
+}
+
+export interface PlaceSuggestionResult {
+  suggestions: PlaceSuggestion[];
+  failures: ProviderFailure[];
+}
+
+export interface PlaceMatchOptions {
+  savedRadius: number; // meters; saved places this close are trusted without searching
+  searchRadius: number; // meters; search results further away are dropped
+  limit: number;
+  query: string; // What to look for around the photo when nothing saved is close, in the app's language
+}
+
+const DEFAULT_MATCH_OPTIONS: Omit<PlaceMatchOptions, 'query'> = {
+  savedRadius: 150,
+  searchRadius: 500,
+  limit: 5,
+};
+
+const byDistance = (a: PlaceSuggestion, b: PlaceSuggestion) => a.distance - b.distance;
+
+export const suggestPlacesForLocation = async (
+  location: Coordinates,
+  savedPlaces: SavedPlace[],
+  providers: PlaceSearchProvider[],
+  options: Partial<PlaceMatchOptions> & Pick<PlaceMatchOptions, 'query'>
+): Promise<PlaceSuggestionResult> => {
+  const { savedRadius, searchRadius, limit, query } = { ...DEFAULT_MATCH_OPTIONS, ...options };
+
+  const saved = savedPlaces
+    .map(place => ({ place, distance: distanceInMeters(location, place.location), saved: true }))
+    .filter(s => s.distance <= savedRadius)
+    .sort(byDistance);
+  if (saved.length > 0) return { suggestions: saved.slice(0, limit), failures: [] };
+
+  // Nothing of ours nearby: ask the search providers what is around the photo
+  const savedIds = new Set(savedPlaces.map(p => p.id));
+  const { places, failures } = await searchWithProviders(providers, query, location);
+  const suggestions = places
+    .map(place => ({
+      place: savedPlaces.find(p => p.id === place.id) || place,
+      distance: distanceInMeters(location, place.location),
+      saved: savedIds.has(place.id),
+    }))
+    .filter(s => s.distance <= searchRadius)
+    .sort(byDistance);
+  return { suggestions: suggestions.slice(0, limit), failures };
+};
@@ -0,0 +1,53 @@
+import { Place, SavedPlace, PlaceList } from '../types';
+import { LIST_COLORS, LIST_ICONS } from '../constants';
+
+// Membership of saved places in named lists, and how listed places show on the map
+
+export const createPlaceList = (name: string, existing: PlaceList[], style: Partial<Pick<PlaceList, 'icon' | 'color'>> = {}): PlaceList => ({
+  id: crypto.randomUUID(),
+  name: name.trim(),
+  icon: style.icon || LIST_ICONS[existing.length % LIST_ICONS.length],
+  color: style.color || LIST_COLORS[existing.length % LIST_COLORS.length],
+  visible: true,
+  createdAt: Date.now(),
+});
+
+// Shared and restored lists come from elsewhere; their icon and colour end up in the map pin's HTML
+export const isListIcon = (value: unknown): value is string =>
+  typeof value === 'string' && value.length <= 16 && [...new Intl.Segmenter().segment(value)].length === 1;
+
+export const isListColor = (value: unknown): value is string =>
+  typeof value === 'string' && /^#[0-9a-f]{3,8}$/i.test(value);
+
+// Adds the place to the list, or takes it out. An unsaved place is saved with no check-ins.
+export const togglePlaceInList = (places: SavedPlace[], place: Place | SavedPlace, listId: string): SavedPlace[] => {
+  const existing = places.find(p => p.id === place.id);
+  if (!existing) return [...places, { ...place, myCheckIns: [], listIds: [listId] }];
+  const listIds = existing.listIds || [];
+  const next = listIds.includes(listId) ? listIds.filter(id => id !== listId) : [...listIds, listId];
+  return places.map(p => (p === existing ? { ...existing, listIds: next.length ? next : undefined } : p));
+};
+
+// Untouched places keep their identity so only real changes are persisted
+export const removeListFromPlaces = (places: SavedPlace[], listId: string): SavedPlace[] =>
+  places.map(place => {
+    if (!place.listIds?.includes(listId)) return place;
+    const listIds = place.listIds.filter(id => id !== listId);
+    return { ...place, listIds: listIds.length ? listIds : undefined };
+  });
+
+export const listsOfPlace = (place: SavedPlace, lists: PlaceList[]): PlaceList[] =>
+  lists.filter(list => place.listIds?.includes(list.id));
+
+// Visited places always show; a place that is only bookmarked hides with its lists
+export const isShownOnMap = (place: SavedPlace, lists: PlaceList[]): boolean => {
+  if (place.myCheckIns.length > 0) return true;
+  const placeLists = listsOfPlace(place, lists);
+  return placeLists.length === 0 || placeLists.some(list => list.visible);
+};
+
+// Marker style of the first visible list the place is in
+export const listMarkerStyle = (place: SavedPlace, lists: PlaceList[]): Pick<PlaceList, 'icon' | 'color'> | null => {
+  const list = listsOfPlace(place, lists).find(l => l.visible);
+  return list ? { icon: list.icon, color: list.color } : null;
+};
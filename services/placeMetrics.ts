@@ -0,0 +1,21 @@
+import { SavedPlace, CheckIn } from '../types';
+
+// Small per-place derived values shared by the list, the map and the filters
+
+// The app and backup import only allow 1-5, but check-ins pulled from a sync server aren't
+// validated; one outside that range is left out rather than skewing the average
+export const isRated = (checkIn: CheckIn): boolean => checkIn.rating >= 1 && checkIn.rating <= 5;
+
+export const averageRating = (place: SavedPlace): number | null => {
+  const rated = place.myCheckIns.filter(isRated);
+  if (rated.length === 0) return null;
+  return rated.reduce((sum, c) => sum + c.rating, 0) / rated.length;
+};
+
+export const latestCheckIn = (place: SavedPlace): CheckIn | undefined =>
+  place.myCheckIns.reduce<CheckIn | undefined>(
+    (latest, checkIn) => (!latest || checkIn.timestamp > latest.timestamp ? checkIn : latest),
+    undefined
+  );
+
+export const lastVisitedAt = (place: SavedPlace): number | null => latestCheckIn(place)?.timestamp ?? null;
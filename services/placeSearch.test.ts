@@ -0,0 +1,43 @@
+import { readFileSync } from 'fs';
+import { describe, expect, it } from 'vitest';
+import { classifySearchError, PlaceSearchError, SearchErrorKind } from './placeSearch';
+
+interface RecordedError {
+  case: string;
+  status?: number;
+  message: string;
+}
+
+// Errors as the Gemini SDK threw them: an Error whose message is the API's JSON body, plus the HTTP status
+const recorded: RecordedError[] = JSON.parse(
+  readFileSync(new URL('./__fixtures__/gemini-errors.json', import.meta.url), 'utf8')
+);
+
+const toError = ({ status, message }: RecordedError) => Object.assign(new Error(message), { status });
+
+describe('classifySearchError', () => {
+  const expected: Record<string, SearchErrorKind> = {
+    'quota': 'quota',
+    'quota without status': 'quota',
+    'invalid key': 'auth',
+    'forbidden': 'auth',
+    'server error': 'unknown',
+  };
+
+  it.each(recorded)('classifies a recorded $case error', error => {
+    expect(classifySearchError(toError(error))).toBe(expected[error.case]);
+  });
+
+  it('treats a failed fetch as a network error', () => {
+    expect(classifySearchError(new TypeError('fetch failed'))).toBe('network');
+  });
+
+  it('keeps the kind of an error that already has one', () => {
+    expect(classifySearchError(new PlaceSearchError('network', 'Nominatim unreachable'))).toBe('network');
+  });
+
+  it('falls back to unknown for anything else', () => {
+    expect(classifySearchError('boom')).toBe('unknown');
+    expect(classifySearchError(null)).toBe('unknown');
+  });
+});
@@ -0,0 +1,107 @@
+import { Place, Coordinates } from '../types';
+import { distanceInMeters } from './geo';
+
+export type SearchErrorKind = 'quota' | 'auth' | 'network' | 'unknown';
+
+// Outcome of a single provider search, so callers can tell "nothing found" from "failed"
+export type PlaceSearchResult =
+  | { status: 'ok'; places: Place[]; skipped: number }
+  | { status: 'empty'; skipped: number }
+  | { status: 'error'; kind: SearchErrorKind; message: string };
+
+export class PlaceSearchError extends Error {
+  kind: SearchErrorKind;
+
+  constructor(kind: SearchErrorKind, message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'PlaceSearchError';
+    this.kind = kind;
+  }
+}
+
+// Maps an HTTP status (or a fetch failure) onto the kinds the UI distinguishes
+export const classifySearchError = (error: unknown): SearchErrorKind => {
+  if (error instanceof PlaceSearchError) return error.kind;
+  const status = (error as { status?: unknown } | null)?.status;
+  const message = error instanceof Error ? error.message : String(error);
+  if (status === 429 || /RESOURCE_EXHAUSTED|quota/i.test(message)) return 'quota';
+  if (status === 401 || status === 403 || /API[_ ]?key|PERMISSION_DENIED|UNAUTHENTICATED/i.test(message)) return 'auth';
+  if (error instanceof TypeError || (typeof navigator !== 'undefined' && !navigator.onLine)) return 'network';
+  return 'unknown';
+};
+
+// A source of place search results (Gemini grounding, OSM, our own saved places, ...)
+export interface PlaceSearchProvider {
+  id: string;
+  name: string;
+  // `signal` aborts a search that a newer one replaced
+  search: (query: string, near?: Coordinates, signal?: AbortSignal) => Promise<Place[]>;
+}
+
+export interface ProviderFailure {
+  providerId: string;
+  kind: SearchErrorKind;
+  error: unknown;
+}
+
+export interface CombinedSearchResult {
+  places: Place[];
+  failures: ProviderFailure[];
+}
+
+// Results closer than this with the same name are treated as the same place
+const DUPLICATE_DISTANCE_METERS = 75;
+
+const normalizeName = (name: string) => name.normalize('NFKC').toLowerCase().replace(/[\s\-_·・()（）]/g, '');
+
+const isSamePlace = (a: Place, b: Place) =>
+  a.id === b.id ||
+  (normalizeName(a.name) === normalizeName(b.name) &&
+    distanceInMeters(a.location, b.location) <= DUPLICATE_DISTANCE_METERS);
+
+// Merges result lists in provider priority order. The first occurrence of a
+// place wins; later duplicates only fill in fields it is missing.
+export const mergePlaceResults = (resultLists: Place[][]): Place[] => {
+  const merged: Place[] = [];
+  resultLists.flat().forEach(place => {
+    const index = merged.findIndex(existing => isSamePlace(existing, place));
+    if (index < 0) {
+      merged.push(place);
+      return;
+    }
+    const existing = merged[index];
+    merged[index] = {
+      ...existing,
+      address: existing.address ?? place.address,
+      googleMapsUri: existing.googleMapsUri ?? place.googleMapsUri,
+      rating: existing.rating ?? place.rating,
+      reviews: existing.reviews ?? place.reviews,
+    };
+  });
+  return merged;
+};
+
+// Queries every provider in parallel; one failing provider does not sink the others.
+// Throws the abort reason once `signal` is aborted, as nobody is waiting for the results.
+export const searchWithProviders = async (
+  providers: PlaceSearchProvider[],
+  query: string,
+  near?: Coordinates,
+  signal?: AbortSignal
+): Promise<CombinedSearchResult> => {
+  const settled = await Promise.allSettled(providers.map(provider => provider.search(query, near, signal)));
+  signal?.throwIfAborted();
+
+  const resultLists: Place[][] = [];
+  const failures: ProviderFailure[] = [];
+  settled.forEach((outcome, i) => {
+    if (outcome.status === 'fulfilled') {
+      resultLists.push(outcome.value);
+    } else {
+      console.error(`Search provider "${providers[i].id}" failed:`, outcome.reason);
+      failures.push({ providerId: providers[i].id, kind: classifySearchError(outcome.reason), error: outcome.reason });
+    }
+  });
+
+  return { places: mergePlaceResults(resultLists), failures };
+};
@@ -0,0 +1,50 @@
+import { SavedPlace, CheckIn, PlaceSummary, MealType } from '../types';
+import { getMessages } from './i18n';
+import { hashString } from './groundingParser';
+import { formatSpend } from './checkInDetails';
+
+// Building blocks for the AI-written place summary; the request itself lives in geminiService
+
+// Changes whenever anything the summary is written from changes, photos excluded
+export const checkInsHash = (checkIns: CheckIn[]): string => hashString(JSON.stringify(
+  [...checkIns]
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .map(c => [c.id, c.timestamp, c.rating, c.text, c.mealType, c.spend, (c.dishes || []).map(d => [d.name, d.rating])])
+));
+
+// Summaries from before languages were picked are in zh-TW
+export const isSummaryStale = (place: SavedPlace, language: string): boolean =>
+  !place.summary || place.summary.checkInsHash !== checkInsHash(place.myCheckIns) ||
+  (place.summary.language ?? 'zh-TW') !== language;
+
+// The prompt itself stays in Chinese whatever language the summary is written in
+const MEAL_LABELS: Record<MealType, string> = getMessages('zh-TW').mealTypes;
+
+const describeCheckIn = (checkIn: CheckIn): string => {
+  const lines = [`- ${new Date(checkIn.timestamp).toLocaleDateString('zh-TW')}，評分 ${checkIn.rating}/5`];
+  if (checkIn.mealType) lines[0] += `，${MEAL_LABELS[checkIn.mealType]}`;
+  if (checkIn.spend) lines[0] += `，消費 ${formatSpend(checkIn.spend, 'zh-TW')}`;
+  if (checkIn.text.trim()) lines.push(`  筆記：${checkIn.text.trim()}`);
+  if (checkIn.dishes?.length) {
+    lines.push(`  菜色：${checkIn.dishes.map(d => (d.rating ? `${d.name}（${d.rating}/5）` : d.name)).join('、')}`);
+  }
+  return lines.join('\n');
+};
+
+// `language` is what the summary is written in, e.g. "English"
+export const buildSummaryPrompt = (place: SavedPlace, language: string): string => [
+  `以下是我們在「${place.name}」的用餐紀錄，依時間排序：`,
+  ...[...place.myCheckIns].sort((a, b) => a.timestamp - b.timestamp).map(describeCheckIn),
+  '',
+  `請只根據這些紀錄，用 ${language} 寫出簡短摘要，每項一到兩句：`,
+  'order：推薦點什麼；avoid：應該避開什麼（沒有就說目前沒有踩雷紀錄）；trend：整體體驗隨時間的變化。',
+].join('\n');
+
+// Validates the model's JSON answer
+export const parseSummaryResponse = (text: string | undefined): Pick<PlaceSummary, 'order' | 'avoid' | 'trend'> => {
+  const value = JSON.parse(text || '');
+  if (typeof value?.order !== 'string' || typeof value?.avoid !== 'string' || typeof value?.trend !== 'string') {
+    throw new Error('Unexpected summary response');
+  }
+  return { order: value.order.trim(), avoid: value.avoid.trim(), trend: value.trend.trim() };
+};
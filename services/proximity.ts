@@ -0,0 +1,55 @@
+import { SavedPlace, Coordinates } from '../types';
+import { distanceInMeters } from './geo';
+import { lastVisitedAt } from './placeMetrics';
+
+// "You're near a place you saved" prompts, and their settings
+
+export interface ProximitySettings {
+  enabled: boolean;
+  radius: number; // meters
+}
+
+export const PROXIMITY_RADII = [50, 100, 200, 500];
+
+export const DEFAULT_PROXIMITY_SETTINGS: ProximitySettings = { enabled: true, radius: 100 };
+
+// A check-in this recent means we've already logged the visit
+const RECENT_VISIT_MS = 3 * 60 * 60 * 1000;
+
+const SETTINGS_STORAGE_KEY = 'gourmet_map_proximity';
+
+export interface NearbyPlace {
+  place: SavedPlace;
+  distance: number;
+}
+
+// The closest saved place within the radius that's worth a prompt. Positions that
+// are less precise than the radius can't tell neighbouring places apart, so they're ignored.
+export const findNearbyPlace = (
+  places: SavedPlace[],
+  location: Coordinates,
+  accuracy: number,
+  settings: ProximitySettings,
+  dismissedIds: Set<string>,
+  now = Date.now()
+): NearbyPlace | null => {
+  if (!settings.enabled || accuracy > settings.radius) return null;
+  return places
+    .filter(place => !dismissedIds.has(place.id) && now - (lastVisitedAt(place) ?? 0) > RECENT_VISIT_MS)
+    .map(place => ({ place, distance: distanceInMeters(location, place.location) }))
+    .filter(({ distance }) => distance <= settings.radius)
+    .sort((a, b) => a.distance - b.distance)[0] || null;
+};
+
+export const loadProximitySettings = (): ProximitySettings => {
+  try {
+    const stored = localStorage.getItem(SETTINGS_STORAGE_KEY);
+    return stored ? { ...DEFAULT_PROXIMITY_SETTINGS, ...JSON.parse(stored) } : DEFAULT_PROXIMITY_SETTINGS;
+  } catch {
+    return DEFAULT_PROXIMITY_SETTINGS;
+  }
+};
+
+export const saveProximitySettings = (settings: ProximitySettings) => {
+  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+};
@@ -0,0 +1,123 @@
+import { Place, SavedPlace, Coordinates } from '../types';
+import { analyzeFoodPhoto } from './aiService';
+import { searchWithProviders, PlaceSearchProvider, classifySearchError, PlaceSearchError } from './placeSearch';
+import { dataUrlMimeType, photoSourceToDataUrl } from './dataUrl';
+
+// AI requests that failed for lack of network, kept until they can be retried.
+// Photo requests only hold ids; the photo itself is already stored with its check-in.
+
+interface QueuedRequestBase {
+  id: string;
+  createdAt: number;
+  attempts: number;
+  lastError?: string;
+}
+
+export interface QueuedPhotoAnalysis extends QueuedRequestBase {
+  kind: 'analyze-photo';
+  placeId: string;
+  checkInId: string;
+  photoId: string;
+}
+
+export interface QueuedSearch extends QueuedRequestBase {
+  kind: 'search';
+  query: string;
+  location: Coordinates;
+  category?: string; // Remembered by the results, as for a category chip search
+  results?: Place[]; // Set once it went through; kept until the results are viewed
+}
+
+export type QueuedRequest = QueuedPhotoAnalysis | QueuedSearch;
+
+export type QueuedOutcome =
+  | { kind: 'analyze-photo'; description: string }
+  | { kind: 'search'; places: Place[] }
+  | { kind: 'obsolete' }; // What it was for no longer exists
+
+const QUEUE_STORAGE_KEY = 'gourmet_map_request_queue';
+
+export const loadRequestQueue = (): QueuedRequest[] => {
+  try {
+    const stored = localStorage.getItem(QUEUE_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveRequestQueue = (queue: QueuedRequest[]) => {
+  localStorage.setItem(QUEUE_STORAGE_KEY, JSON.stringify(queue));
+};
+
+// True when the request should wait for the network rather than fail for good
+export const isOfflineError = (error: unknown): boolean => classifySearchError(error) === 'network';
+
+export const queuePhotoAnalysis = (
+  queue: QueuedRequest[],
+  target: Pick<QueuedPhotoAnalysis, 'placeId' | 'checkInId' | 'photoId'>
+): QueuedRequest[] => {
+  if (queue.some(r => r.kind === 'analyze-photo' && r.photoId === target.photoId)) return queue;
+  return [...queue, { id: crypto.randomUUID(), kind: 'analyze-photo', createdAt: Date.now(), attempts: 0, ...target }];
+};
+
+// The same query is only queued once; the newer location wins
+export const queueSearch = (
+  queue: QueuedRequest[],
+  search: Pick<QueuedSearch, 'query' | 'location' | 'category'>
+): QueuedRequest[] => [
+  ...queue.filter(r => !(r.kind === 'search' && !r.results && r.query === search.query)),
+  { id: crypto.randomUUID(), kind: 'search', createdAt: Date.now(), attempts: 0, ...search },
+];
+
+export const isPending = (request: QueuedRequest): boolean => request.kind !== 'search' || !request.results;
+
+// Runs one queued request. Throws when it still fails, so the caller can record the attempt.
+export const runQueuedRequest = async (
+  request: QueuedRequest,
+  places: SavedPlace[],
+  providers: PlaceSearchProvider[]
+): Promise<QueuedOutcome> => {
+  if (request.kind === 'analyze-photo') {
+    const photo = places
+      .find(p => p.id === request.placeId)?.myCheckIns
+      .find(c => c.id === request.checkInId)?.photos
+      .find(p => p.id === request.photoId);
+    if (!photo) return { kind: 'obsolete' };
+    const dataUrl = await photoSourceToDataUrl(photo.src);
+    return {
+      kind: 'analyze-photo',
+      description: await analyzeFoodPhoto(dataUrl.split(',')[1], dataUrlMimeType(dataUrl)),
+    };
+  }
+
+  const { places: results, failures } = await searchWithProviders(providers, request.query, request.location);
+  // Local results alone are what we already had offline; wait until the online providers answer
+  const offline = failures.find(f => f.kind === 'network');
+  if (offline) {
+    throw offline.error instanceof Error ? offline.error : new PlaceSearchError('network', String(offline.error));
+  }
+  return {
+    kind: 'search',
+    places: request.category ? results.map(place => place.category ? place : { ...place, category: request.category }) : results,
+  };
+};
+
+// Fills in a description that arrived late. Notes the user already wrote are kept;
+// the description then goes to the photo's caption instead, if it has none.
+export const applyPhotoDescription = (
+  places: SavedPlace[],
+  request: QueuedPhotoAnalysis,
+  description: string
+): SavedPlace[] => places.map(place => place.id !== request.placeId ? place : {
+  ...place,
+  myCheckIns: place.myCheckIns.map(checkIn => {
+    if (checkIn.id !== request.checkInId) return checkIn;
+    if (!checkIn.text.trim()) return { ...checkIn, text: description };
+    return {
+      ...checkIn,
+      photos: checkIn.photos.map(photo =>
+        photo.id === request.photoId && !photo.caption ? { ...photo, caption: description } : photo),
+    };
+  }),
+});
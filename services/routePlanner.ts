@@ -0,0 +1,118 @@
+import { Place, Coordinates } from '../types';
+import { distanceInMeters } from './geo';
+import { getMessages } from './i18n';
+
+// Orders the stops of a food crawl into a walking route from where we are
+
+export interface RouteLeg {
+  distance: number; // meters
+  duration: number; // seconds
+}
+
+export interface RoutePlan {
+  start: Coordinates;
+  stops: Place[]; // In visiting order
+  legs: RouteLeg[]; // legs[i] ends at stops[i]
+  geometry: Coordinates[]; // Polyline from the start through every stop
+  distance: number;
+  duration: number;
+  source: 'router' | 'straight-line';
+}
+
+// A routing engine that can order and route the stops in one go
+export interface RoutingProvider {
+  id: string;
+  name: string;
+  planTrip: (start: Coordinates, stops: Place[], signal?: AbortSignal) => Promise<RoutePlan>;
+}
+
+export class RoutingError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'RoutingError';
+  }
+}
+
+export const MAX_ROUTE_STOPS = 12;
+
+const WALKING_SPEED = 1.3; // m/s, about 4.7 km/h
+// Streets are rarely straight; stretches straight-line distance into a rough walking estimate
+const DETOUR_FACTOR = 1.3;
+
+const pathLength = (start: Coordinates, stops: Place[]) =>
+  stops.reduce((sum, stop, i) => sum + distanceInMeters(i === 0 ? start : stops[i - 1].location, stop.location), 0);
+
+// Nearest neighbour from the start, then 2-opt until no swap shortens the path.
+// Not optimal, but close for the handful of stops a crawl has.
+export const orderStopsByDistance = (start: Coordinates, stops: Place[]): Place[] => {
+  const remaining = [...stops];
+  let order: Place[] = [];
+  let from = start;
+  while (remaining.length) {
+    let nearest = 0;
+    remaining.forEach((stop, i) => {
+      if (distanceInMeters(from, stop.location) < distanceInMeters(from, remaining[nearest].location)) nearest = i;
+    });
+    const [next] = remaining.splice(nearest, 1);
+    order.push(next);
+    from = next.location;
+  }
+
+  let improved = true;
+  while (improved) {
+    improved = false;
+    for (let i = 0; i < order.length - 1; i++) {
+      for (let j = i + 1; j < order.length; j++) {
+        const candidate = [...order.slice(0, i), ...order.slice(i, j + 1).reverse(), ...order.slice(j + 1)];
+        if (pathLength(start, candidate) + 1e-6 < pathLength(start, order)) {
+          order = candidate;
+          improved = true;
+        }
+      }
+    }
+  }
+  return order;
+};
+
+// Used when no router is configured or it can't be reached
+export const planStraightLineRoute = (start: Coordinates, stops: Place[]): RoutePlan => {
+  const ordered = orderStopsByDistance(start, stops);
+  const legs = ordered.map((stop, i) => {
+    const distance = distanceInMeters(i === 0 ? start : ordered[i - 1].location, stop.location);
+    return { distance, duration: (distance * DETOUR_FACTOR) / WALKING_SPEED };
+  });
+  return {
+    start,
+    stops: ordered,
+    legs,
+    geometry: [start, ...ordered.map(stop => stop.location)],
+    distance: legs.reduce((sum, leg) => sum + leg.distance, 0),
+    duration: legs.reduce((sum, leg) => sum + leg.duration, 0),
+    source: 'straight-line',
+  };
+};
+
+// Asks the router first and falls back to straight lines; `fallbackReason` says why it had to
+export const planFoodCrawl = async (
+  start: Coordinates,
+  stops: Place[],
+  router: RoutingProvider | null,
+  signal?: AbortSignal
+): Promise<{ plan: RoutePlan; fallbackReason?: string }> => {
+  if (!router) return { plan: planStraightLineRoute(start, stops), fallbackReason: getMessages().crawl.noRouter };
+  try {
+    return { plan: await router.planTrip(start, stops, signal) };
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    console.error(`Router "${router.id}" failed:`, error);
+    return { plan: planStraightLineRoute(start, stops), fallbackReason: getMessages().crawl.routerUnavailable(router.name) };
+  }
+};
+
+export const formatDuration = (seconds: number): string => {
+  const { units } = getMessages();
+  const minutes = Math.max(1, Math.round(seconds / 60));
+  if (minutes < 60) return units.minutes(minutes);
+  const hours = Math.floor(minutes / 60);
+  return minutes % 60 ? units.hoursMinutes(hours, minutes % 60) : units.hours(hours);
+};
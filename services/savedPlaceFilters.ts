@@ -0,0 +1,103 @@
+import { SavedPlace, Coordinates } from '../types';
+import { distanceInMeters } from './geo';
+import { averageRating, latestCheckIn, lastVisitedAt } from './placeMetrics';
+
+export type SavedPlaceSortKey = 'lastVisited' | 'visitCount' | 'averageRating' | 'latestRating' | 'distance' | 'added';
+
+export interface SavedPlaceFilters {
+  sortBy: SavedPlaceSortKey;
+  minRating: number; // Minimum average rating, 0 for any
+  visitedFrom: string; // YYYY-MM-DD (local), empty for no bound
+  visitedTo: string;
+  category: string; // Empty for any
+  listId: string; // PlaceList id, empty for any
+  text: string;
+}
+
+export const DEFAULT_FILTERS: SavedPlaceFilters = {
+  sortBy: 'added',
+  minRating: 0,
+  visitedFrom: '',
+  visitedTo: '',
+  category: '',
+  listId: '',
+  text: '',
+};
+
+const FILTERS_STORAGE_KEY = 'gourmet_map_filters';
+
+// True when anything beyond sorting narrows the list
+export const isFiltering = (filters: SavedPlaceFilters): boolean =>
+  filters.minRating > 0 || !!filters.visitedFrom || !!filters.visitedTo || !!filters.category || !!filters.listId || !!filters.text.trim();
+
+// Parses a date input's value as local midnight
+const parseLocalDate = (value: string): number | null => {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return null;
+  return new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])).getTime();
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const matchesText = (place: SavedPlace, text: string): boolean => {
+  const needle = text.trim().toLowerCase();
+  if (!needle) return true;
+  return [place.name, place.address || '', ...(place.tags || []), ...place.myCheckIns.map(c => c.text)]
+    .some(value => value.toLowerCase().includes(needle));
+};
+
+// Sorts with missing values last regardless of direction
+const compareNullable = (a: number | null, b: number | null, direction: 1 | -1): number => {
+  if (a === null && b === null) return 0;
+  if (a === null) return 1;
+  if (b === null) return -1;
+  return (a - b) * direction;
+};
+
+export const applySavedPlaceFilters = (
+  places: SavedPlace[],
+  filters: SavedPlaceFilters,
+  currentLocation?: Coordinates
+): SavedPlace[] => {
+  const from = parseLocalDate(filters.visitedFrom);
+  const toDay = parseLocalDate(filters.visitedTo);
+  const to = toDay === null ? null : toDay + DAY_MS; // Inclusive of the whole end day
+
+  const filtered = places.filter(place => {
+    if (filters.minRating > 0 && (averageRating(place) ?? 0) < filters.minRating) return false;
+    if (filters.category && place.category !== filters.category) return false;
+    if (filters.listId && !place.listIds?.includes(filters.listId)) return false;
+    if ((from !== null || to !== null) && !place.myCheckIns.some(c =>
+      (from === null || c.timestamp >= from) && (to === null || c.timestamp < to))) return false;
+    return matchesText(place, filters.text);
+  });
+
+  const sortValue = (place: SavedPlace): number | null => {
+    switch (filters.sortBy) {
+      case 'lastVisited': return lastVisitedAt(place);
+      case 'visitCount': return place.myCheckIns.length;
+      case 'averageRating': return averageRating(place);
+      case 'latestRating': return latestCheckIn(place)?.rating ?? null;
+      case 'distance': return currentLocation ? distanceInMeters(currentLocation, place.location) : null;
+      case 'added': return null;
+    }
+  };
+
+  if (filters.sortBy === 'added') return filtered;
+  const direction = filters.sortBy === 'distance' ? 1 : -1;
+  // Array.prototype.sort is stable, so ties keep insertion order
+  return [...filtered].sort((a, b) => compareNullable(sortValue(a), sortValue(b), direction));
+};
+
+export const loadFilters = (): SavedPlaceFilters => {
+  try {
+    const stored = localStorage.getItem(FILTERS_STORAGE_KEY);
+    return stored ? { ...DEFAULT_FILTERS, ...JSON.parse(stored) } : DEFAULT_FILTERS;
+  } catch {
+    return DEFAULT_FILTERS;
+  }
+};
+
+export const saveFilters = (filters: SavedPlaceFilters) => {
+  localStorage.setItem(FILTERS_STORAGE_KEY, JSON.stringify(filters));
+};
@@ -0,0 +1,53 @@
+import { SavedPlace, Coordinates } from '../types';
+import { PlaceSearchProvider } from './placeSearch';
+import { distanceInMeters } from './geo';
+
+const MIN_SCORE = 0.75;
+
+// Words the category chips add (in each language) that say nothing about the place itself
+const FILLER_PREFIXES = ['附近的', '附近', '近くの'];
+const FILLER_SUFFIXES = ['nearby'];
+
+const normalize = (value: string) => value.normalize('NFKC').toLowerCase().replace(/\s+/g, '');
+
+// 1 for a substring match, otherwise the share of query characters found in order
+export const fuzzyScore = (query: string, target: string): number => {
+  if (!query || !target) return 0;
+  if (target.includes(query)) return 1;
+  let matched = 0;
+  for (const char of target) {
+    if (char === query[matched]) matched++;
+    if (matched === query.length) break;
+  }
+  return matched / query.length;
+};
+
+const scorePlace = (query: string, place: SavedPlace): number => Math.max(
+  fuzzyScore(query, normalize(place.name)),
+  fuzzyScore(query, normalize(place.address || '')) * 0.8,
+  ...place.myCheckIns.map(checkIn => fuzzyScore(query, normalize(checkIn.text)) * 0.7)
+);
+
+export const SAVED_PLACES_PROVIDER_ID = 'saved';
+
+// Searches our own saved places by name, address and check-in notes; `name` is in the app's language
+export const createSavedPlacesSearchProvider = (getPlaces: () => SavedPlace[], name: string): PlaceSearchProvider => ({
+  id: SAVED_PLACES_PROVIDER_ID,
+  name,
+  search: async (query: string, near?: Coordinates) => {
+    let normalized = normalize(query);
+    const prefix = FILLER_PREFIXES.find(filler => normalized.startsWith(filler));
+    if (prefix) normalized = normalized.slice(prefix.length);
+    const suffix = FILLER_SUFFIXES.find(filler => normalized.endsWith(filler));
+    if (suffix) normalized = normalized.slice(0, -suffix.length);
+    if (!normalized) return [];
+
+    return getPlaces()
+      .map(place => ({ place, score: scorePlace(normalized, place) }))
+      .filter(({ score }) => score >= MIN_SCORE)
+      .sort((a, b) =>
+        b.score - a.score ||
+        (near ? distanceInMeters(near, a.place.location) - distanceInMeters(near, b.place.location) : 0))
+      .map(({ place }) => place);
+  },
+});
@@ -0,0 +1,62 @@
+import { Place, Coordinates } from '../types';
+import { PlaceSearchProvider } from './placeSearch';
+
+// Reuses search results for the same words at roughly the same spot. Used by the app for
+// its remote providers and by the AI proxy (server/aiProxy.ts) for Gemini searches.
+
+export const SEARCH_CACHE_TTL_MS = 10 * 60 * 1000;
+const SEARCH_CACHE_SIZE = 200;
+
+export const normalizeQuery = (query: string) => query.normalize('NFKC').toLowerCase().replace(/\s+/g, ' ').trim();
+
+// Locations are rounded to 3 decimals, about 100 m
+export const searchCacheKey = (query: string, near?: Coordinates) => [
+  normalizeQuery(query),
+  near ? `${near.latitude.toFixed(3)},${near.longitude.toFixed(3)}` : '',
+].join('|');
+
+export interface TtlCache<T> {
+  get: (key: string) => T | undefined;
+  set: (key: string, value: T) => void;
+  clear: () => void;
+}
+
+// Drops entries after `ttlMs`, and the oldest ones beyond `maxEntries`
+export const createTtlCache = <T>({ ttlMs, maxEntries }: { ttlMs: number; maxEntries: number }): TtlCache<T> => {
+  const entries = new Map<string, { value: T; expiresAt: number }>();
+  return {
+    get: (key) => {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+      if (entry.expiresAt > Date.now()) return entry.value;
+      entries.delete(key);
+      return undefined;
+    },
+    set: (key, value) => {
+      entries.delete(key);
+      entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+      // Maps keep insertion order, so the first key is the oldest
+      if (entries.size > maxEntries) entries.delete(entries.keys().next().value!);
+    },
+    clear: () => entries.clear(),
+  };
+};
+
+// Wraps a provider so repeated searches skip the network. Failures aren't cached.
+export const createCachedSearchProvider = (
+  provider: PlaceSearchProvider,
+  ttlMs = SEARCH_CACHE_TTL_MS
+): PlaceSearchProvider => {
+  const cache = createTtlCache<Place[]>({ ttlMs, maxEntries: SEARCH_CACHE_SIZE });
+  return {
+    ...provider,
+    search: async (query, near, signal) => {
+      const key = searchCacheKey(query, near);
+      const cached = cache.get(key);
+      if (cached) return cached;
+      const places = await provider.search(query, near, signal);
+      cache.set(key, places);
+      return places;
+    },
+  };
+};
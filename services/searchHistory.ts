@@ -0,0 +1,90 @@
+import { SavedPlace } from '../types';
+import { normalizeQuery } from './searchCache';
+import { fuzzyScore } from './savedPlacesSearchProvider';
+
+// Recent searches, kept so they don't have to be retyped, and suggestions while typing
+
+export interface SearchHistoryEntry {
+  query: string;
+  lastUsedAt: number;
+  pinned?: boolean; // Kept at the top and through "clear"
+}
+
+export type SearchSuggestion =
+  | { kind: 'history'; entry: SearchHistoryEntry }
+  | { kind: 'place'; place: SavedPlace };
+
+const HISTORY_STORAGE_KEY = 'gourmet_map_search_history';
+const MAX_RECENT_SEARCHES = 20;
+const MAX_SUGGESTIONS = 8;
+const MIN_PLACE_SCORE = 0.75;
+
+export const loadSearchHistory = (): SearchHistoryEntry[] => {
+  try {
+    const stored = localStorage.getItem(HISTORY_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveSearchHistory = (history: SearchHistoryEntry[]) => {
+  localStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify(history));
+};
+
+// Pinned first, then most recent
+const sortHistory = (history: SearchHistoryEntry[]) =>
+  [...history].sort((a, b) => Number(!!b.pinned) - Number(!!a.pinned) || b.lastUsedAt - a.lastUsedAt);
+
+const isSameQuery = (a: string, b: string) => normalizeQuery(a) === normalizeQuery(b);
+
+// Moves the query to the top; only unpinned searches count towards the limit
+export const recordSearch = (history: SearchHistoryEntry[], query: string, now = Date.now()): SearchHistoryEntry[] => {
+  const text = query.trim();
+  if (!text) return history;
+  const existing = history.find(entry => isSameQuery(entry.query, text));
+  const sorted = sortHistory([
+    { query: text, lastUsedAt: now, pinned: existing?.pinned },
+    ...history.filter(entry => entry !== existing),
+  ]);
+  const pinned = sorted.filter(entry => entry.pinned);
+  const recent = sorted.filter(entry => !entry.pinned).slice(0, MAX_RECENT_SEARCHES);
+  return [...pinned, ...recent];
+};
+
+export const togglePinnedSearch = (history: SearchHistoryEntry[], query: string): SearchHistoryEntry[] =>
+  sortHistory(history.map(entry => entry.query === query ? { ...entry, pinned: !entry.pinned } : entry));
+
+export const removeSearch = (history: SearchHistoryEntry[], query: string): SearchHistoryEntry[] =>
+  history.filter(entry => entry.query !== query);
+
+export const clearSearchHistory = (history: SearchHistoryEntry[]): SearchHistoryEntry[] =>
+  history.filter(entry => entry.pinned);
+
+// Past searches containing the input, then saved places whose name matches it.
+// With nothing typed yet, the pinned and recent searches.
+export const suggestSearches = (
+  input: string,
+  history: SearchHistoryEntry[],
+  places: SavedPlace[],
+  limit = MAX_SUGGESTIONS
+): SearchSuggestion[] => {
+  const text = normalizeQuery(input);
+  const sorted = sortHistory(history);
+  if (!text) return sorted.slice(0, limit).map(entry => ({ kind: 'history', entry }));
+
+  const pastSearches: SearchSuggestion[] = sorted
+    .filter(entry => normalizeQuery(entry.query).includes(text) && !isSameQuery(entry.query, text))
+    .slice(0, Math.ceil(limit / 2))
+    .map(entry => ({ kind: 'history', entry }));
+
+  const compact = text.replace(/\s/g, '');
+  const matchingPlaces: SearchSuggestion[] = places
+    .map(place => ({ place, score: fuzzyScore(compact, normalizeQuery(place.name).replace(/\s/g, '')) }))
+    .filter(({ score }) => score >= MIN_PLACE_SCORE)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit - pastSearches.length)
+    .map(({ place }) => ({ kind: 'place', place }));
+
+  return [...pastSearches, ...matchingPlaces];
+};
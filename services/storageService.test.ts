@@ -0,0 +1,147 @@
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { SavedPlace, CheckIn } from '../types';
+
+type StorageModule = typeof import('./storageService');
+type DataUrlModule = typeof import('./dataUrl');
+
+// 1x1 images; only the bytes matter here
+const PHOTO = 'data:image/jpeg;base64,/9j/4AAQSkZJRgABAQ==';
+const THUMBNAIL = 'data:image/jpeg;base64,/9j/2wBDAAEBAQ==';
+
+const checkIn = (id: string, placeId: string, overrides: Partial<CheckIn> = {}): CheckIn => ({
+  id,
+  placeId,
+  timestamp: 1700000000000,
+  rating: 4,
+  text: '',
+  photos: [],
+  ...overrides,
+});
+
+const place = (id: string, checkIns: CheckIn[]): SavedPlace => ({
+  id,
+  name: id,
+  location: { latitude: 25.04, longitude: 121.55 },
+  myCheckIns: checkIns,
+});
+
+const blobBytes = async (blob: Blob) => Array.from(new Uint8Array(await blob.arrayBuffer()));
+const dataUrlBytes = (dataUrl: string) => Array.from(Buffer.from(dataUrl.split(',')[1], 'base64'));
+
+let storage: StorageModule;
+let dataUrl: DataUrlModule;
+let legacyData: Map<string, string>;
+
+// A fresh database and module (which keeps its connection open) for every test
+beforeEach(async () => {
+  vi.resetModules();
+  vi.stubGlobal('indexedDB', new IDBFactory());
+  legacyData = new Map();
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => legacyData.get(key) ?? null,
+    setItem: (key: string, value: string) => legacyData.set(key, value),
+    removeItem: (key: string) => legacyData.delete(key),
+  });
+  storage = await import('./storageService');
+  dataUrl = await import('./dataUrl');
+});
+
+describe('loadSavedPlaces', () => {
+  it('returns saved places with their check-ins in time order', async () => {
+    await storage.saveSavedPlace(place('ramen', [
+      checkIn('late', 'ramen', { timestamp: 2000 }),
+      checkIn('early', 'ramen', { timestamp: 1000 }),
+    ]));
+
+    const [loaded] = await storage.loadSavedPlaces();
+    expect(loaded.name).toBe('ramen');
+    expect(loaded.myCheckIns.map(c => c.id)).toEqual(['early', 'late']);
+  });
+
+  it('hands photos back as object URLs over the stored Blobs', async () => {
+    await storage.saveSavedPlace(place('ramen', [
+      checkIn('c1', 'ramen', { photos: [{ id: 'p1', src: PHOTO, thumbnail: THUMBNAIL, caption: '叉燒' }] }),
+    ]));
+
+    const [photo] = (await storage.loadSavedPlaces())[0].myCheckIns[0].photos;
+    expect(photo.id).toBe('p1');
+    expect(photo.caption).toBe('叉燒');
+    expect(photo.src).toMatch(/^blob:/);
+    expect(photo.thumbnail).toMatch(/^blob:/);
+    expect(await blobBytes(dataUrl.photoSourceToBlob(photo.src))).toEqual(dataUrlBytes(PHOTO));
+    expect(await blobBytes(dataUrl.photoSourceToBlob(photo.thumbnail!))).toEqual(dataUrlBytes(THUMBNAIL));
+  });
+
+  it('keeps a loaded photo when its check-in is saved again', async () => {
+    await storage.saveSavedPlace(place('ramen', [checkIn('c1', 'ramen', { photos: [{ id: 'p1', src: PHOTO }] })]));
+    const [loaded] = await storage.loadSavedPlaces();
+
+    await storage.saveCheckIn({ ...loaded.myCheckIns[0], text: '更好吃了' });
+
+    expect(await blobBytes((await storage.getPhotoBlob('p1'))!)).toEqual(dataUrlBytes(PHOTO));
+  });
+});
+
+describe('persistChanges', () => {
+  it('writes changed records and deletes removed check-ins with their photos', async () => {
+    const before = [place('ramen', [
+      checkIn('keep', 'ramen'),
+      checkIn('drop', 'ramen', { photos: [{ id: 'p1', src: PHOTO }] }),
+    ])];
+    await storage.persistChanges([], before);
+
+    const after = [{ ...before[0], name: '拉麵', myCheckIns: [before[0].myCheckIns[0]] }];
+    await storage.persistChanges(before, after);
+
+    const loaded = await storage.loadSavedPlaces();
+    expect(loaded.map(p => p.name)).toEqual(['拉麵']);
+    expect(loaded[0].myCheckIns.map(c => c.id)).toEqual(['keep']);
+    expect(await storage.getPhotoBlob('p1')).toBeUndefined();
+  });
+
+  it('deletes a removed place with everything under it', async () => {
+    const places = [place('ramen', [checkIn('c1', 'ramen', { photos: [{ id: 'p1', src: PHOTO }] })]), place('sushi', [])];
+    await storage.persistChanges([], places);
+
+    await storage.persistChanges(places, [places[1]]);
+
+    expect((await storage.loadSavedPlaces()).map(p => p.id)).toEqual(['sushi']);
+    expect(await storage.getPhotoBlob('p1')).toBeUndefined();
+  });
+});
+
+describe('migrateFromLocalStorage', () => {
+  const LEGACY_KEY = 'my_gourmet_map_places';
+
+  it('moves places from localStorage, turning an inline image into a photo', async () => {
+    const { photos, ...legacyCheckIn } = checkIn('c1', 'ramen');
+    legacyData.set(LEGACY_KEY, JSON.stringify([place('ramen', [{ ...legacyCheckIn, image: PHOTO } as unknown as CheckIn])]));
+
+    expect(await storage.migrateFromLocalStorage()).toBe(1);
+
+    expect(legacyData.has(LEGACY_KEY)).toBe(false);
+    const [loaded] = await storage.loadSavedPlaces();
+    expect(loaded.myCheckIns[0].photos.map(p => p.id)).toEqual(['c1-photo']);
+  });
+
+  it('leaves data that is not a list of places alone', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    legacyData.set(LEGACY_KEY, '{"theme":"dark"}');
+
+    expect(await storage.migrateFromLocalStorage()).toBe(0);
+
+    expect(legacyData.get(LEGACY_KEY)).toBe('{"theme":"dark"}');
+    expect(await storage.loadSavedPlaces()).toEqual([]);
+  });
+
+  it('discards data that is not JSON', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    legacyData.set(LEGACY_KEY, '{not json');
+
+    expect(await storage.migrateFromLocalStorage()).toBe(0);
+
+    expect(legacyData.has(LEGACY_KEY)).toBe(false);
+  });
+});
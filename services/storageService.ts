@@ -0,0 +1,376 @@
+import { SavedPlace, CheckIn, CheckInPhoto, PlaceList, SharedList } from '../types';
+import { blobToObjectUrl, photoSourceToBlob } from './dataUrl';
+import { migrateSavedPlace } from './checkInMigration';
+import { getMessages } from './i18n';
+
+const DB_NAME = 'gourmet_map';
+// v1: one photo per check-in, referenced by `photoId`
+// v2: ordered `photos` list with captions and thumbnails
+// v3: named place lists and imported shared lists
+const DB_VERSION = 3;
+
+const PLACES_STORE = 'places';
+const CHECKINS_STORE = 'checkIns';
+const PHOTOS_STORE = 'photos';
+const LISTS_STORE = 'lists';
+const SHARED_LISTS_STORE = 'sharedLists';
+
+// Key used by earlier versions that kept everything in localStorage
+const LEGACY_STORAGE_KEY = 'my_gourmet_map_places';
+
+// A saved place as stored on disk; check-ins live in their own store
+type StoredPlace = Omit<SavedPlace, 'myCheckIns'>;
+
+// A check-in as stored on disk; image data is kept as Blobs in the photos store
+interface StoredCheckIn extends Omit<CheckIn, 'photos'> {
+  photos: Pick<CheckInPhoto, 'id' | 'caption'>[];
+}
+
+interface StoredPhoto {
+  id: string;
+  checkInId: string;
+  blob: Blob;
+  thumbnail?: Blob;
+}
+
+export type StorageErrorKind = 'quota' | 'unavailable' | 'unknown';
+
+export class StorageError extends Error {
+  kind: StorageErrorKind;
+
+  constructor(kind: StorageErrorKind, message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'StorageError';
+    this.kind = kind;
+  }
+}
+
+export interface StorageEstimate {
+  usage: number; // bytes
+  quota: number; // bytes
+}
+
+const toStorageError = (error: unknown): StorageError => {
+  if (error instanceof StorageError) return error;
+  const domError = error as DOMException | null;
+  if (domError?.name === 'QuotaExceededError') {
+    return new StorageError('quota', getMessages().storage.full, { cause: error });
+  }
+  return new StorageError('unknown', getMessages().storage.failed, { cause: error });
+};
+
+// --- IndexedDB helpers ---
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new StorageError('unavailable', getMessages().storage.unsupported));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(PLACES_STORE)) {
+        db.createObjectStore(PLACES_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(CHECKINS_STORE)) {
+        const checkIns = db.createObjectStore(CHECKINS_STORE, { keyPath: 'id' });
+        checkIns.createIndex('placeId', 'placeId');
+      }
+      if (!db.objectStoreNames.contains(PHOTOS_STORE)) {
+        const photos = db.createObjectStore(PHOTOS_STORE, { keyPath: 'id' });
+        photos.createIndex('checkInId', 'checkInId');
+      }
+      if (!db.objectStoreNames.contains(LISTS_STORE)) {
+        db.createObjectStore(LISTS_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(SHARED_LISTS_STORE)) {
+        db.createObjectStore(SHARED_LISTS_STORE, { keyPath: 'id' });
+      }
+      if (event.oldVersion === 1) {
+        upgradeCheckInsFromV1(request.transaction!.objectStore(CHECKINS_STORE));
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(new StorageError('unavailable', getMessages().storage.unavailable, { cause: request.error }));
+  });
+
+  // Allow a later call to retry if opening failed
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+};
+
+// v1 check-ins pointed at a single photo record; turn that into a one-item list
+const upgradeCheckInsFromV1 = (checkInStore: IDBObjectStore) => {
+  const cursorRequest = checkInStore.openCursor();
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result;
+    if (!cursor) return;
+    const { photoId, ...record } = cursor.value as StoredCheckIn & { photoId?: string };
+    cursor.update({ ...record, photos: photoId ? [{ id: photoId }] : [] });
+    cursor.continue();
+  };
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(toStorageError(tx.error));
+    tx.onabort = () => reject(toStorageError(tx.error));
+  });
+
+// Deletes every record whose `indexName` equals `key`, except the primary keys in `keep`.
+// Keys are collected before deleting so records put later in the same transaction are untouched.
+const deleteByIndex = (store: IDBObjectStore, indexName: string, key: IDBValidKey, keep: IDBValidKey[] = []) => {
+  const keysRequest = store.index(indexName).getAllKeys(IDBKeyRange.only(key));
+  keysRequest.onsuccess = () => {
+    keysRequest.result
+      .filter(primaryKey => !keep.includes(primaryKey))
+      .forEach(primaryKey => store.delete(primaryKey));
+  };
+};
+
+// --- Record conversion ---
+
+const toStoredPlace = ({ myCheckIns, ...place }: SavedPlace): StoredPlace => place;
+
+interface PreparedCheckIn {
+  record: StoredCheckIn;
+  photos: StoredPhoto[];
+}
+
+// Splits the images out of a check-in. Runs before the transaction is
+// opened so no non-IndexedDB work happens inside it.
+const prepareCheckIn = ({ photos, ...checkIn }: CheckIn): PreparedCheckIn => ({
+  record: { ...checkIn, photos: photos.map(({ id, caption }) => (caption ? { id, caption } : { id })) },
+  photos: photos.map(photo => ({
+    id: photo.id,
+    checkInId: checkIn.id,
+    blob: photoSourceToBlob(photo.src),
+    thumbnail: photo.thumbnail ? photoSourceToBlob(photo.thumbnail) : undefined,
+  })),
+});
+
+const writeCheckIn = (checkInStore: IDBObjectStore, photoStore: IDBObjectStore, prepared: PreparedCheckIn) => {
+  // Drop photos that were removed from the check-in, keep (and overwrite) the rest
+  deleteByIndex(photoStore, 'checkInId', prepared.record.id, prepared.photos.map(photo => photo.id));
+  checkInStore.put(prepared.record);
+  prepared.photos.forEach(photo => photoStore.put(photo));
+};
+
+const removeCheckIn = (checkInStore: IDBObjectStore, photoStore: IDBObjectStore, checkInId: string) => {
+  deleteByIndex(photoStore, 'checkInId', checkInId);
+  checkInStore.delete(checkInId);
+};
+
+const removePlace = (stores: IDBObjectStore[], place: SavedPlace) => {
+  const [placeStore, checkInStore, photoStore] = stores;
+  place.myCheckIns.forEach(checkIn => removeCheckIn(checkInStore, photoStore, checkIn.id));
+  deleteByIndex(checkInStore, 'placeId', place.id);
+  placeStore.delete(place.id);
+};
+
+const runWrite = async (write: (stores: IDBObjectStore[]) => void): Promise<void> => {
+  let tx: IDBTransaction;
+  try {
+    const db = await openDatabase();
+    tx = db.transaction([PLACES_STORE, CHECKINS_STORE, PHOTOS_STORE], 'readwrite');
+    write([tx.objectStore(PLACES_STORE), tx.objectStore(CHECKINS_STORE), tx.objectStore(PHOTOS_STORE)]);
+  } catch (error) {
+    throw toStorageError(error);
+  }
+  await transactionDone(tx);
+};
+
+// Single-store writes for small records that don't need the diffing the places get
+const writeRecord = async (storeName: string, write: (store: IDBObjectStore) => void): Promise<void> => {
+  let tx: IDBTransaction;
+  try {
+    const db = await openDatabase();
+    tx = db.transaction(storeName, 'readwrite');
+    write(tx.objectStore(storeName));
+  } catch (error) {
+    throw toStorageError(error);
+  }
+  await transactionDone(tx);
+};
+
+const readAll = async <T>(storeName: string): Promise<T[]> => {
+  const db = await openDatabase();
+  return requestToPromise(db.transaction(storeName, 'readonly').objectStore(storeName).getAll() as IDBRequest<T[]>);
+};
+
+// --- Public API ---
+
+export const loadSavedPlaces = async (): Promise<SavedPlace[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction([PLACES_STORE, CHECKINS_STORE, PHOTOS_STORE], 'readonly');
+  const [places, checkIns, photos] = await Promise.all([
+    requestToPromise(tx.objectStore(PLACES_STORE).getAll() as IDBRequest<StoredPlace[]>),
+    requestToPromise(tx.objectStore(CHECKINS_STORE).getAll() as IDBRequest<StoredCheckIn[]>),
+    requestToPromise(tx.objectStore(PHOTOS_STORE).getAll() as IDBRequest<StoredPhoto[]>),
+  ]);
+
+  // Object URLs rather than data URLs, so the images aren't copied into memory as base64
+  const imagesById = new Map<string, { src: string; thumbnail?: string }>();
+  photos.forEach(photo => {
+    imagesById.set(photo.id, {
+      src: blobToObjectUrl(photo.blob),
+      thumbnail: photo.thumbnail ? blobToObjectUrl(photo.thumbnail) : undefined,
+    });
+  });
+
+  const checkInsByPlace = new Map<string, CheckIn[]>();
+  checkIns.forEach(({ photos: photoRefs, ...checkIn }) => {
+    const list = checkInsByPlace.get(checkIn.placeId) || [];
+    list.push({
+      ...checkIn,
+      // A reference without image data is skipped rather than shown broken
+      photos: photoRefs.flatMap(ref => {
+        const image = imagesById.get(ref.id);
+        return image ? [{ ...ref, ...image }] : [];
+      }),
+    });
+    checkInsByPlace.set(checkIn.placeId, list);
+  });
+
+  return places.map(place => ({
+    ...place,
+    myCheckIns: (checkInsByPlace.get(place.id) || []).sort((a, b) => a.timestamp - b.timestamp),
+  }));
+};
+
+export const getPhotoBlob = async (photoId: string): Promise<Blob | undefined> => {
+  const db = await openDatabase();
+  const store = db.transaction(PHOTOS_STORE, 'readonly').objectStore(PHOTOS_STORE);
+  const photo = await requestToPromise(store.get(photoId) as IDBRequest<StoredPhoto | undefined>);
+  return photo?.blob;
+};
+
+export const saveSavedPlace = async (place: SavedPlace): Promise<void> => {
+  const prepared = place.myCheckIns.map(prepareCheckIn);
+  await runWrite(([placeStore, checkInStore, photoStore]) => {
+    placeStore.put(toStoredPlace(place));
+    prepared.forEach(item => writeCheckIn(checkInStore, photoStore, item));
+  });
+};
+
+export const deleteSavedPlace = async (place: SavedPlace): Promise<void> => {
+  await runWrite(stores => removePlace(stores, place));
+};
+
+export const saveCheckIn = async (checkIn: CheckIn): Promise<void> => {
+  const prepared = prepareCheckIn(checkIn);
+  await runWrite(([, checkInStore, photoStore]) => writeCheckIn(checkInStore, photoStore, prepared));
+};
+
+export const deleteCheckIn = async (checkInId: string): Promise<void> => {
+  await runWrite(([, checkInStore, photoStore]) => removeCheckIn(checkInStore, photoStore, checkInId));
+};
+
+// Writes only what changed between two snapshots of the saved places list.
+// React state is updated immutably, so a changed reference means a changed record.
+export const persistChanges = async (previous: SavedPlace[], next: SavedPlace[]): Promise<void> => {
+  const previousById = new Map(previous.map(place => [place.id, place]));
+  const nextIds = new Set(next.map(place => place.id));
+
+  const changedPlaces: StoredPlace[] = [];
+  const changedCheckIns: PreparedCheckIn[] = [];
+  const removedCheckInIds: string[] = [];
+  const removedPlaces = previous.filter(place => !nextIds.has(place.id));
+
+  next.forEach(place => {
+    const before = previousById.get(place.id);
+    if (before === place) return;
+
+    changedPlaces.push(toStoredPlace(place));
+    const beforeCheckIns = new Map((before?.myCheckIns || []).map(c => [c.id, c]));
+    place.myCheckIns.forEach(checkIn => {
+      if (beforeCheckIns.get(checkIn.id) !== checkIn) changedCheckIns.push(prepareCheckIn(checkIn));
+      beforeCheckIns.delete(checkIn.id);
+    });
+    removedCheckInIds.push(...beforeCheckIns.keys());
+  });
+
+  if (!changedPlaces.length && !changedCheckIns.length && !removedCheckInIds.length && !removedPlaces.length) {
+    return;
+  }
+
+  await runWrite(stores => {
+    const [placeStore, checkInStore, photoStore] = stores;
+    removedPlaces.forEach(place => removePlace(stores, place));
+    changedPlaces.forEach(place => placeStore.put(place));
+    changedCheckIns.forEach(item => writeCheckIn(checkInStore, photoStore, item));
+    removedCheckInIds.forEach(id => removeCheckIn(checkInStore, photoStore, id));
+  });
+};
+
+export const loadPlaceLists = async (): Promise<PlaceList[]> =>
+  (await readAll<PlaceList>(LISTS_STORE)).sort((a, b) => a.createdAt - b.createdAt);
+
+export const savePlaceList = (list: PlaceList): Promise<void> =>
+  writeRecord(LISTS_STORE, store => store.put(list));
+
+export const deletePlaceList = (listId: string): Promise<void> =>
+  writeRecord(LISTS_STORE, store => store.delete(listId));
+
+export const loadSharedLists = async (): Promise<SharedList[]> =>
+  (await readAll<SharedList>(SHARED_LISTS_STORE)).sort((a, b) => a.importedAt - b.importedAt);
+
+export const saveSharedList = (list: SharedList): Promise<void> =>
+  writeRecord(SHARED_LISTS_STORE, store => store.put(list));
+
+export const deleteSharedList = (listId: string): Promise<void> =>
+  writeRecord(SHARED_LISTS_STORE, store => store.delete(listId));
+
+// One-time import of the data older versions kept in localStorage.
+// The legacy key is removed only after the data is safely written.
+export const migrateFromLocalStorage = async (): Promise<number> => {
+  const legacy = localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (!legacy) return 0;
+
+  let places: SavedPlace[];
+  try {
+    const parsed: unknown = JSON.parse(legacy);
+    // Not a list of places, so not something we wrote; leave it alone
+    if (!Array.isArray(parsed)) {
+      console.warn('Skipping legacy data that is not a list of places');
+      return 0;
+    }
+    places = parsed.map(migrateSavedPlace);
+  } catch (error) {
+    console.error('Discarding unreadable legacy data', error);
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+    return 0;
+  }
+
+  await persistChanges([], places);
+  localStorage.removeItem(LEGACY_STORAGE_KEY);
+  return places.length;
+};
+
+export const getStorageEstimate = async (): Promise<StorageEstimate | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+};
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  return `${(bytes / 1024 / 1024 / 1024).toFixed(1)} GB`;
+};
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { CheckIn } from '../types';
+import { SyncRecord, compareVersions, stableStringify } from './syncProtocol';
+
+const checkIn = (overrides: Partial<CheckIn> = {}): CheckIn => ({
+  id: 'c1',
+  placeId: 'p1',
+  timestamp: 1000,
+  rating: 4,
+  text: '',
+  photos: [],
+  ...overrides,
+});
+
+const version = (updatedAt: number, data?: Partial<CheckIn>, deleted = false): SyncRecord =>
+  deleted
+    ? { kind: 'checkIn', id: 'c1', updatedAt, deleted: true }
+    : { kind: 'checkIn', id: 'c1', updatedAt, data: checkIn(data) };
+
+describe('compareVersions', () => {
+  it('prefers the later edit', () => {
+    expect(compareVersions(version(20), version(10))).toBeGreaterThan(0);
+    expect(compareVersions(version(10), version(20))).toBeLessThan(0);
+    expect(compareVersions(version(20, {}, true), version(10))).toBeGreaterThan(0);
+    expect(compareVersions(version(20), version(10, {}, true))).toBeGreaterThan(0);
+  });
+
+  it('lets a deletion win over an edit made in the same millisecond', () => {
+    expect(compareVersions(version(10, {}, true), version(10))).toBeGreaterThan(0);
+    expect(compareVersions(version(10), version(10, {}, true))).toBeLessThan(0);
+  });
+
+  it('breaks a tie between edits on content, the same way from either side', () => {
+    const a = version(10, { text: 'a' });
+    const b = version(10, { text: 'b' });
+    expect(compareVersions(b, a)).toBeGreaterThan(0);
+    expect(compareVersions(a, b)).toBeLessThan(0);
+    expect(compareVersions(a, version(10, { text: 'a' }))).toBe(0);
+  });
+
+  it('treats the same photo held as an object URL or a data URL as the same content', () => {
+    const stored = version(10, { photos: [{ id: 'ph1', src: 'blob:http://localhost/1', caption: '拉麵' }] });
+    const sent = version(10, { photos: [{ id: 'ph1', src: 'data:image/jpeg;base64,AAAA', thumbnail: 'data:image/jpeg;base64,BB', caption: '拉麵' }] });
+    expect(compareVersions(stored, sent)).toBe(0);
+    expect(compareVersions(stored, version(10, { photos: [{ id: 'ph1', src: 'blob:x', caption: '湯' }] }))).not.toBe(0);
+  });
+});
+
+describe('stableStringify', () => {
+  it('ignores key order and undefined fields', () => {
+    expect(stableStringify({ b: 1, a: [{ d: 2, c: undefined }] })).toBe(stableStringify({ a: [{ d: 2 }], b: 1 }));
+  });
+});
@@ -0,0 +1,83 @@
+import type { SavedPlace, CheckIn } from '../types';
+
+// Wire format and conflict rules shared by the app and the reference sync server
+// (server/syncServer.ts). The endpoints are described in server/README.md.
+
+export type SyncRecordKind = 'place' | 'checkIn';
+
+// A place without its check-ins, which sync as records of their own
+export type SyncPlace = Omit<SavedPlace, 'myCheckIns'>;
+
+export interface SyncRecord {
+  kind: SyncRecordKind;
+  id: string;
+  updatedAt: number; // ms since epoch, from the clock of the device that made the change
+  deleted?: boolean; // Tombstone; `data` is left out
+  data?: SyncPlace | CheckIn;
+}
+
+// GET /v1/changes?since=<cursor>&device=<deviceId>
+export interface PullResponse {
+  records: SyncRecord[];
+  cursor: string; // Opaque; pass it back as `since`
+  hasMore: boolean;
+}
+
+// POST /v1/changes
+export interface PushRequest {
+  deviceId: string;
+  records: SyncRecord[];
+}
+
+export interface PushResponse {
+  // The server's version of each pushed record that lost to it
+  conflicts: SyncRecord[];
+}
+
+export const PULL_PAGE_SIZE = 200;
+
+export const recordKey = (record: Pick<SyncRecord, 'kind' | 'id'>) => `${record.kind}:${record.id}`;
+
+// JSON with sorted keys, so equal records serialize equally on every device
+export const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value)
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+};
+
+// What two versions of a record are compared on. A photo's image never changes under the same
+// id, and a device may hold it as an object URL rather than a data URL, so photos count by id
+// and caption only.
+export const comparableContent = (data: unknown): unknown => {
+  const photos = (data as Partial<CheckIn> | undefined)?.photos;
+  if (!Array.isArray(photos)) return data;
+  return { ...(data as CheckIn), photos: photos.map(({ src, thumbnail, ...photo }) => photo) };
+};
+
+// Orders two versions of the same record: positive when `a` wins. Every device and the
+// server pick the same winner: the later edit, then a deletion over an edit, and for edits
+// made in the same millisecond the one whose content sorts last.
+export const compareVersions = (a: SyncRecord, b: SyncRecord): number => {
+  if (a.updatedAt !== b.updatedAt) return a.updatedAt - b.updatedAt;
+  if (!!a.deleted !== !!b.deleted) return a.deleted ? 1 : -1;
+  const left = stableStringify(comparableContent(a.data));
+  const right = stableStringify(comparableContent(b.data));
+  return left === right ? 0 : left > right ? 1 : -1;
+};
+
+export const isSyncRecord = (value: unknown): value is SyncRecord => {
+  const record = value as Partial<SyncRecord> | null;
+  return !!record &&
+    (record.kind === 'place' || record.kind === 'checkIn') &&
+    typeof record.id === 'string' && record.id !== '' &&
+    typeof record.updatedAt === 'number' && Number.isFinite(record.updatedAt) &&
+    (record.deleted === true
+      ? record.data === undefined
+      : typeof record.data === 'object' && record.data !== null && (record.data as { id?: unknown }).id === record.id);
+};
@@ -0,0 +1,196 @@
+import { describe, expect, it } from 'vitest';
+import { SavedPlace, CheckIn } from '../types';
+import { SyncRecord, SyncPlace, PullResponse } from './syncProtocol';
+import {
+  SyncState,
+  SyncTransport,
+  applyRemoteRecords,
+  trackLocalChanges,
+  syncOnce,
+} from './syncService';
+
+const checkIn = (id: string, placeId: string, overrides: Partial<CheckIn> = {}): CheckIn => ({
+  id,
+  placeId,
+  timestamp: 1000,
+  rating: 4,
+  text: '',
+  photos: [],
+  ...overrides,
+});
+
+const place = (id: string, checkIns: CheckIn[] = [], overrides: Partial<SavedPlace> = {}): SavedPlace => ({
+  id,
+  name: id,
+  location: { latitude: 25.04, longitude: 121.55 },
+  myCheckIns: checkIns,
+  ...overrides,
+});
+
+const placeRecord = (data: SyncPlace, updatedAt = data.updatedAt ?? 0): SyncRecord =>
+  ({ kind: 'place', id: data.id, updatedAt, data });
+const checkInRecord = (data: CheckIn, updatedAt = data.updatedAt ?? 0): SyncRecord =>
+  ({ kind: 'checkIn', id: data.id, updatedAt, data });
+const tombstone = (kind: SyncRecord['kind'], id: string, updatedAt: number): SyncRecord =>
+  ({ kind, id, updatedAt, deleted: true });
+
+describe('applyRemoteRecords', () => {
+  it('adds a new place and attaches its check-in, whatever order they arrive in', () => {
+    const remoteCheckIn = checkIn('c1', 'p1', { updatedAt: 10 });
+    const { myCheckIns, ...remotePlace } = place('p1', [], { updatedAt: 20 });
+
+    const merged = applyRemoteRecords([], [checkInRecord(remoteCheckIn), placeRecord(remotePlace)], {});
+
+    expect(merged).toHaveLength(1);
+    expect(merged[0].myCheckIns).toEqual([remoteCheckIn]);
+  });
+
+  it('keeps whichever version is newer', () => {
+    const local = [place('p1', [checkIn('c1', 'p1', { text: 'local', updatedAt: 20 })], { name: 'local', updatedAt: 20 })];
+
+    const older = applyRemoteRecords(local, [
+      placeRecord({ id: 'p1', name: 'remote', location: local[0].location, updatedAt: 10 }),
+      checkInRecord(checkIn('c1', 'p1', { text: 'remote', updatedAt: 10 })),
+    ], {});
+    expect(older).toBe(local);
+
+    const newer = applyRemoteRecords(local, [
+      placeRecord({ id: 'p1', name: 'remote', location: local[0].location, updatedAt: 30 }),
+      checkInRecord(checkIn('c1', 'p1', { text: 'remote', updatedAt: 30 })),
+    ], {});
+    expect(newer[0].name).toBe('remote');
+    expect(newer[0].myCheckIns.map(c => c.text)).toEqual(['remote']);
+  });
+
+  it('applies remote deletions and keeps the order of the other places', () => {
+    const local = [
+      place('p1', [checkIn('c1', 'p1', { updatedAt: 10 }), checkIn('c2', 'p1', { timestamp: 2000, updatedAt: 10 })], { updatedAt: 10 }),
+      place('p2', [], { updatedAt: 10 }),
+      place('p3', [], { updatedAt: 10 }),
+    ];
+
+    const merged = applyRemoteRecords(local, [tombstone('checkIn', 'c1', 20), tombstone('place', 'p2', 20)], {});
+
+    expect(merged.map(p => p.id)).toEqual(['p1', 'p3']);
+    expect(merged[0].myCheckIns.map(c => c.id)).toEqual(['c2']);
+  });
+
+  it("doesn't bring back what we deleted later than the remote edit", () => {
+    const merged = applyRemoteRecords([], [placeRecord({ id: 'p1', name: 'p1', location: { latitude: 0, longitude: 0 }, updatedAt: 10 })], {
+      'place:p1': 20,
+    });
+    expect(merged).toEqual([]);
+  });
+
+  it('drops a check-in whose place is gone', () => {
+    const merged = applyRemoteRecords([place('p2')], [checkInRecord(checkIn('c1', 'p1', { updatedAt: 10 }))], {});
+    expect(merged[0].myCheckIns).toEqual([]);
+  });
+});
+
+describe('trackLocalChanges', () => {
+  const NOW = 5000;
+
+  it('stamps an edited check-in but not its unchanged place', () => {
+    const before = [place('p1', [checkIn('c1', 'p1', { updatedAt: 10 })], { updatedAt: 10 })];
+    const after = [{ ...before[0], myCheckIns: [{ ...before[0].myCheckIns[0], text: 'edited' }] }];
+
+    const { places, tombstones } = trackLocalChanges(before, after, {}, NOW);
+
+    expect(places[0].myCheckIns[0].updatedAt).toBe(NOW);
+    expect(places[0].updatedAt).toBe(10);
+    expect(tombstones).toEqual({});
+  });
+
+  it('stamps a place whose own fields changed', () => {
+    const before = [place('p1', [], { updatedAt: 10 })];
+    const { places } = trackLocalChanges(before, [{ ...before[0], name: 'renamed' }], {}, NOW);
+    expect(places[0].updatedAt).toBe(NOW);
+  });
+
+  it('leaves records that arrived already stamped by a sync', () => {
+    const before = [place('p1', [checkIn('c1', 'p1', { updatedAt: 10 })], { updatedAt: 10 })];
+    const after = [{ ...before[0], name: 'remote', updatedAt: 30, myCheckIns: [{ ...before[0].myCheckIns[0], text: 'remote', updatedAt: 30 }] }];
+
+    const result = trackLocalChanges(before, after, {}, NOW);
+
+    expect(result.places).toBe(after);
+  });
+
+  it('leaves a tombstone for each deleted place and check-in', () => {
+    const before = [
+      place('p1', [checkIn('c1', 'p1', { updatedAt: 10 }), checkIn('c2', 'p1', { updatedAt: 10 })], { updatedAt: 10 }),
+      place('p2', [checkIn('c3', 'p2', { updatedAt: 10 })], { updatedAt: 10 }),
+    ];
+    const after = [{ ...before[0], myCheckIns: [before[0].myCheckIns[0]] }];
+
+    const { tombstones } = trackLocalChanges(before, after, {}, NOW);
+
+    expect(tombstones).toEqual({ 'checkIn:c2': NOW, 'place:p2': NOW, 'checkIn:c3': NOW });
+  });
+
+  it("doesn't tombstone what a sync already deleted", () => {
+    const before = [place('p1', [], { updatedAt: 10 })];
+    const { tombstones } = trackLocalChanges(before, [], { 'place:p1': 20 }, NOW);
+    expect(tombstones).toEqual({ 'place:p1': 20 });
+  });
+
+  it('stamps a record brought back by undo so it outlives its tombstone', () => {
+    const restored = checkIn('c1', 'p1', { updatedAt: 10 });
+    const before = [place('p1', [], { updatedAt: 10 })];
+    const after = [{ ...before[0], myCheckIns: [restored] }];
+
+    const { places, tombstones } = trackLocalChanges(before, after, { 'checkIn:c1': 20 }, NOW);
+
+    expect(places[0].myCheckIns[0].updatedAt).toBe(NOW);
+    expect(tombstones).toEqual({});
+  });
+
+  it('returns the same lists when nothing changed', () => {
+    const places = [place('p1', [], { updatedAt: 10 })];
+    const tombstones = { 'place:p0': 1 };
+    const result = trackLocalChanges(places, places, tombstones, NOW);
+    expect(result.places).toBe(places);
+    expect(result.tombstones).toBe(tombstones);
+  });
+});
+
+describe('syncOnce', () => {
+  const newState = (): SyncState => ({ deviceId: 'device', cursor: null, lastSyncedAt: null, known: {}, tombstones: {} });
+
+  // Runs a sync against pages the server hands out, holding places and state like the app does
+  const runSync = async (pages: PullResponse[]) => {
+    let state = newState();
+    let places: SavedPlace[] = [];
+    const pulledSince: (string | null)[] = [];
+    const transport: SyncTransport = {
+      pull: async since => {
+        pulledSince.push(since);
+        return pages[pulledSince.length - 1];
+      },
+      push: async () => ({ conflicts: [] }),
+    };
+    await syncOnce(transport, {
+      getState: () => state,
+      updateState: update => { state = update(state); },
+      getPlaces: () => places,
+      applyRecords: (records, tombstones) => { places = applyRemoteRecords(places, records, tombstones); },
+    });
+    return { state, places, pulledSince };
+  };
+
+  it('attaches a check-in that arrives a page before its place', async () => {
+    const { myCheckIns, ...remotePlace } = place('p1', [], { updatedAt: 20 });
+    const remoteCheckIn = checkIn('c1', 'p1', { updatedAt: 10 });
+
+    const { state, places, pulledSince } = await runSync([
+      { records: [checkInRecord(remoteCheckIn)], cursor: '1', hasMore: true },
+      { records: [placeRecord(remotePlace)], cursor: '2', hasMore: false },
+    ]);
+
+    expect(pulledSince).toEqual([null, '1']);
+    expect(places[0].myCheckIns).toEqual([remoteCheckIn]);
+    expect(state.known).toEqual({ 'checkIn:c1': 10, 'place:p1': 20 });
+    expect(state.cursor).toBe('2');
+  });
+});
@@ -0,0 +1,423 @@
+import { SavedPlace, CheckIn } from '../types';
+import {
+  SyncRecord, SyncRecordKind, SyncPlace, PullResponse, PushResponse,
+  recordKey, compareVersions,
+} from './syncProtocol';
+import { getMessages } from './i18n';
+import { photoSourceToDataUrl } from './dataUrl';
+
+// Keeps saved places and check-ins in step with a sync server (see server/README.md).
+// Every local edit stamps `updatedAt` on the record it touched and every deletion leaves a
+// tombstone; a sync pulls what other devices changed since our cursor, then pushes ours.
+
+export type SyncErrorKind = 'network' | 'auth' | 'server';
+
+export class SyncError extends Error {
+  kind: SyncErrorKind;
+
+  constructor(kind: SyncErrorKind, message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'SyncError';
+    this.kind = kind;
+  }
+}
+
+export interface SyncSettings {
+  serverUrl: string; // Empty turns sync off
+  token: string; // Sent as a bearer token when the server asks for one
+}
+
+export interface SyncState {
+  deviceId: string;
+  cursor: string | null; // Where the last pull stopped
+  lastSyncedAt: number | null;
+  known: Record<string, number>; // recordKey -> the version the server has, as far as we know
+  tombstones: Record<string, number>; // recordKey -> when it was deleted
+}
+
+export interface SyncTransport {
+  pull: (since: string | null, deviceId: string, signal?: AbortSignal) => Promise<PullResponse>;
+  push: (deviceId: string, records: SyncRecord[], signal?: AbortSignal) => Promise<PushResponse>;
+}
+
+export interface SyncStatus {
+  phase: 'idle' | 'syncing' | 'error';
+  lastSyncedAt: number | null;
+  error?: string;
+}
+
+export interface SyncSummary {
+  received: number;
+  sent: number;
+}
+
+const SETTINGS_STORAGE_KEY = 'gourmet_map_sync_settings';
+const STATE_STORAGE_KEY = 'gourmet_map_sync_state';
+
+// Pull what other devices changed this often while the app is open
+export const SYNC_INTERVAL_MS = 3 * 60 * 1000;
+// Push local edits once they've settled for this long
+export const SYNC_DEBOUNCE_MS = 5000;
+
+// Pushes are split so photo-heavy check-ins don't end up in one huge request
+const PUSH_BATCH_RECORDS = 50;
+const PUSH_BATCH_BYTES = 4 * 1024 * 1024;
+
+const DEFAULT_SYNC_SETTINGS: SyncSettings = { serverUrl: process.env.SYNC_URL || '', token: '' };
+
+export const loadSyncSettings = (): SyncSettings => {
+  try {
+    const stored = localStorage.getItem(SETTINGS_STORAGE_KEY);
+    return stored ? { ...DEFAULT_SYNC_SETTINGS, ...JSON.parse(stored) } : DEFAULT_SYNC_SETTINGS;
+  } catch {
+    return DEFAULT_SYNC_SETTINGS;
+  }
+};
+
+export const saveSyncSettings = (settings: SyncSettings) => {
+  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+};
+
+const newSyncState = (): SyncState => ({
+  deviceId: crypto.randomUUID(),
+  cursor: null,
+  lastSyncedAt: null,
+  known: {},
+  tombstones: {},
+});
+
+export const loadSyncState = (): SyncState => {
+  try {
+    const stored = localStorage.getItem(STATE_STORAGE_KEY);
+    return stored ? { ...newSyncState(), ...JSON.parse(stored) } : newSyncState();
+  } catch {
+    return newSyncState();
+  }
+};
+
+export const saveSyncState = (state: SyncState) => {
+  localStorage.setItem(STATE_STORAGE_KEY, JSON.stringify(state));
+};
+
+// A different server knows nothing of ours: start over, but keep the pending deletions
+export const resetSyncProgress = (state: SyncState): SyncState =>
+  ({ ...state, cursor: null, lastSyncedAt: null, known: {} });
+
+// --- Transport ---
+
+export const createRestSyncTransport = ({ baseUrl, token, timeoutMs = 30000 }: {
+  baseUrl: string;
+  token?: string;
+  timeoutMs?: number;
+}): SyncTransport => {
+  const request = async <T>(path: string, init: RequestInit, signal?: AbortSignal): Promise<T> => {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    const abort = () => controller.abort();
+    signal?.addEventListener('abort', abort);
+
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl.replace(/\/$/, '')}${path}`, {
+        ...init,
+        headers: {
+          ...(init.body ? { 'Content-Type': 'application/json' } : {}),
+          ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        },
+        signal: controller.signal,
+      });
+    } catch (error) {
+      throw new SyncError('network', getMessages().sync.unreachable, { cause: error });
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', abort);
+    }
+
+    if (response.status === 401 || response.status === 403) {
+      throw new SyncError('auth', getMessages().sync.tokenRejected);
+    }
+    if (!response.ok) {
+      throw new SyncError('server', getMessages().sync.serverError(response.status));
+    }
+    return response.json();
+  };
+
+  return {
+    pull: (since, deviceId, signal) => {
+      const params = new URLSearchParams({ device: deviceId });
+      if (since) params.set('since', since);
+      return request(`/v1/changes?${params}`, { method: 'GET' }, signal);
+    },
+    push: (deviceId, records, signal) =>
+      request('/v1/changes', { method: 'POST', body: JSON.stringify({ deviceId, records }) }, signal),
+  };
+};
+
+// --- Local changes ---
+
+const placeFields = ({ myCheckIns, ...place }: SavedPlace): SyncPlace => place;
+
+const placeKey = (id: string) => recordKey({ kind: 'place', id });
+const checkInKey = (id: string) => recordKey({ kind: 'checkIn', id });
+
+// Whether anything but the check-ins and the stamp differs
+const placeFieldsChanged = (a: SavedPlace, b: SavedPlace) => {
+  const left = placeFields(a) as Record<string, unknown>;
+  const right = placeFields(b) as Record<string, unknown>;
+  const keys = new Set([...Object.keys(left), ...Object.keys(right)]);
+  keys.delete('updatedAt');
+  return [...keys].some(key => left[key] !== right[key]);
+};
+
+// Stamps the records a local edit touched and notes what it deleted. Records that arrive
+// with a new `updatedAt` already came stamped (from a sync), so they're left alone;
+// a record that comes back after being deleted (undo) is stamped so it outlives its tombstone.
+export const trackLocalChanges = (
+  previous: SavedPlace[],
+  next: SavedPlace[],
+  tombstones: Record<string, number>,
+  now = Date.now()
+): { places: SavedPlace[]; tombstones: Record<string, number> } => {
+  const previousById = new Map(previous.map(place => [place.id, place]));
+  const nextIds = new Set(next.map(place => place.id));
+  const nextTombstones = { ...tombstones };
+  let stamped = false;
+  let deleted = false;
+
+  const needsStamp = (key: string, record: { updatedAt?: number }, before?: { updatedAt?: number }) =>
+    before
+      ? record.updatedAt === before.updatedAt
+      : record.updatedAt === undefined || (tombstones[key] ?? -Infinity) >= record.updatedAt;
+
+  const stamp = <T extends { updatedAt?: number }>(key: string, record: T): T => {
+    stamped = true;
+    delete nextTombstones[key];
+    return { ...record, updatedAt: now };
+  };
+
+  const markDeleted = (key: string, record: { updatedAt?: number }) => {
+    // Already gone on the server's word
+    if ((tombstones[key] ?? -Infinity) >= (record.updatedAt ?? 0)) return;
+    nextTombstones[key] = now;
+    deleted = true;
+  };
+
+  const places = next.map(place => {
+    const before = previousById.get(place.id);
+    if (before === place) return place;
+
+    const beforeCheckIns = new Map((before?.myCheckIns || []).map(c => [c.id, c]));
+    let checkInsStamped = false;
+    const myCheckIns = place.myCheckIns.map(checkIn => {
+      const old = beforeCheckIns.get(checkIn.id);
+      beforeCheckIns.delete(checkIn.id);
+      if (old === checkIn || !needsStamp(checkInKey(checkIn.id), checkIn, old)) return checkIn;
+      checkInsStamped = true;
+      return stamp(checkInKey(checkIn.id), checkIn);
+    });
+    beforeCheckIns.forEach(checkIn => markDeleted(checkInKey(checkIn.id), checkIn));
+
+    const fieldsChanged = !before || placeFieldsChanged(before, place);
+    const updated = checkInsStamped ? { ...place, myCheckIns } : place;
+    return fieldsChanged && needsStamp(placeKey(place.id), place, before) ? stamp(placeKey(place.id), updated) : updated;
+  });
+
+  previous.forEach(place => {
+    if (nextIds.has(place.id)) return;
+    markDeleted(placeKey(place.id), place);
+    place.myCheckIns.forEach(checkIn => markDeleted(checkInKey(checkIn.id), checkIn));
+  });
+
+  return {
+    places: stamped ? places : next,
+    tombstones: stamped || deleted ? nextTombstones : tombstones,
+  };
+};
+
+const toRecord = (kind: SyncRecordKind, data: SyncPlace | CheckIn): SyncRecord =>
+  ({ kind, id: data.id, updatedAt: data.updatedAt ?? 0, data });
+
+const toTombstone = (key: string, deletedAt: number): SyncRecord => {
+  const separator = key.indexOf(':');
+  return { kind: key.slice(0, separator) as SyncRecordKind, id: key.slice(separator + 1), updatedAt: deletedAt, deleted: true };
+};
+
+// Everything whose current version the server hasn't seen
+export const collectPendingRecords = (places: SavedPlace[], state: SyncState): SyncRecord[] => {
+  const isPending = (key: string, version: number) => state.known[key] !== version;
+  const records: SyncRecord[] = [];
+  places.forEach(place => {
+    if (isPending(placeKey(place.id), place.updatedAt ?? 0)) records.push(toRecord('place', placeFields(place)));
+    place.myCheckIns.forEach(checkIn => {
+      if (isPending(checkInKey(checkIn.id), checkIn.updatedAt ?? 0)) records.push(toRecord('checkIn', checkIn));
+    });
+  });
+  Object.entries(state.tombstones).forEach(([key, deletedAt]) => {
+    if (isPending(key, deletedAt)) records.push(toTombstone(key, deletedAt));
+  });
+  return records;
+};
+
+// --- Remote changes ---
+
+// Merges records from the server into the places, keeping whichever version wins.
+// Places are applied before check-ins so a new place is there for its first check-in.
+export const applyRemoteRecords = (
+  places: SavedPlace[],
+  records: SyncRecord[],
+  tombstones: Record<string, number>
+): SavedPlace[] => {
+  const byId = new Map(places.map(place => [place.id, place]));
+  const placeOfCheckIn = new Map<string, string>();
+  places.forEach(place => place.myCheckIns.forEach(checkIn => placeOfCheckIn.set(checkIn.id, place.id)));
+  let changed = false;
+
+  const localVersion = (key: string, data: SyncPlace | CheckIn | undefined, kind: SyncRecordKind): SyncRecord | null => {
+    if (data) return toRecord(kind, data);
+    return key in tombstones ? toTombstone(key, tombstones[key]) : null;
+  };
+
+  const ordered = [...records].sort((a, b) => (a.kind === b.kind ? 0 : a.kind === 'place' ? -1 : 1));
+  ordered.forEach(record => {
+    const key = recordKey(record);
+    if (record.kind === 'place') {
+      const local = byId.get(record.id);
+      const current = localVersion(key, local && placeFields(local), 'place');
+      if (current && compareVersions(record, current) <= 0) return;
+      changed = true;
+      if (record.deleted) {
+        byId.delete(record.id);
+      } else {
+        byId.set(record.id, { ...(record.data as SyncPlace), myCheckIns: local?.myCheckIns || [] });
+      }
+      return;
+    }
+
+    const ownerId = placeOfCheckIn.get(record.id);
+    const owner = ownerId ? byId.get(ownerId) : undefined;
+    const local = owner?.myCheckIns.find(c => c.id === record.id);
+    const current = localVersion(key, local, 'checkIn');
+    if (current && compareVersions(record, current) <= 0) return;
+
+    const checkIn = record.data as CheckIn | undefined;
+    const target = checkIn ? byId.get(checkIn.placeId) : undefined;
+    // A check-in of a place we've deleted stays deleted
+    if (checkIn && !target) return;
+    changed = true;
+    if (owner) {
+      byId.set(owner.id, { ...owner, myCheckIns: owner.myCheckIns.filter(c => c.id !== record.id) });
+      placeOfCheckIn.delete(record.id);
+    }
+    if (checkIn && target) {
+      const latest = byId.get(target.id)!;
+      byId.set(target.id, {
+        ...latest,
+        myCheckIns: [...latest.myCheckIns, checkIn].sort((a, b) => a.timestamp - b.timestamp),
+      });
+      placeOfCheckIn.set(checkIn.id, target.id);
+    }
+  });
+
+  if (!changed) return places;
+  // Keep the existing order; new places go last
+  const merged = places.flatMap(place => byId.has(place.id) ? [byId.get(place.id)!] : []);
+  const existingIds = new Set(places.map(place => place.id));
+  byId.forEach((place, id) => { if (!existingIds.has(id)) merged.push(place); });
+  return merged;
+};
+
+// Records the server's versions as known, so they aren't pushed back, and settles tombstones
+export const acknowledgeRecords = (state: SyncState, records: SyncRecord[]): SyncState => {
+  const known = { ...state.known };
+  const tombstones = { ...state.tombstones };
+  records.forEach(record => {
+    const key = recordKey(record);
+    known[key] = record.updatedAt;
+    const localTombstone = key in tombstones ? toTombstone(key, tombstones[key]) : null;
+    if (record.deleted) {
+      tombstones[key] = Math.max(tombstones[key] ?? -Infinity, record.updatedAt);
+    } else if (localTombstone && compareVersions(record, localTombstone) > 0) {
+      delete tombstones[key];
+    }
+  });
+  return { ...state, known, tombstones };
+};
+
+// --- Sync ---
+
+export interface SyncHooks {
+  getState: () => SyncState;
+  updateState: (update: (state: SyncState) => SyncState) => void;
+  getPlaces: () => SavedPlace[]; // Must already include what `applyRecords` merged
+  applyRecords: (records: SyncRecord[], tombstones: Record<string, number>) => void;
+}
+
+const toBatches = (records: SyncRecord[]): SyncRecord[][] => {
+  const batches: SyncRecord[][] = [];
+  let batch: SyncRecord[] = [];
+  let bytes = 0;
+  records.forEach(record => {
+    const size = JSON.stringify(record).length;
+    if (batch.length && (batch.length >= PUSH_BATCH_RECORDS || bytes + size > PUSH_BATCH_BYTES)) {
+      batches.push(batch);
+      batch = [];
+      bytes = 0;
+    }
+    batch.push(record);
+    bytes += size;
+  });
+  if (batch.length) batches.push(batch);
+  return batches;
+};
+
+// Photos loaded from storage are object URLs, which mean nothing to another device
+const withPhotoData = async (record: SyncRecord): Promise<SyncRecord> => {
+  if (record.kind !== 'checkIn' || !record.data) return record;
+  const checkIn = record.data as CheckIn;
+  const photos = await Promise.all(checkIn.photos.map(async photo => ({
+    ...photo,
+    src: await photoSourceToDataUrl(photo.src),
+    thumbnail: photo.thumbnail ? await photoSourceToDataUrl(photo.thumbnail) : undefined,
+  })));
+  return { ...record, data: { ...checkIn, photos } };
+};
+
+// One round: pull first so what we push has already been reconciled, then push
+export const syncOnce = async (transport: SyncTransport, hooks: SyncHooks, signal?: AbortSignal): Promise<SyncSummary> => {
+  const { deviceId } = hooks.getState();
+  let received = 0;
+  let sent = 0;
+
+  const receive = (records: SyncRecord[]) => {
+    if (!records.length) return;
+    hooks.applyRecords(records, hooks.getState().tombstones);
+    hooks.updateState(state => acknowledgeRecords(state, records));
+    received += records.length;
+  };
+
+  // Applied once the last page is in: a check-in can come a page before its place, and applied
+  // alone it would be dropped and acknowledged. The cursor only moves once they are applied.
+  const pulled: SyncRecord[] = [];
+  let cursor = hooks.getState().cursor;
+  let page: PullResponse;
+  do {
+    page = await transport.pull(cursor, deviceId, signal);
+    pulled.push(...page.records);
+    cursor = page.cursor;
+  } while (page.hasMore);
+  receive(pulled);
+  hooks.updateState(state => ({ ...state, cursor }));
+
+  const pending = await Promise.all(collectPendingRecords(hooks.getPlaces(), hooks.getState()).map(withPhotoData));
+  for (const batch of toBatches(pending)) {
+    const { conflicts } = await transport.push(deviceId, batch, signal);
+    const lost = new Set(conflicts.map(recordKey));
+    const accepted = batch.filter(record => !lost.has(recordKey(record)));
+    hooks.updateState(state => acknowledgeRecords(state, accepted));
+    receive(conflicts);
+    sent += accepted.length;
+  }
+
+  hooks.updateState(state => ({ ...state, lastSyncedAt: Date.now() }));
+  return { received, sent };
+};
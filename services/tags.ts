@@ -0,0 +1,39 @@
+import { SavedPlace } from '../types';
+
+export interface TagCount {
+  tag: string;
+  count: number;
+}
+
+export const normalizeTag = (tag: string): string => tag.trim().replace(/^#+/, '').replace(/\s+/g, ' ');
+
+export const collectTags = (places: SavedPlace[]): TagCount[] => {
+  const counts = new Map<string, number>();
+  places.forEach(place => place.tags?.forEach(tag => counts.set(tag, (counts.get(tag) || 0) + 1)));
+  return [...counts.entries()]
+    .map(([tag, count]) => ({ tag, count }))
+    .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+};
+
+// Adds `tag` unless an equal one is already there
+export const addTag = (tags: string[] | undefined, tag: string): string[] => {
+  const normalized = normalizeTag(tag);
+  const current = tags || [];
+  if (!normalized || current.includes(normalized)) return current;
+  return [...current, normalized];
+};
+
+// Renames `from` to `to` on every place. Renaming onto an existing tag merges the two.
+// Places without the tag are returned as-is so only real changes are persisted.
+export const renameTag = (places: SavedPlace[], from: string, to: string): SavedPlace[] => {
+  const target = normalizeTag(to);
+  if (!target || target === from) return places;
+  return places.map(place => {
+    if (!place.tags?.includes(from)) return place;
+    const tags = place.tags.map(tag => (tag === from ? target : tag));
+    return { ...place, tags: tags.filter((tag, i) => tags.indexOf(tag) === i) };
+  });
+};
+
+export const removeTag = (places: SavedPlace[], tag: string): SavedPlace[] =>
+  places.map(place => (place.tags?.includes(tag) ? { ...place, tags: place.tags.filter(t => t !== tag) } : place));
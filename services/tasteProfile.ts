@@ -0,0 +1,192 @@
+import { Place, SavedPlace, Coordinates, CheckIn } from '../types';
+import { CUISINE_CATEGORIES } from '../constants';
+import { distanceInMeters, formatDistance } from './geo';
+import { averageRating, latestCheckIn } from './placeMetrics';
+import { formatSpend } from './checkInDetails';
+import { getMessages, categoryText } from './i18n';
+
+// What our check-ins say we like, and search results ranked against it
+
+export interface CategoryTaste {
+  category: string;
+  visits: number;
+  averageRating: number;
+  affinity: number; // 0-1, blends how often we go and how much we like it
+}
+
+export interface SpendRange {
+  currency: string;
+  low: number; // Per person, 25th percentile
+  typical: number; // Median
+  high: number; // 75th percentile
+}
+
+export interface TasteProfile {
+  checkInCount: number;
+  averageGiven: number | null; // Our mean rating across all visits
+  categories: CategoryTaste[]; // Highest affinity first
+  spend: SpendRange | null; // In the currency we use most
+  distanceTolerance: number | null; // meters from the current location that usually covers where we eat
+}
+
+export interface VisitInfo {
+  visits: number;
+  lastRating: number;
+  lastVisited: number;
+}
+
+export interface RankedPlace {
+  place: Place;
+  score: number;
+  reasons: string[]; // Why it fits, best first
+  warnings: string[]; // Why it might not
+  visit: VisitInfo | null; // Set when we've been there
+}
+
+const MIN_SPEND_SAMPLES = 3;
+const MIN_DISTANCE_SAMPLES = 3;
+const MIN_DISTANCE_TOLERANCE = 500; // meters
+
+const quantile = (sorted: number[], q: number): number => {
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+};
+
+const perPersonSpend = (checkIn: CheckIn): number | null =>
+  checkIn.spend ? checkIn.spend.amount / Math.max(1, checkIn.partySize || 1) : null;
+
+const spendRange = (checkIns: CheckIn[]): SpendRange | null => {
+  const byCurrency = new Map<string, number[]>();
+  checkIns.forEach(checkIn => {
+    const amount = perPersonSpend(checkIn);
+    if (amount === null || !checkIn.spend) return;
+    byCurrency.set(checkIn.spend.currency, [...(byCurrency.get(checkIn.spend.currency) || []), amount]);
+  });
+  const [currency, amounts] = [...byCurrency.entries()].sort((a, b) => b[1].length - a[1].length)[0] || [];
+  if (!currency || amounts.length < MIN_SPEND_SAMPLES) return null;
+  const sorted = [...amounts].sort((a, b) => a - b);
+  return { currency, low: quantile(sorted, 0.25), typical: quantile(sorted, 0.5), high: quantile(sorted, 0.75) };
+};
+
+export const buildTasteProfile = (places: SavedPlace[], currentLocation: Coordinates): TasteProfile => {
+  const visited = places.filter(place => place.myCheckIns.length > 0);
+  const checkIns = visited.flatMap(place => place.myCheckIns);
+
+  const byCategory = new Map<string, CheckIn[]>();
+  visited.forEach(place => {
+    if (place.category) byCategory.set(place.category, [...(byCategory.get(place.category) || []), ...place.myCheckIns]);
+  });
+  const maxVisits = Math.max(1, ...[...byCategory.values()].map(list => list.length));
+  const categories = [...byCategory.entries()]
+    .map(([category, list]) => {
+      const average = list.reduce((sum, c) => sum + c.rating, 0) / list.length;
+      return {
+        category,
+        visits: list.length,
+        averageRating: average,
+        affinity: (list.length / maxVisits) * 0.5 + ((average - 1) / 4) * 0.5,
+      };
+    })
+    .sort((a, b) => b.affinity - a.affinity);
+
+  const distances = visited.map(place => distanceInMeters(currentLocation, place.location)).sort((a, b) => a - b);
+
+  return {
+    checkInCount: checkIns.length,
+    averageGiven: checkIns.length ? checkIns.reduce((sum, c) => sum + c.rating, 0) / checkIns.length : null,
+    categories,
+    spend: spendRange(checkIns),
+    distanceTolerance: distances.length >= MIN_DISTANCE_SAMPLES
+      ? Math.max(MIN_DISTANCE_TOLERANCE, quantile(distances, 0.75))
+      : null,
+  };
+};
+
+const categoryLabel = (name: string) => {
+  const category = CUISINE_CATEGORIES.find(c => c.name === name);
+  return category ? `${category.icon} ${categoryText(category.name).name}` : name;
+};
+
+// One line describing the profile, for the top of the recommendations
+export const describeTasteProfile = (profile: TasteProfile): string[] => {
+  const { taste, common } = getMessages();
+  const parts: string[] = [];
+  const favourites = profile.categories.filter(c => c.affinity >= 0.5).slice(0, 3);
+  if (favourites.length) parts.push(taste.favourites(favourites.map(c => categoryLabel(c.category)).join(common.separator)));
+  if (profile.spend) {
+    const { currency, low, high } = profile.spend;
+    parts.push(taste.spendRange(formatSpend({ amount: Math.round(low), currency }), formatSpend({ amount: Math.round(high), currency })));
+  }
+  if (profile.distanceTolerance) parts.push(taste.usualRange(formatDistance(profile.distanceTolerance)));
+  return parts;
+};
+
+// Scores each result against the profile. Results keep their incoming order;
+// callers sort by `score` when they want the recommendation order.
+export const rankSearchResults = (
+  results: Place[],
+  profile: TasteProfile,
+  savedPlaces: SavedPlace[],
+  currentLocation: Coordinates
+): RankedPlace[] => results.map(result => {
+  const t = getMessages().taste;
+  const saved = savedPlaces.find(p => p.id === result.id);
+  const category = result.category || saved?.category;
+  const reasons: { text: string; weight: number }[] = [];
+  const warnings: string[] = [];
+  let score = 0;
+
+  let visit: VisitInfo | null = null;
+  const last = saved && latestCheckIn(saved);
+  if (saved && last) {
+    visit = { visits: saved.myCheckIns.length, lastRating: last.rating, lastVisited: last.timestamp };
+    const average = averageRating(saved) ?? last.rating;
+    const value = ((average - 3) / 2) * 0.35;
+    score += value;
+    if (average >= 4) reasons.push({ text: t.worthReturning(average.toFixed(1)), weight: value });
+    if (last.rating <= 2) warnings.push(t.lowLastRating(last.rating));
+
+    const spent = perPersonSpend(last);
+    if (spent !== null && last.spend && profile.spend && last.spend.currency === profile.spend.currency) {
+      if (spent > profile.spend.high * 1.5) warnings.push(t.pricier);
+      else if (spent <= profile.spend.high) reasons.push({ text: t.usualPrice, weight: 0.05 });
+    }
+  }
+
+  const taste = category ? profile.categories.find(c => c.category === category) : undefined;
+  if (taste) {
+    const value = taste.affinity * 0.35;
+    score += value;
+    if (taste.affinity >= 0.5) {
+      reasons.push({ text: t.likedCategory(categoryText(taste.category).name, taste.averageRating.toFixed(1)), weight: value });
+    } else if (taste.averageRating < 3 && taste.visits >= 2) {
+      warnings.push(t.dislikedCategory(categoryText(taste.category).name));
+    }
+  }
+
+  const distance = distanceInMeters(currentLocation, result.location);
+  if (profile.distanceTolerance) {
+    const value = Math.max(0, 1 - distance / (profile.distanceTolerance * 2)) * 0.2;
+    score += value;
+    if (distance <= profile.distanceTolerance) reasons.push({ text: t.withinRange(formatDistance(distance)), weight: value });
+    else if (distance > profile.distanceTolerance * 2) warnings.push(t.farther(formatDistance(distance)));
+  }
+
+  if (result.rating) {
+    const value = ((result.rating - 3) / 2) * 0.2;
+    score += value;
+    if (result.rating >= 4.2) {
+      reasons.push({ text: t.googleRating(result.rating.toFixed(1), result.reviews), weight: value });
+    }
+  }
+
+  return {
+    place: result,
+    score,
+    reasons: reasons.sort((a, b) => b.weight - a.weight).map(r => r.text),
+    warnings,
+    visit,
+  };
+});
@@ -11,6 +11,28 @@ export interface Place {
   rating?: number; // Aggregate rating or Google rating
   reviews?: number; // Number of reviews
   googleMapsUri?: string;
+  category?: string; // One of CUISINE_CATEGORIES' names
+}
+
+export interface CheckInPhoto {
+  id: string;
+  src: string; // Compressed image: a base64 data URL, or an object URL once loaded from storage
+  thumbnail?: string; // Small image for lists, as either kind of URL; older photos may not have one
+  caption?: string;
+}
+
+export type MealType = 'breakfast' | 'lunch' | 'dinner' | 'late-night';
+
+export interface Dish {
+  id: string;
+  name: string;
+  rating?: number; // 1-5
+  photoId?: string; // One of the check-in's photos
+}
+
+export interface Spend {
+  amount: number; // Total for the whole party
+  currency: string; // ISO 4217 code, e.g. TWD
 }
 
 export interface CheckIn {
@@ -19,9 +41,49 @@ export interface CheckIn {
   timestamp: number;
   rating: number; // 1-5
   text: string;
-  image?: string; // Base64 string
+  photos: CheckInPhoto[]; // In display order
+  dishes?: Dish[];
+  spend?: Spend;
+  partySize?: number; // Including ourselves
+  companions?: string[];
+  mealType?: MealType;
+  updatedAt?: number; // Last local or synced edit; records from before sync have none
+}
+
+export interface PlaceSummary {
+  order: string; // What to order
+  avoid: string; // What to skip
+  trend: string; // How visits have gone over time
+  checkInsHash: string; // Fingerprint of the check-ins it was written from
+  language?: string; // Locale it's written in; zh-TW when missing
+  generatedAt: number;
 }
 
 export interface SavedPlace extends Place {
   myCheckIns: CheckIn[];
+  tags?: string[]; // User-defined, without the leading #
+  summary?: PlaceSummary; // AI-written, cached until the check-ins change
+  listIds?: string[]; // PlaceList ids; a place can be listed without any check-ins
+  updatedAt?: number; // Last edit to the place itself; check-ins carry their own
+}
+
+// A named collection such as "想去"
+export interface PlaceList {
+  id: string;
+  name: string;
+  icon: string; // A single emoji on the map marker
+  color: string; // Marker colour, hex only (#rgb to #rrggbbaa)
+  visible: boolean; // Whether its places are drawn on the map
+  createdAt: number;
+}
+
+// A list someone shared with us: read-only, drawn as its own map layer
+export interface SharedList {
+  id: string; // Local id, assigned on import
+  name: string;
+  icon: string;
+  color: string;
+  visible: boolean;
+  places: Place[];
+  importedAt: number;
 }
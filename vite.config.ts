@@ -2,17 +2,29 @@ import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
 
-export default defineConfig(({ mode }) => {
+export default defineConfig(({ command, mode }) => {
     const env = loadEnv(mode, '.', '');
+    // Calling Gemini from the browser exposes the key, so only the dev server ever gets it;
+    // builds always go through the AI proxy (server/aiProxy.ts)
+    const directApiKey = command === 'serve' ? env.GEMINI_API_KEY : '';
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: {
+          '/api': env.AI_PROXY_TARGET || 'http://localhost:8788',
+        },
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(directApiKey || ''),
+        // Where the AI proxy is; empty means the same origin as the app
+        'process.env.AI_PROXY_URL': JSON.stringify(env.AI_PROXY_URL || ''),
+        'process.env.NOMINATIM_URL': JSON.stringify(env.NOMINATIM_URL || 'https://nominatim.openstreetmap.org'),
+        // An empty OSRM_URL turns routing off; food crawls then use straight lines
+        'process.env.OSRM_URL': JSON.stringify(env.OSRM_URL ?? 'https://routing.openstreetmap.de/routed-foot'),
+        // Preset sync server; each device can still change it
+        'process.env.SYNC_URL': JSON.stringify(env.SYNC_URL || '')
       },
       resolve: {
         alias: {